@@ -0,0 +1,72 @@
+// Keeps the app usable through connectivity drops at camps:
+// - the app shell and built assets are served from cache when offline
+// - Supabase REST reads fall back to the last response seen for the same URL
+// Writes are not handled here; the app queues them in its IndexedDB outbox.
+const SHELL_CACHE = "relief-hub-shell-v1";
+const DATA_CACHE = "relief-hub-data-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cached reads belong to whoever was signed in, so the app clears them on sign-out
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "clear-data-cache") {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request, { ignoreVary: true })) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    // Vite fingerprints built assets, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request));
+  } else if (url.pathname.startsWith("/rest/v1/")) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
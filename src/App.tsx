@@ -3,26 +3,50 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import I18nProvider from "./i18n/I18nProvider";
+import RequireRole from "./components/auth/RequireRole";
+import UserDashboard from "./components/dashboards/UserDashboard";
+import CampDashboard from "./components/dashboards/CampDashboard";
+import NGODashboard from "./components/dashboards/NGODashboard";
+import AdminDashboard from "./components/dashboards/AdminDashboard";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Onboarding from "./pages/Onboarding";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <I18nProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route element={<RequireRole />}>
+              <Route path="/onboarding" element={<Onboarding />} />
+            </Route>
+            <Route element={<RequireRole role="user" />}>
+              <Route path="/citizen/:tab?" element={<UserDashboard />} />
+            </Route>
+            <Route element={<RequireRole role="camp" />}>
+              <Route path="/camp/:campId?/:tab?" element={<CampDashboard />} />
+            </Route>
+            <Route element={<RequireRole role="ngo" />}>
+              <Route path="/ngo/:tab?" element={<NGODashboard />} />
+            </Route>
+            <Route element={<RequireRole role="admin" />}>
+              <Route path="/admin/:tab?" element={<AdminDashboard />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </I18nProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  CATALOGUE_CATEGORIES,
+  CatalogueCategory,
+  CatalogueItem,
+  categoryLabels,
+  describePackSize,
+  invalidateCatalogue,
+} from "@/lib/catalogue";
+import { Pencil, Plus, Search } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+const CatalogueManager = () => {
+  const [items, setItems] = useState<CatalogueItem[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  // undefined: dialog closed, null: adding a new item
+  const [editingItem, setEditingItem] = useState<CatalogueItem | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const fetchItems = async () => {
+    const { data, error } = await supabase
+      .from("catalogue_items")
+      .select("*")
+      .order("category", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching catalogue:", error);
+      toast.error("Failed to load item catalogue");
+    } else {
+      setItems(data || []);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const packSize = formData.get("packSize") as string;
+
+    const values = {
+      category: formData.get("category") as string,
+      name: (formData.get("name") as string).trim(),
+      name_ml: (formData.get("nameMl") as string).trim() || null,
+      unit: (formData.get("unit") as string).trim(),
+      pack_size: packSize ? parseFloat(packSize) : null,
+      aliases: (formData.get("aliases") as string)
+        .split(",")
+        .map((alias) => alias.trim().toLowerCase())
+        .filter(Boolean),
+    };
+
+    try {
+      const { error } = editingItem
+        ? await supabase.from("catalogue_items").update(values).eq("id", editingItem.id)
+        : await supabase.from("catalogue_items").insert(values);
+
+      if (error) throw error;
+
+      invalidateCatalogue();
+      await fetchItems();
+      setEditingItem(undefined);
+      toast.success("Catalogue updated");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to save item"));
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredItems = items.filter(
+    (item) =>
+      !term ||
+      item.name.toLowerCase().includes(term) ||
+      item.name_ml?.includes(term) ||
+      item.aliases.some((alias) => alias.includes(term))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center gap-4">
+          <CardTitle>Item Catalogue</CardTitle>
+          <Button onClick={() => setEditingItem(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, Malayalam name or alias"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {filteredItems.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium">
+                {item.name}
+                {item.name_ml && <span className="text-muted-foreground font-normal"> · {item.name_ml}</span>}
+              </div>
+              <div className="text-sm text-muted-foreground truncate">
+                {describePackSize(item) || `per ${item.unit}`}
+                {item.aliases.length > 0 && ` · ${item.aliases.join(", ")}`}
+              </div>
+            </div>
+            <Badge variant="secondary">{categoryLabels[item.category as CatalogueCategory]}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => setEditingItem(item)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={editingItem !== undefined} onOpenChange={(open) => !open && setEditingItem(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingItem ? "Edit Catalogue Item" : "Add Catalogue Item"}</DialogTitle>
+          </DialogHeader>
+          {editingItem !== undefined && (
+            <form key={editingItem?.id ?? "new"} onSubmit={handleSave} className="space-y-4">
+              <div>
+                <Label htmlFor="category">Category</Label>
+                <Select name="category" defaultValue={editingItem?.category} required>
+                  <SelectTrigger id="category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATALOGUE_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="name">Name (English)</Label>
+                  <Input id="name" name="name" defaultValue={editingItem?.name} required />
+                </div>
+                <div>
+                  <Label htmlFor="nameMl">Name (Malayalam)</Label>
+                  <Input id="nameMl" name="nameMl" defaultValue={editingItem?.name_ml ?? ""} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="unit">Unit</Label>
+                  <Input id="unit" name="unit" placeholder="kg, litre, piece…" defaultValue={editingItem?.unit} required />
+                </div>
+                <div>
+                  <Label htmlFor="packSize">Pack Size (Optional)</Label>
+                  <Input
+                    id="packSize"
+                    name="packSize"
+                    type="number"
+                    step="any"
+                    min={0}
+                    defaultValue={editingItem?.pack_size ?? ""}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="aliases">Other Spellings</Label>
+                <Input
+                  id="aliases"
+                  name="aliases"
+                  placeholder="Comma separated, e.g. atta, gothambu"
+                  defaultValue={editingItem?.aliases.join(", ")}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Used to match free-text needs and pledges to this item
+                </p>
+              </div>
+              <Button type="submit" className="w-full">Save</Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CatalogueManager;
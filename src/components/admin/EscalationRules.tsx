@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+type EscalationRule = Tables<"need_escalation_rules">;
+
+// Critical is the top level, so it never escalates
+const ESCALATING_URGENCIES = Constants.public.Enums.need_urgency.filter((urgency) => urgency !== "critical");
+
+const urgencyLabels: Record<Enums<"need_urgency">, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+const nextUrgency = (urgency: Enums<"need_urgency">) => {
+  const levels = Constants.public.Enums.need_urgency;
+  return levels[levels.indexOf(urgency) + 1];
+};
+
+const EscalationRules = () => {
+  const [rules, setRules] = useState<EscalationRule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase.from("need_escalation_rules").select("*");
+
+    if (error) {
+      console.error("Error fetching escalation rules:", error);
+      toast.error("Failed to load escalation rules");
+    } else {
+      setRules(data || []);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    // A blank interval switches escalation off for that level
+    const updated = ESCALATING_URGENCIES.flatMap((urgency) => {
+      const hours = formData.get(urgency) as string;
+      return hours ? [{ urgency, escalate_after_hours: parseInt(hours) }] : [];
+    });
+    const removed = ESCALATING_URGENCIES.filter((urgency) => !updated.some((rule) => rule.urgency === urgency));
+
+    setSaving(true);
+    try {
+      if (updated.length > 0) {
+        const { error } = await supabase.from("need_escalation_rules").upsert(updated);
+        if (error) throw error;
+      }
+      if (removed.length > 0) {
+        const { error } = await supabase.from("need_escalation_rules").delete().in("urgency", removed);
+        if (error) throw error;
+      }
+
+      await fetchRules();
+      toast.success("Escalation rules saved");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to save escalation rules"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Need Escalation</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          A need that nobody has pledged to moves up one urgency level after this many hours.
+          Leave a level blank to stop it escalating.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {/* Remounted when rules load so the inputs pick up the saved values */}
+        <form key={rules.map((rule) => `${rule.urgency}:${rule.escalate_after_hours}`).join(",")} onSubmit={handleSave} className="space-y-4 max-w-md">
+          {ESCALATING_URGENCIES.map((urgency) => (
+            <div key={urgency} className="grid grid-cols-2 items-center gap-4">
+              <Label htmlFor={`escalate-${urgency}`}>
+                {urgencyLabels[urgency]} → {urgencyLabels[nextUrgency(urgency)]}
+              </Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={`escalate-${urgency}`}
+                  name={urgency}
+                  type="number"
+                  min={1}
+                  defaultValue={rules.find((rule) => rule.urgency === urgency)?.escalate_after_hours ?? ""}
+                />
+                <span className="text-sm text-muted-foreground">hours</span>
+              </div>
+            </div>
+          ))}
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Save Rules"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EscalationRules;
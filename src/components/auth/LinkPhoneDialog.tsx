@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import OtpCodeForm from "@/components/auth/OtpCodeForm";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSession } from "@/hooks/use-session";
+import { normalizePhone } from "@/lib/phone";
+import { queryKeys } from "@/lib/queryKeys";
+import { errorMessage } from "@/lib/utils";
+import { Smartphone } from "lucide-react";
+import { toast } from "sonner";
+
+// Confirms a mobile number on the signed-in account, so phone sign-in opens
+// this account and its profile instead of creating a second one
+const LinkPhoneDialog = () => {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const { session } = useSession();
+  const [open, setOpen] = useState(false);
+  const [phone, setPhone] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  if (!session || session.user.phone_confirmed_at) return null;
+
+  const sendCode = async (number: string) => {
+    setSending(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ phone: number });
+      if (error) throw error;
+      setPhone(number);
+    } catch (error) {
+      toast.error(errorMessage(error, t("auth.sendCodeFailed")));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendCode = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+    const number = normalizePhone(formData.get("phone") as string);
+
+    if (!number) {
+      toast.error(t("auth.invalidPhone"));
+      return;
+    }
+
+    sendCode(number);
+  };
+
+  // The database copies the confirmed number onto the profile
+  const handleVerify = async (code: string) => {
+    const { error } = await supabase.auth.verifyOtp({ phone: phone!, token: code, type: "phone_change" });
+    if (error) throw error;
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.profile.mine() });
+    setOpen(false);
+    toast.success(t("account.phoneLinked"));
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setPhone(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Smartphone className="w-4 h-4 mr-2" />
+          {t("account.linkPhone")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("account.linkPhoneTitle")}</DialogTitle>
+          <DialogDescription>{t("account.linkPhoneBody")}</DialogDescription>
+        </DialogHeader>
+        {phone ? (
+          <OtpCodeForm
+            phone={phone}
+            onVerify={handleVerify}
+            onResend={() => sendCode(phone)}
+            onChangeNumber={() => setPhone(null)}
+          />
+        ) : (
+          <form onSubmit={handleSendCode} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="link-phone">{t("auth.phone")}</Label>
+              <Input
+                id="link-phone"
+                name="phone"
+                type="tel"
+                inputMode="tel"
+                defaultValue={session.user.user_metadata?.phone ?? ""}
+                placeholder="+91 XXXXX XXXXX"
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={sending}>
+              {sending ? t("auth.sendingCode") : t("auth.sendCode")}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LinkPhoneDialog;
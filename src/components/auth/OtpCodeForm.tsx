@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useI18n } from "@/hooks/use-i18n";
+import { OTP_LENGTH } from "@/lib/phone";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface OtpCodeFormProps {
+  phone: string;
+  onVerify: (code: string) => Promise<void>;
+  onResend: () => Promise<void>;
+  onChangeNumber: () => void;
+}
+
+// Second step of every phone flow: enter the texted code, or start over
+const OtpCodeForm = ({ phone, onVerify, onResend, onChangeNumber }: OtpCodeFormProps) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+
+  const verify = async (value: string) => {
+    setVerifying(true);
+    try {
+      await onVerify(value);
+    } catch (error) {
+      setCode("");
+      toast.error(errorMessage(error, t("auth.verifyFailed")));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    verify(code);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("auth.codeSent", { phone })}</p>
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={OTP_LENGTH}
+          value={code}
+          onChange={setCode}
+          onComplete={verify}
+          disabled={verifying}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: OTP_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button type="submit" className="w-full" disabled={verifying || code.length < OTP_LENGTH}>
+        {verifying ? t("auth.verifying") : t("auth.verifyCode")}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" size="sm" className="px-0" onClick={onChangeNumber}>
+          {t("auth.changeNumber")}
+        </Button>
+        <Button type="button" variant="link" size="sm" className="px-0" onClick={onResend} disabled={verifying}>
+          {t("auth.resendCode")}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default OtpCodeForm;
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import RoleOptions from "@/components/auth/RoleOptions";
+import OtpCodeForm from "@/components/auth/OtpCodeForm";
+import { useI18n } from "@/hooks/use-i18n";
+import { normalizePhone, OTP_LENGTH } from "@/lib/phone";
+import type { SelfServiceRole } from "@/lib/roles";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface PendingSignIn {
+  phone: string;
+  fullName: string;
+  role: SelfServiceRole;
+}
+
+// One flow for both signing in and signing up: an unknown number gets an account,
+// with the name and account type given here
+const PhoneSignIn = () => {
+  const { t } = useI18n();
+  const [selectedRole, setSelectedRole] = useState<SelfServiceRole>("user");
+  const [pending, setPending] = useState<PendingSignIn | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const sendCode = async (request: PendingSignIn) => {
+    setSending(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        phone: request.phone,
+        options: {
+          // Only applied when the number is new; a camp role is filed as a request for approval
+          data: {
+            full_name: request.fullName || undefined,
+            role: request.role,
+            phone: request.phone,
+          },
+        },
+      });
+
+      if (error) throw error;
+      setPending(request);
+    } catch (error) {
+      toast.error(errorMessage(error, t("auth.sendCodeFailed")));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendCode = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+    const phone = normalizePhone(formData.get("phone") as string);
+
+    if (!phone) {
+      toast.error(t("auth.invalidPhone"));
+      return;
+    }
+
+    sendCode({ phone, fullName: (formData.get("fullName") as string).trim(), role: selectedRole });
+  };
+
+  // The auth listener picks up the new session and leaves the sign-in page
+  const handleVerify = async (code: string) => {
+    const { error } = await supabase.auth.verifyOtp({ phone: pending!.phone, token: code, type: "sms" });
+    if (error) throw error;
+    toast.success(t("auth.signedIn"));
+  };
+
+  if (pending) {
+    return (
+      <OtpCodeForm
+        phone={pending.phone}
+        onVerify={handleVerify}
+        onResend={() => sendCode(pending)}
+        onChangeNumber={() => setPending(null)}
+      />
+    );
+  }
+
+  return (
+    <form onSubmit={handleSendCode} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="otp-phone">{t("auth.phone")}</Label>
+        <Input id="otp-phone" name="phone" type="tel" inputMode="tel" placeholder="+91 XXXXX XXXXX" required />
+        <p className="text-xs text-muted-foreground">{t("auth.phoneHint", { length: OTP_LENGTH })}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="otp-fullName">{t("auth.fullName")}</Label>
+        <Input id="otp-fullName" name="fullName" placeholder={t("auth.fullNamePlaceholder")} />
+        <p className="text-xs text-muted-foreground">{t("auth.firstTimeOnly")}</p>
+      </div>
+      <div className="space-y-3">
+        <Label>{t("auth.accountType")}</Label>
+        <RoleOptions value={selectedRole} onChange={setSelectedRole} roles={["user", "camp"]} />
+        <p className="text-xs text-muted-foreground">{t("auth.roleNeedsApproval")}</p>
+      </div>
+      <Button type="submit" className="w-full" disabled={sending}>
+        {sending ? t("auth.sendingCode") : t("auth.sendCode")}
+      </Button>
+    </form>
+  );
+};
+
+export default PhoneSignIn;
@@ -0,0 +1,64 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMyProfile } from "@/hooks/use-profile";
+import { useSession } from "@/hooks/use-session";
+import { homeFor, type AppRole } from "@/lib/roles";
+import { AlertCircle } from "lucide-react";
+
+interface RequireRoleProps {
+  // Omit to only require a signed-in user
+  role?: AppRole;
+}
+
+// Layout route that renders its children only for a signed-in user with the given role.
+// Everyone else is sent to sign in, to onboarding, or to their own dashboard.
+const RequireRole = ({ role }: RequireRoleProps) => {
+  const { t } = useI18n();
+  const location = useLocation();
+  const { session, loading } = useSession();
+  const profileQuery = useMyProfile({ enabled: !!session });
+
+  if (loading || (session && profileQuery.isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">{t("common.loading")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" state={{ from: location.pathname }} replace />;
+  }
+
+  // A failed lookup must not be mistaken for a missing profile and bounce to onboarding
+  if (profileQuery.isError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="py-8 text-center space-y-4">
+            <AlertCircle className="w-12 h-12 text-muted-foreground mx-auto" />
+            <p className="text-muted-foreground">{t("guard.profileFailed")}</p>
+            <Button variant="outline" onClick={() => profileQuery.refetch()}>
+              {t("common.retry")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const profile = profileQuery.data;
+
+  if (role && profile?.role !== role) {
+    return <Navigate to={homeFor(profile?.role)} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireRole;
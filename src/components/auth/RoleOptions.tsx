@@ -0,0 +1,41 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useI18n } from "@/hooks/use-i18n";
+import type { SelfServiceRole } from "@/lib/roles";
+import { Shield, Home, Building2 } from "lucide-react";
+
+interface RoleOptionsProps {
+  value: SelfServiceRole;
+  onChange: (role: SelfServiceRole) => void;
+  // Limits the choice, e.g. phone sign-up is meant for citizens and camp staff
+  roles?: SelfServiceRole[];
+}
+
+const RoleOptions = ({ value, onChange, roles }: RoleOptionsProps) => {
+  const { t } = useI18n();
+
+  const options = [
+    { role: "user" as const, icon: Shield, title: t("auth.roleUser"), hint: t("auth.roleUserHint") },
+    { role: "camp" as const, icon: Home, title: t("auth.roleCamp"), hint: t("auth.roleCampHint") },
+    { role: "ngo" as const, icon: Building2, title: t("auth.roleNgo"), hint: t("auth.roleNgoHint") },
+  ].filter((option) => !roles || roles.includes(option.role));
+
+  return (
+    <RadioGroup value={value} onValueChange={(role) => onChange(role as SelfServiceRole)}>
+      {options.map(({ role, icon: Icon, title, hint }) => (
+        <div key={role} className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-colors">
+          <RadioGroupItem value={role} id={role} />
+          <Label htmlFor={role} className="flex items-center gap-2 cursor-pointer flex-1">
+            <Icon className="w-4 h-4" />
+            <div>
+              <div className="font-medium">{title}</div>
+              <div className="text-xs text-muted-foreground">{hint}</div>
+            </div>
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+export default RoleOptions;
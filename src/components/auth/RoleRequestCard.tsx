@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMyRoleRequests, useRequestRole } from "@/hooks/use-role-requests";
+import type { RequestableRole } from "@/lib/roleRequests";
+import { errorMessage } from "@/lib/utils";
+import { Clock, KeyRound, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+const REQUESTABLE_ROLES: RequestableRole[] = ["camp", "ngo"];
+
+// Lets a citizen ask for camp or NGO access and shows where that request stands
+const RoleRequestCard = () => {
+  const { t, label, formatDate } = useI18n();
+  const { data: requests = [] } = useMyRoleRequests();
+  const requestRole = useRequestRole();
+  const [open, setOpen] = useState(false);
+  const [role, setRole] = useState<RequestableRole>("camp");
+
+  const latest = requests[0];
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      await requestRole.mutateAsync({
+        role,
+        organizationName: formData.get("organizationName") as string,
+        message: formData.get("message") as string,
+      });
+
+      setOpen(false);
+      toast.success(t("auth.accessRequested", { role: label("appRole", role) }));
+    } catch (error) {
+      toast.error(errorMessage(error, t("roleRequest.submitFailed")));
+    }
+  };
+
+  if (latest?.status === "pending") {
+    return (
+      <Card className="mb-6 border-warning">
+        <CardContent className="py-4 flex items-start gap-3">
+          <Clock className="w-5 h-5 text-warning mt-0.5" />
+          <div>
+            <div className="font-medium">{t("roleRequest.pendingTitle")}</div>
+            <p className="text-sm text-muted-foreground">
+              {t("roleRequest.pendingBody", {
+                role: label("appRole", latest.requested_role),
+                date: formatDate(latest.created_at),
+              })}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rejected = latest?.status === "rejected";
+
+  return (
+    <Card className={`mb-6 ${rejected ? "border-destructive" : ""}`}>
+      <CardContent className="py-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          {rejected ? (
+            <XCircle className="w-5 h-5 text-destructive mt-0.5" />
+          ) : (
+            <KeyRound className="w-5 h-5 text-primary mt-0.5" />
+          )}
+          <div>
+            <div className="font-medium">{rejected ? t("roleRequest.rejectedTitle") : t("roleRequest.title")}</div>
+            <p className="text-sm text-muted-foreground">
+              {rejected
+                ? latest.review_notes || t("roleRequest.rejectedBody", { role: label("appRole", latest.requested_role) })
+                : t("roleRequest.body")}
+            </p>
+          </div>
+        </div>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline">{t("roleRequest.request")}</Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t("roleRequest.dialogTitle")}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <RadioGroup value={role} onValueChange={(value) => setRole(value as RequestableRole)}>
+                {REQUESTABLE_ROLES.map((option) => (
+                  <div key={option} className="flex items-center space-x-2 p-3 border rounded-lg">
+                    <RadioGroupItem value={option} id={`request-${option}`} />
+                    <Label htmlFor={`request-${option}`} className="cursor-pointer flex-1">
+                      {label("appRole", option)}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <div>
+                <Label htmlFor="organizationName">{t("roleRequest.organization")}</Label>
+                <Input id="organizationName" name="organizationName" required />
+              </div>
+              <div>
+                <Label htmlFor="message">{t("roleRequest.message")}</Label>
+                <Textarea id="message" name="message" placeholder={t("roleRequest.messagePlaceholder")} />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestRole.isPending}>
+                {t("roleRequest.submit")}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleRequestCard;
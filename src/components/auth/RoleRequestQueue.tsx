@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useI18n } from "@/hooks/use-i18n";
+import { useReviewRoleRequest, useRoleRequestQueue, type QueuedRoleRequest } from "@/hooks/use-role-requests";
+import { Check, KeyRound, Phone, X } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface RoleRequestQueueProps {
+  // Show an empty state instead of rendering nothing when there is nothing to review
+  showEmpty?: boolean;
+}
+
+// Pending camp/NGO access requests this account may decide on
+const RoleRequestQueue = ({ showEmpty = false }: RoleRequestQueueProps) => {
+  const { t, label, formatDate } = useI18n();
+  const { data: requests = [] } = useRoleRequestQueue();
+  const review = useReviewRoleRequest();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const handleReview = async (request: QueuedRoleRequest, approve: boolean) => {
+    try {
+      await review.mutateAsync({ requestId: request.id, approve, notes: notes[request.id] });
+      toast.success(approve ? t("roleRequest.approved") : t("roleRequest.rejected"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("roleRequest.reviewFailed")));
+    }
+  };
+
+  if (requests.length === 0 && !showEmpty) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="w-5 h-5 text-primary" />
+          {t("roleRequest.queueTitle")}
+          {requests.length > 0 && <Badge variant="secondary">{requests.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.length === 0 && (
+          <p className="text-center py-6 text-muted-foreground">{t("roleRequest.none")}</p>
+        )}
+        {requests.map((request) => (
+          <div key={request.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <div className="font-medium">
+                  {t("roleRequest.requestedBy", {
+                    name: request.profiles?.full_name ?? "",
+                    role: label("appRole", request.requested_role),
+                  })}
+                </div>
+                {request.organization_name && (
+                  <div className="text-sm">{request.organization_name}</div>
+                )}
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {formatDate(request.created_at)}
+                  {request.profiles?.phone && (
+                    <>
+                      <Phone className="w-3 h-3 ml-2" />
+                      {request.profiles.phone}
+                    </>
+                  )}
+                </div>
+              </div>
+              <Badge variant="outline">{label("appRole", request.requested_role)}</Badge>
+            </div>
+            {request.message && <p className="text-sm text-muted-foreground">{request.message}</p>}
+            <Input
+              placeholder={t("roleRequest.reviewNotes")}
+              value={notes[request.id] || ""}
+              onChange={(e) => setNotes((current) => ({ ...current, [request.id]: e.target.value }))}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleReview(request, true)} disabled={review.isPending}>
+                <Check className="w-4 h-4 mr-2" />
+                {t("roleRequest.approve")}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleReview(request, false)} disabled={review.isPending}>
+                <X className="w-4 h-4 mr-2" />
+                {t("roleRequest.reject")}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleRequestQueue;
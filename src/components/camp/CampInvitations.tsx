@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CampInvite, getMyCampInvites, respondToCampInvite } from "@/lib/campTeam";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { Check, MailOpen, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface CampInvitationsProps {
+  onAccepted: () => void;
+}
+
+// Invites addressed to the signed-in account's email; renders nothing when there are none
+const CampInvitations = ({ onAccepted }: CampInvitationsProps) => {
+  const { t, label } = useI18n();
+  const [invites, setInvites] = useState<CampInvite[]>([]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const fetchInvites = async () => {
+    try {
+      setInvites(await getMyCampInvites());
+    } catch (error) {
+      console.error("Error fetching camp invites:", error);
+    }
+  };
+
+  const handleRespond = async (inviteId: string, accept: boolean) => {
+    try {
+      await respondToCampInvite(inviteId, accept);
+      await fetchInvites();
+
+      if (accept) {
+        toast.success(t("campInvites.joined"));
+        onAccepted();
+      } else {
+        toast.success(t("campInvites.declined"));
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, t("campInvites.respondFailed")));
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MailOpen className="w-5 h-5 text-primary" />
+          {t("campInvites.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invites.map((invite) => (
+          <div key={invite.invite_id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg">
+            <div className="flex-1">
+              <div className="font-medium">{invite.camp_name}</div>
+              <div className="text-sm text-muted-foreground">
+                {invite.camp_location}
+                {invite.invited_by_name && ` · ${t("campInvites.invitedBy", { name: invite.invited_by_name })}`}
+              </div>
+            </div>
+            <Badge variant="secondary">{label("campRole", invite.role)}</Badge>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleRespond(invite.invite_id, false)}>
+                <X className="w-4 h-4 mr-2" />
+                {t("common.decline")}
+              </Button>
+              <Button size="sm" onClick={() => handleRespond(invite.invite_id, true)}>
+                <Check className="w-4 h-4 mr-2" />
+                {t("common.accept")}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CampInvitations;
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import EditCampDialog from "@/components/camp/EditCampDialog";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUpdateCamp, type MyCamp } from "@/hooks/use-camps";
+import { useCampDeliveries } from "@/hooks/use-pledges";
+import { OUTSTANDING_DELIVERY_STATUSES } from "@/lib/assistance";
+import { canCamp } from "@/lib/campTeam";
+import { campStatus, campStatusActions, requiresReason, type CampStatus } from "@/lib/campLifecycle";
+import { errorMessage } from "@/lib/utils";
+import { CheckCircle2, Circle, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+interface CampLifecycleCardProps {
+  camp: MyCamp;
+  openNeeds: number;
+  onOpenEvacuees: () => void;
+}
+
+const statusVariants = {
+  active: "default",
+  full: "secondary",
+  inactive: "outline",
+  closed: "destructive",
+} as const satisfies Record<CampStatus, string>;
+
+interface ChecklistItemProps {
+  done: boolean;
+  children: React.ReactNode;
+}
+
+const ChecklistItem = ({ done, children }: ChecklistItemProps) => (
+  <li className="flex items-start gap-2 text-sm">
+    {done ? (
+      <CheckCircle2 className="w-4 h-4 text-success mt-0.5 shrink-0" />
+    ) : (
+      <Circle className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+    )}
+    <div className="flex-1">{children}</div>
+  </li>
+);
+
+interface CloseChecklistProps {
+  camp: MyCamp;
+  openNeeds: number;
+  onOpenEvacuees: () => void;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+// Closing strands anyone still checked in, so the camp has to be emptied first
+const CloseChecklist = ({ camp, openNeeds, onOpenEvacuees, confirmed, onConfirmedChange }: CloseChecklistProps) => {
+  const { t, formatNumber } = useI18n();
+  const { data: deliveries = [] } = useCampDeliveries(camp.id);
+  const incoming = deliveries.filter((delivery) => OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status)).length;
+
+  return (
+    <ul className="space-y-3">
+      <ChecklistItem done={camp.occupied_seats === 0}>
+        {camp.occupied_seats === 0
+          ? t("campLifecycle.evacueesCleared")
+          : t("campLifecycle.evacueesRemaining", { count: formatNumber(camp.occupied_seats) })}
+        {camp.occupied_seats > 0 && (
+          <Button type="button" variant="link" className="h-auto p-0 ml-1" onClick={onOpenEvacuees}>
+            {t("campLifecycle.openRegistry")}
+          </Button>
+        )}
+      </ChecklistItem>
+      <ChecklistItem done={incoming === 0}>
+        {incoming === 0
+          ? t("campLifecycle.deliveriesCleared")
+          : t("campLifecycle.deliveriesRemaining", { count: formatNumber(incoming) })}
+      </ChecklistItem>
+      <ChecklistItem done={openNeeds === 0}>
+        {openNeeds === 0
+          ? t("campLifecycle.needsCleared")
+          : t("campLifecycle.needsRemaining", { count: formatNumber(openNeeds) })}
+      </ChecklistItem>
+      <li className="flex items-start gap-2 text-sm">
+        <Checkbox
+          id="transfer-confirmed"
+          checked={confirmed}
+          onCheckedChange={(checked) => onConfirmedChange(checked === true)}
+          className="mt-0.5"
+        />
+        <Label htmlFor="transfer-confirmed" className="font-normal leading-snug">
+          {t("campLifecycle.transferConfirm")}
+        </Label>
+      </li>
+    </ul>
+  );
+};
+
+// Shows where the camp is in its lifecycle and lets owners and managers edit it,
+// mark it full, suspend it or close it for good
+const CampLifecycleCard = ({ camp, openNeeds, onOpenEvacuees }: CampLifecycleCardProps) => {
+  const { t, label, formatDate } = useI18n();
+  const updateCamp = useUpdateCamp();
+  const [target, setTarget] = useState<CampStatus | null>(null);
+  const [transferConfirmed, setTransferConfirmed] = useState(false);
+
+  const status = campStatus(camp);
+  const canManage = canCamp(camp.my_role, "manageCamp");
+
+  const changeStatus = async (next: CampStatus, reason: string | null = null) => {
+    try {
+      const updated = await updateCamp.mutateAsync({
+        campId: camp.id,
+        changes: { status: next, status_reason: reason },
+      });
+
+      setTarget(null);
+      toast.success(t("campLifecycle.statusChanged", { status: label("campStatus", campStatus(updated)) }));
+    } catch (error) {
+      toast.error(errorMessage(error, t("campLifecycle.statusFailed")));
+    }
+  };
+
+  const handleAction = (next: CampStatus) => {
+    if (requiresReason(next)) {
+      setTransferConfirmed(false);
+      setTarget(next);
+    } else {
+      changeStatus(next);
+    }
+  };
+
+  const handleReasonSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!target) return;
+
+    const formData = new FormData(e.currentTarget);
+    changeStatus(target, (formData.get("reason") as string).trim());
+  };
+
+  const closing = target === "closed";
+  const canClose = camp.occupied_seats === 0 && transferConfirmed;
+
+  return (
+    <Card className={`mb-6 ${status === "closed" ? "border-destructive" : ""}`}>
+      <CardContent className="py-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{t("campLifecycle.title")}</span>
+            <Badge variant={statusVariants[status]}>{label("campStatus", status)}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {camp.status_reason || t(`campLifecycle.${status}Hint` as const)}
+            {camp.status_changed_at &&
+              ` · ${t("campLifecycle.since", { date: formatDate(camp.status_changed_at) })}`}
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            {status !== "closed" && (
+              <EditCampDialog
+                camp={camp}
+                trigger={
+                  <Button variant="outline" size="sm">
+                    <Pencil className="w-4 h-4 mr-2" />
+                    {t("campEdit.edit")}
+                  </Button>
+                }
+              />
+            )}
+            {campStatusActions(status).map((next) => (
+              <Button
+                key={next}
+                size="sm"
+                variant={next === "closed" ? "destructive" : "outline"}
+                disabled={updateCamp.isPending}
+                onClick={() => handleAction(next)}
+              >
+                {t(`campLifecycle.to_${next}` as const)}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{closing ? t("campLifecycle.closeTitle") : t("campLifecycle.suspendTitle")}</DialogTitle>
+            <DialogDescription>
+              {closing ? t("campLifecycle.closeBody") : t("campLifecycle.suspendBody")}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReasonSubmit} className="space-y-4">
+            {closing && (
+              <CloseChecklist
+                camp={camp}
+                openNeeds={openNeeds}
+                onOpenEvacuees={() => {
+                  setTarget(null);
+                  onOpenEvacuees();
+                }}
+                confirmed={transferConfirmed}
+                onConfirmedChange={setTransferConfirmed}
+              />
+            )}
+            <div>
+              <Label htmlFor="status-reason">{t("campLifecycle.reason")}</Label>
+              <Textarea
+                id="status-reason"
+                name="reason"
+                placeholder={closing ? t("campLifecycle.closeReasonPlaceholder") : t("campLifecycle.suspendReasonPlaceholder")}
+                required
+              />
+            </div>
+            <Button
+              type="submit"
+              variant={closing ? "destructive" : "default"}
+              className="w-full"
+              disabled={updateCamp.isPending || (closing && !canClose)}
+            >
+              {closing ? t("campLifecycle.to_closed") : t("campLifecycle.to_inactive")}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CampLifecycleCard;
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { CAMP_ROLES, CampRole, canCamp, inviteCampMember, revokeCampInvite, setCampMemberRole } from "@/lib/campTeam";
+import { Mail, Phone, UserPlus, X } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { toast } from "sonner";
+
+interface Member {
+  id: string;
+  user_id: string;
+  role: string;
+  profiles: {
+    full_name: string;
+    phone: string | null;
+  };
+}
+
+interface Invite {
+  id: string;
+  email: string;
+  role: string;
+  created_at: string | null;
+}
+
+interface CampTeamProps {
+  campId: string;
+  myRole: CampRole;
+  onLeft: () => void;
+}
+
+const CampTeam = ({ campId, myRole, onLeft }: CampTeamProps) => {
+  const { t, label } = useI18n();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+
+  const canInvite = canCamp(myRole, "inviteStaff");
+  const canManageTeam = canCamp(myRole, "manageTeam");
+  const invitableRoles = canManageTeam ? CAMP_ROLES : CAMP_ROLES.filter((role) => role !== "owner");
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  const fetchTeam = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("camp_members")
+      .select(`
+        *,
+        profiles!camp_members_user_id_fkey (
+          full_name,
+          phone
+        )
+      `)
+      .eq("camp_id", campId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching camp team:", error);
+    } else {
+      setMembers(data || []);
+    }
+
+    if (!canInvite) return;
+
+    const { data: inviteData, error: inviteError } = await supabase
+      .from("camp_invites")
+      .select("*")
+      .eq("camp_id", campId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false });
+
+    if (inviteError) {
+      console.error("Error fetching invites:", inviteError);
+    } else {
+      setInvites(inviteData || []);
+    }
+  }, [campId, canInvite]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      await inviteCampMember({
+        campId,
+        email: formData.get("email") as string,
+        role: formData.get("role") as CampRole,
+      });
+
+      await fetchTeam();
+      setShowInviteDialog(false);
+      toast.success(t("campTeam.inviteSent"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("campTeam.inviteFailed")));
+    }
+  };
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    try {
+      await revokeCampInvite(inviteId);
+      await fetchTeam();
+      toast.success(t("campTeam.inviteRevoked"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("campTeam.revokeFailed")));
+    }
+  };
+
+  const handleChangeRole = async (member: Member, role: CampRole) => {
+    try {
+      await setCampMemberRole({ campId, userId: member.user_id, role });
+      await fetchTeam();
+      toast.success(t("campTeam.roleUpdated"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("campTeam.roleFailed")));
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const isSelf = member.user_id === userId;
+
+    try {
+      const { error } = await supabase
+        .from("camp_members")
+        .delete()
+        .eq("id", member.id);
+
+      if (error) throw error;
+
+      if (isSelf) {
+        toast.success(t("campTeam.left"));
+        onLeft();
+      } else {
+        await fetchTeam();
+        toast.success(t("campTeam.removed"));
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, t("campTeam.removeFailed")));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t("campTeam.title")}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t("campTeam.subtitle")}
+            </p>
+          </div>
+          {canInvite && (
+            <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+              <DialogTrigger asChild>
+                <Button>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  {t("campTeam.invite")}
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t("campTeam.inviteTitle")}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleInvite} className="space-y-4">
+                  <div>
+                    <Label htmlFor="inviteEmail">{t("auth.email")}</Label>
+                    <Input id="inviteEmail" name="email" type="email" required />
+                  </div>
+                  <div>
+                    <Label htmlFor="inviteRole">{t("campTeam.role")}</Label>
+                    <Select name="role" required>
+                      <SelectTrigger id="inviteRole">
+                        <SelectValue placeholder={t("campTeam.selectRole")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {invitableRoles.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {label("campRole", role)} – {label("campRoleHint", role)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit" className="w-full">{t("campTeam.sendInvite")}</Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {members.map((member) => {
+            const isSelf = member.user_id === userId;
+
+            return (
+              <div key={member.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                <div className="flex-1">
+                  <div className="font-medium">
+                    {member.profiles.full_name}
+                    {isSelf && <span className="text-muted-foreground font-normal"> {t("campTeam.you")}</span>}
+                  </div>
+                  {member.profiles.phone && (
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Phone className="w-3 h-3" />
+                      {member.profiles.phone}
+                    </div>
+                  )}
+                </div>
+                {canManageTeam ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => handleChangeRole(member, role as CampRole)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CAMP_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{label("campRole", role)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary">{label("campRole", member.role)}</Badge>
+                )}
+                {(canManageTeam || isSelf) && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                    {isSelf ? t("campTeam.leave") : <X className="w-4 h-4" />}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {canInvite && invites.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-muted-foreground">{t("campTeam.pendingInvites")}</h3>
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between gap-4 p-4 border border-dashed rounded-lg">
+                <div className="flex items-center gap-2 flex-1">
+                  <Mail className="w-4 h-4 text-muted-foreground" />
+                  <span>{invite.email}</span>
+                </div>
+                <Badge variant="outline">{label("campRole", invite.role)}</Badge>
+                <Button variant="ghost" size="sm" onClick={() => handleRevokeInvite(invite.id)}>
+                  {t("campTeam.revoke")}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CampTeam;
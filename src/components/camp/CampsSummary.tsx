@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { OPEN_NEED_STATUSES } from "@/lib/needs";
+import { useI18n } from "@/hooks/use-i18n";
+import { AlertTriangle, Building2, ChevronRight, Package, Users } from "lucide-react";
+
+export interface SummaryCamp {
+  id: string;
+  name: string;
+  location: string;
+  total_capacity: number;
+  occupied_seats: number;
+  verification_status: string;
+}
+
+interface NeedCounts {
+  open: number;
+  critical: number;
+}
+
+interface CampsSummaryProps {
+  camps: SummaryCamp[];
+  onSelectCamp: (campId: string) => void;
+}
+
+const CampsSummary = ({ camps, onSelectCamp }: CampsSummaryProps) => {
+  const { t, label, formatNumber } = useI18n();
+  const [needCounts, setNeedCounts] = useState<Record<string, NeedCounts>>({});
+
+  const fetchNeedCounts = useCallback(async () => {
+    if (camps.length === 0) return;
+
+    const { data, error } = await supabase
+      .from("camp_needs")
+      .select("camp_id, urgency")
+      .in("camp_id", camps.map((camp) => camp.id))
+      .in("status", OPEN_NEED_STATUSES);
+
+    if (error) {
+      console.error("Error fetching need counts:", error);
+      return;
+    }
+
+    const counts: Record<string, NeedCounts> = {};
+    data?.forEach((need) => {
+      const entry = counts[need.camp_id] || { open: 0, critical: 0 };
+      entry.open += 1;
+      if (need.urgency === "critical") entry.critical += 1;
+      counts[need.camp_id] = entry;
+    });
+    setNeedCounts(counts);
+  }, [camps]);
+
+  useEffect(() => {
+    fetchNeedCounts();
+  }, [fetchNeedCounts]);
+
+  const totalCapacity = camps.reduce((sum, camp) => sum + camp.total_capacity, 0);
+  const totalOccupied = camps.reduce((sum, camp) => sum + camp.occupied_seats, 0);
+  const totalOpenNeeds = Object.values(needCounts).reduce((sum, counts) => sum + counts.open, 0);
+  const totalCriticalNeeds = Object.values(needCounts).reduce((sum, counts) => sum + counts.critical, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">{t("campsSummary.camps")}</CardTitle>
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(camps.length)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">{t("camp.occupied")}</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatNumber(totalOccupied)}{" "}
+              <span className="text-base font-normal text-muted-foreground">/ {formatNumber(totalCapacity)}</span>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">{t("camp.available")}</CardTitle>
+            <Users className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">{formatNumber(Math.max(totalCapacity - totalOccupied, 0))}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">{t("campsSummary.openNeeds")}</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(totalOpenNeeds)}</div>
+            {totalCriticalNeeds > 0 && (
+              <p className="text-xs text-destructive">{t("campsSummary.critical", { count: totalCriticalNeeds })}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("campsSummary.title")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {camps.map((camp) => {
+            const counts = needCounts[camp.id] || { open: 0, critical: 0 };
+            const occupancy = camp.total_capacity > 0
+              ? Math.min((camp.occupied_seats / camp.total_capacity) * 100, 100)
+              : 0;
+
+            return (
+              <div key={camp.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{camp.name}</span>
+                    {camp.verification_status !== "verified" && (
+                      <Badge variant="outline">{label("verification", camp.verification_status)}</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground truncate">{camp.location}</div>
+                  <div className="flex items-center gap-3">
+                    <Progress value={occupancy} className="h-2 flex-1" />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {formatNumber(camp.occupied_seats)} / {formatNumber(camp.total_capacity)}
+                    </span>
+                  </div>
+                </div>
+                <div className="text-right text-sm whitespace-nowrap">
+                  <div>{t("campsSummary.openNeedsCount", { count: counts.open })}</div>
+                  {counts.critical > 0 && (
+                    <div className="flex items-center justify-end gap-1 text-destructive">
+                      <AlertTriangle className="w-3 h-3" />
+                      {t("campsSummary.critical", { count: counts.critical })}
+                    </div>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => onSelectCamp(camp.id)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CampsSummary;
@@ -0,0 +1,107 @@
+import { ReactNode, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import LocationPicker from "@/components/map/LocationPicker";
+import VerificationFields from "@/components/verification/VerificationFields";
+import { uploadVerificationDocument } from "@/lib/verification";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { toast } from "sonner";
+
+interface CreateCampDialogProps {
+  trigger: ReactNode;
+  onCreated: (camp: Tables<"camps">) => void;
+}
+
+const CreateCampDialog = ({ trigger, onCreated }: CreateCampDialogProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const handleCreateCamp = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const latitude = formData.get("latitude") as string;
+    const longitude = formData.get("longitude") as string;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const documentFile = formData.get("document") as File | null;
+      const documentPath = documentFile?.size ? await uploadVerificationDocument(user.id, documentFile) : null;
+
+      const { data, error } = await supabase
+        .from("camps")
+        .insert({
+          camp_admin_id: user.id,
+          name: formData.get("name") as string,
+          location: formData.get("location") as string,
+          latitude: latitude ? parseFloat(latitude) : null,
+          longitude: longitude ? parseFloat(longitude) : null,
+          total_capacity: parseInt(formData.get("capacity") as string),
+          contact_phone: formData.get("phone") as string,
+          contact_email: formData.get("email") as string,
+          registration_number: formData.get("registrationNumber") as string,
+          document_path: documentPath,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onCreated(data);
+      setOpen(false);
+      toast.success(t("createCamp.created"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("createCamp.failed")));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("createCamp.title")}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleCreateCamp} className="space-y-4">
+          <div>
+            <Label htmlFor="name">{t("campEdit.name")}</Label>
+            <Input id="name" name="name" required />
+          </div>
+          <div>
+            <Label htmlFor="location">{t("campEdit.location")}</Label>
+            <Input id="location" name="location" required />
+          </div>
+          <div>
+            <Label>{t("campEdit.mapLocation")}</Label>
+            <LocationPicker />
+          </div>
+          <div>
+            <Label htmlFor="capacity">{t("camp.totalCapacity")}</Label>
+            <Input id="capacity" name="capacity" type="number" min={1} required />
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("createCamp.capacityHint")}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="phone">{t("campEdit.phone")}</Label>
+            <Input id="phone" name="phone" type="tel" required />
+          </div>
+          <div>
+            <Label htmlFor="email">{t("campEdit.email")}</Label>
+            <Input id="email" name="email" type="email" />
+          </div>
+          <VerificationFields registrationLabel={t("camp.registrationLabel")} />
+          <Button type="submit" className="w-full">{t("camp.createCamp")}</Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateCampDialog;
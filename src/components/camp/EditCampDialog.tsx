@@ -0,0 +1,104 @@
+import { ReactNode, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import LocationPicker from "@/components/map/LocationPicker";
+import { useI18n } from "@/hooks/use-i18n";
+import { useUpdateCamp, type Camp } from "@/hooks/use-camps";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface EditCampDialogProps {
+  camp: Camp;
+  trigger: ReactNode;
+}
+
+const EditCampDialog = ({ camp, trigger }: EditCampDialogProps) => {
+  const { t, formatNumber } = useI18n();
+  const updateCamp = useUpdateCamp();
+  const [open, setOpen] = useState(false);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const latitude = formData.get("latitude") as string;
+    const longitude = formData.get("longitude") as string;
+
+    try {
+      await updateCamp.mutateAsync({
+        campId: camp.id,
+        changes: {
+          name: formData.get("name") as string,
+          location: formData.get("location") as string,
+          latitude: latitude ? parseFloat(latitude) : null,
+          longitude: longitude ? parseFloat(longitude) : null,
+          total_capacity: parseInt(formData.get("capacity") as string),
+          contact_phone: formData.get("phone") as string,
+          contact_email: (formData.get("email") as string) || null,
+        },
+      });
+
+      setOpen(false);
+      toast.success(t("campEdit.saved"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("campEdit.saveFailed")));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("campEdit.title")}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="edit-name">{t("campEdit.name")}</Label>
+            <Input id="edit-name" name="name" defaultValue={camp.name} required />
+          </div>
+          <div>
+            <Label htmlFor="edit-location">{t("campEdit.location")}</Label>
+            <Input id="edit-location" name="location" defaultValue={camp.location} required />
+          </div>
+          <div>
+            <Label>{t("campEdit.mapLocation")}</Label>
+            <LocationPicker
+              defaultValue={
+                camp.latitude !== null && camp.longitude !== null ? [camp.latitude, camp.longitude] : null
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="edit-capacity">{t("camp.totalCapacity")}</Label>
+            <Input
+              id="edit-capacity"
+              name="capacity"
+              type="number"
+              min={1}
+              defaultValue={camp.total_capacity}
+              required
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {t("campEdit.capacityHint", { count: formatNumber(camp.occupied_seats) })}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="edit-phone">{t("campEdit.phone")}</Label>
+            <Input id="edit-phone" name="phone" type="tel" defaultValue={camp.contact_phone} required />
+          </div>
+          <div>
+            <Label htmlFor="edit-email">{t("campEdit.email")}</Label>
+            <Input id="edit-email" name="email" type="email" defaultValue={camp.contact_email ?? ""} />
+          </div>
+          <Button type="submit" className="w-full" disabled={updateCamp.isPending}>
+            {updateCamp.isPending ? t("campEdit.saving") : t("campEdit.save")}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditCampDialog;
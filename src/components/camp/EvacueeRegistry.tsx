@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useOutbox, useOutboxSynced } from "@/hooks/use-outbox";
+import { useI18n } from "@/hooks/use-i18n";
+import { performMutation } from "@/lib/outbox";
+import { errorMessage } from "@/lib/utils";
+import { Search, UserPlus, LogIn, LogOut, Users } from "lucide-react";
+import { toast } from "sonner";
+
+interface Evacuee {
+  id: string;
+  full_name: string;
+  age: number | null;
+  gender: string | null;
+  family_group: string | null;
+  home_village: string | null;
+  special_needs: string | null;
+  status: string;
+  checked_in_at: string;
+  checked_out_at: string | null;
+}
+
+interface EvacueeRegistryProps {
+  campId: string;
+  onOccupancyChange: () => void;
+}
+
+const EvacueeRegistry = ({ campId, onOccupancyChange }: EvacueeRegistryProps) => {
+  const { t, label } = useI18n();
+  const [evacuees, setEvacuees] = useState<Evacuee[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showCheckedOut, setShowCheckedOut] = useState(false);
+  const [showCheckInDialog, setShowCheckInDialog] = useState(false);
+  const { pending: queuedChanges } = useOutbox();
+
+  const fetchEvacuees = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("evacuees")
+      .select("*")
+      .eq("camp_id", campId)
+      .order("checked_in_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching evacuees:", error);
+      toast.error(t("evacuees.loadFailed"));
+    } else {
+      setEvacuees(data || []);
+    }
+  }, [campId, t]);
+
+  useEffect(() => {
+    fetchEvacuees();
+  }, [fetchEvacuees]);
+
+  useOutboxSynced(() => fetchEvacuees());
+
+  const queuedEvacuees = queuedChanges.flatMap((entry) =>
+    entry.mutation.kind === "register_evacuee" && entry.campId === campId ? [entry.mutation.payload] : []
+  );
+
+  const handleCheckIn = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const age = formData.get("age") as string;
+
+    try {
+      // The stored session is enough here, so check-ins work without a connection
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      const result = await performMutation(campId, {
+        kind: "register_evacuee",
+        payload: {
+          id: crypto.randomUUID(),
+          camp_id: campId,
+          full_name: formData.get("fullName") as string,
+          age: age ? parseInt(age) : null,
+          gender: (formData.get("gender") as string) || null,
+          family_group: (formData.get("familyGroup") as string) || null,
+          home_village: (formData.get("homeVillage") as string) || null,
+          special_needs: (formData.get("specialNeeds") as string) || null,
+          registered_by: session.user.id,
+          checked_in_at: new Date().toISOString(),
+        },
+      });
+
+      setShowCheckInDialog(false);
+      if (result === "queued") {
+        toast.success(t("offline.savedOffline"));
+      } else {
+        await fetchEvacuees();
+        onOccupancyChange();
+        toast.success(t("evacuees.checkedInToast"));
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, t("evacuees.checkInFailed")));
+    }
+  };
+
+  const handleStatusChange = async (evacuee: Evacuee, status: "checked_in" | "checked_out") => {
+    try {
+      const { error } = await supabase
+        .from("evacuees")
+        .update({ status })
+        .eq("id", evacuee.id);
+
+      if (error) throw error;
+
+      await fetchEvacuees();
+      onOccupancyChange();
+      toast.success(
+        status === "checked_out"
+          ? t("evacuees.checkedOutName", { name: evacuee.full_name })
+          : t("evacuees.checkedInAgainName", { name: evacuee.full_name })
+      );
+    } catch (error) {
+      toast.error(errorMessage(error, t("evacuees.updateFailed")));
+    }
+  };
+
+  const familyGroups = Array.from(
+    new Set(evacuees.map((evacuee) => evacuee.family_group).filter(Boolean))
+  ) as string[];
+
+  const filteredEvacuees = evacuees.filter(
+    (evacuee) =>
+      (showCheckedOut || evacuee.status === "checked_in") &&
+      (evacuee.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (evacuee.family_group || "").toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const activeCount = evacuees.filter((evacuee) => evacuee.status === "checked_in").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t("camp.evacuees")}</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {t("evacuees.checkedInCount", { count: activeCount })}
+              {queuedEvacuees.length > 0 && ` · ${t("evacuees.waitingCount", { count: queuedEvacuees.length })}`}
+            </p>
+          </div>
+          <Dialog open={showCheckInDialog} onOpenChange={setShowCheckInDialog}>
+            <DialogTrigger asChild>
+              <Button>
+                <UserPlus className="w-4 h-4 mr-2" />
+                {t("evacuees.checkIn")}
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t("evacuees.checkInTitle")}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCheckIn} className="space-y-4">
+                <div>
+                  <Label htmlFor="fullName">{t("common.fullName")}</Label>
+                  <Input id="fullName" name="fullName" required />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="age">{t("evacuees.age")}</Label>
+                    <Input id="age" name="age" type="number" min={0} max={130} />
+                  </div>
+                  <div>
+                    <Label htmlFor="gender">{t("common.gender")}</Label>
+                    <Select name="gender">
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("common.selectGender")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="female">{t("gender.female")}</SelectItem>
+                        <SelectItem value="male">{t("gender.male")}</SelectItem>
+                        <SelectItem value="other">{t("gender.other")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="familyGroup">{t("evacuees.familyGroup")}</Label>
+                  <Input
+                    id="familyGroup"
+                    name="familyGroup"
+                    list="family-groups"
+                    placeholder={t("evacuees.familyGroupPlaceholder")}
+                  />
+                  <datalist id="family-groups">
+                    {familyGroups.map((group) => (
+                      <option key={group} value={group} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <Label htmlFor="homeVillage">{t("evacuees.homeVillage")}</Label>
+                  <Input id="homeVillage" name="homeVillage" placeholder={t("common.villagePlaceholder")} />
+                </div>
+                <div>
+                  <Label htmlFor="specialNeeds">{t("evacuees.specialNeeds")}</Label>
+                  <Input
+                    id="specialNeeds"
+                    name="specialNeeds"
+                    placeholder={t("evacuees.specialNeedsPlaceholder")}
+                  />
+                </div>
+                <Button type="submit" className="w-full">{t("evacuees.checkIn")}</Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={t("evacuees.searchPlaceholder")}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Button variant="outline" onClick={() => setShowCheckedOut(!showCheckedOut)}>
+            {showCheckedOut ? t("evacuees.hideCheckedOut") : t("evacuees.showCheckedOut")}
+          </Button>
+        </div>
+
+        {queuedEvacuees.length > 0 && (
+          <div className="space-y-3">
+            {queuedEvacuees.map((evacuee) => (
+              <div key={evacuee.id} className="flex items-center justify-between p-4 border border-dashed rounded-lg">
+                <div className="flex-1">
+                  <div className="font-medium">{evacuee.full_name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {[evacuee.family_group, evacuee.home_village].filter(Boolean).join(" · ")}
+                  </div>
+                </div>
+                <Badge variant="outline">{t("offline.waitingToSync")}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {filteredEvacuees.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">{t("evacuees.none")}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredEvacuees.map((evacuee) => (
+              <div key={evacuee.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex-1">
+                  <div className="font-medium">{evacuee.full_name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {[
+                      evacuee.age !== null ? t("common.years", { count: evacuee.age }) : null,
+                      evacuee.gender && label("gender", evacuee.gender),
+                      evacuee.family_group,
+                      evacuee.home_village,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </div>
+                  {evacuee.special_needs && (
+                    <div className="text-sm text-warning mt-1">{evacuee.special_needs}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {evacuee.status === "checked_in" ? (
+                    <>
+                      <Badge variant="outline" className="bg-success/10 text-success">
+                        {t("evacuees.inCamp")}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatusChange(evacuee, "checked_out")}
+                      >
+                        <LogOut className="w-4 h-4 mr-2" />
+                        {t("evacuees.checkOut")}
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Badge variant="secondary">{t("evacuees.checkedOut")}</Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStatusChange(evacuee, "checked_in")}
+                      >
+                        <LogIn className="w-4 h-4 mr-2" />
+                        {t("evacuees.checkIn")}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EvacueeRegistry;
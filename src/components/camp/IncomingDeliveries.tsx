@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Truck, PackageCheck, Phone, MessageSquare } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLiveRefresh } from "@/hooks/use-live-refresh";
+import { useOutbox, useOutboxSynced } from "@/hooks/use-outbox";
+import { useCampDeliveries, useConfirmReceipt, useDecidePledgeSurplus, type CampDelivery } from "@/hooks/use-pledges";
+import type { MessageKey } from "@/i18n/messages/en";
+import { OUTSTANDING_DELIVERY_STATUSES } from "@/lib/assistance";
+import { queryKeys } from "@/lib/queryKeys";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface IncomingDeliveriesProps {
+  campId: string;
+}
+
+const surplusLabels: Record<string, MessageKey> = {
+  pending: "deliveries.surplusPending",
+  accepted: "deliveries.surplusAccepted",
+  declined: "deliveries.surplusDeclined",
+};
+
+const IncomingDeliveries = ({ campId }: IncomingDeliveriesProps) => {
+  const { t, label } = useI18n();
+  const queryClient = useQueryClient();
+  const deliveriesQuery = useCampDeliveries(campId);
+  const confirmReceipt = useConfirmReceipt(campId);
+  const decideSurplus = useDecidePledgeSurplus(campId);
+  const deliveries = deliveriesQuery.data ?? [];
+  const [selectedDelivery, setSelectedDelivery] = useState<CampDelivery | null>(null);
+  const { pending: queuedChanges } = useOutbox();
+
+  useLiveRefresh(
+    `camp-deliveries:${campId}`,
+    [
+      { table: "ngo_assistance", filter: `camp_id=eq.${campId}` },
+      // Notes carry no camp id; row-level security limits them to this camp's deliveries
+      { table: "assistance_tracking_notes" },
+    ],
+    [queryKeys.pledges.forCamp(campId)]
+  );
+
+  useOutboxSynced(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.pledges.forCamp(campId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.needs.all });
+  });
+
+  useEffect(() => {
+    if (deliveriesQuery.error) console.error("Error fetching deliveries:", deliveriesQuery.error);
+  }, [deliveriesQuery.error]);
+
+  // Receipts confirmed while offline, by assistance id
+  const queuedReceipts = new Set(
+    queuedChanges.flatMap((entry) =>
+      entry.mutation.kind === "confirm_delivery" ? [entry.mutation.payload.assistanceId] : []
+    )
+  );
+
+  const handleConfirmReceipt = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedDelivery) return;
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const result = await confirmReceipt.mutateAsync({
+        assistanceId: selectedDelivery.id,
+        quantityReceived: parseInt(formData.get("quantityReceived") as string),
+        notes: formData.get("receiptNotes") as string,
+      });
+
+      setSelectedDelivery(null);
+      if (result === "queued") {
+        toast.success(t("offline.savedOffline"));
+      } else {
+        toast.success(t("deliveries.confirmed"));
+      }
+    } catch (error) {
+      toast.error(errorMessage(error, t("deliveries.confirmFailed")));
+    }
+  };
+
+  const handleSurplusDecision = async (delivery: CampDelivery, accept: boolean) => {
+    try {
+      await decideSurplus.mutateAsync({ assistanceId: delivery.id, accept });
+      toast.success(t(accept ? "deliveries.surplusAcceptedToast" : "deliveries.surplusDeclinedToast"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("deliveries.surplusDecisionFailed")));
+    }
+  };
+
+  const pending = deliveries.filter((delivery) => OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status));
+  const received = deliveries.filter((delivery) => delivery.delivery_status === "delivered");
+  const cancelled = deliveries.filter((delivery) => delivery.delivery_status === "cancelled");
+
+  const renderDelivery = (delivery: CampDelivery) => (
+    <div key={delivery.id} className="flex items-center justify-between p-4 border rounded-lg">
+      <div className="flex-1 space-y-1">
+        <div className="font-medium">
+          {delivery.items_provided} × {delivery.quantity}
+        </div>
+        <div className="text-sm text-muted-foreground">{t("deliveries.from", { name: delivery.profiles?.full_name })}</div>
+        {delivery.surplus_quantity > 0 && (
+          <div className="text-sm text-muted-foreground">
+            {t(surplusLabels[delivery.surplus_status || "pending"], { count: delivery.surplus_quantity })}
+          </div>
+        )}
+        {delivery.surplus_status === "pending" && OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status) && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={decideSurplus.isPending}
+              onClick={() => handleSurplusDecision(delivery, true)}
+            >
+              {t("deliveries.acceptSurplus")}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={decideSurplus.isPending}
+              onClick={() => handleSurplusDecision(delivery, false)}
+            >
+              {t("deliveries.declineSurplus")}
+            </Button>
+          </div>
+        )}
+        {delivery.delivery_status === "in_transit" && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Truck className="w-4 h-4" />
+            {[delivery.vehicle_number, delivery.driver_name].filter(Boolean).join(" · ")}
+            {delivery.driver_phone && (
+              <>
+                <Phone className="w-4 h-4 ml-2" />
+                {delivery.driver_phone}
+              </>
+            )}
+          </div>
+        )}
+        {delivery.delivery_status === "delivered" && (
+          <div className="text-sm text-muted-foreground">
+            {delivery.quantity_received !== delivery.quantity
+              ? t("deliveries.receivedOfPledged", { count: delivery.quantity_received, pledged: delivery.quantity })
+              : t("deliveries.receivedCount", { count: delivery.quantity_received })}
+          </div>
+        )}
+        {OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status) &&
+          delivery.assistance_tracking_notes.length > 0 && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <MessageSquare className="w-4 h-4" />
+              {delivery.assistance_tracking_notes[delivery.assistance_tracking_notes.length - 1].note}
+            </div>
+          )}
+        {delivery.delivery_status === "cancelled" && delivery.cancellation_reason && (
+          <div className="text-sm text-muted-foreground">{delivery.cancellation_reason}</div>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <Badge variant={delivery.delivery_status === "delivered" ? "default" : "secondary"}>
+          {delivery.delivery_status === "delivered"
+            ? t("deliveries.received")
+            : label("deliveryStatus", delivery.delivery_status || "pledged")}
+        </Badge>
+        {queuedReceipts.has(delivery.id) ? (
+          <Badge variant="outline">{t("deliveries.receiptWaiting")}</Badge>
+        ) : OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status) && (
+          <Button size="sm" onClick={() => setSelectedDelivery(delivery)}>
+            <PackageCheck className="w-4 h-4 mr-2" />
+            {t("deliveries.confirmReceipt")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("camp.deliveries")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {deliveries.length === 0 ? (
+          <div className="text-center py-8">
+            <Truck className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">{t("deliveries.none")}</p>
+          </div>
+        ) : (
+          <>
+            {pending.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-muted-foreground">{t("deliveries.expected")}</h3>
+                {pending.map(renderDelivery)}
+              </div>
+            )}
+            {received.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-muted-foreground">{t("deliveries.received")}</h3>
+                {received.map(renderDelivery)}
+              </div>
+            )}
+            {cancelled.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-muted-foreground">{t("deliveries.cancelledByNgo")}</h3>
+                {cancelled.map(renderDelivery)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("deliveries.confirmReceipt")}</DialogTitle>
+          </DialogHeader>
+          {selectedDelivery && (
+            <form onSubmit={handleConfirmReceipt} className="space-y-4">
+              <div>
+                <Label>{t("common.item")}</Label>
+                <Input value={selectedDelivery.items_provided} disabled />
+              </div>
+              <div>
+                <Label htmlFor="quantityReceived">{t("deliveries.quantityReceived")}</Label>
+                <Input
+                  id="quantityReceived"
+                  name="quantityReceived"
+                  type="number"
+                  min={0}
+                  defaultValue={selectedDelivery.quantity}
+                  required
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t("deliveries.pledgedHint", { count: selectedDelivery.quantity })}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="receiptNotes">{t("deliveries.notes")}</Label>
+                <Input id="receiptNotes" name="receiptNotes" placeholder={t("deliveries.notesPlaceholder")} />
+              </div>
+              <Button type="submit" className="w-full">
+                {t("deliveries.confirmReceipt")}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default IncomingDeliveries;
@@ -0,0 +1,537 @@
+import { useCallback, useEffect, useState } from "react";
+import { differenceInCalendarDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import CatalogueItemPicker, { type CatalogueSelection } from "@/components/catalogue/CatalogueItemPicker";
+import { ManualMovementType, StockBatch, nextExpiry, recordStockMovement, stockOnHand } from "@/lib/inventory";
+import { useI18n } from "@/hooks/use-i18n";
+import { ArrowDownToLine, ArrowUpFromLine, Boxes, History, Plus, Settings2 } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface InventoryItem {
+  id: string;
+  name: string;
+  unit: string;
+  low_stock_threshold: number | null;
+  reorder_quantity: number | null;
+  inventory_batches: StockBatch[];
+}
+
+interface Movement {
+  id: string;
+  movement_type: string;
+  quantity: number;
+  balance_after: number;
+  notes: string | null;
+  created_at: string | null;
+  inventory_batches: {
+    batch_number: string | null;
+    expiry_date: string | null;
+  } | null;
+  evacuees: {
+    full_name: string;
+  } | null;
+}
+
+interface EvacueeOption {
+  id: string;
+  full_name: string;
+  family_group: string | null;
+}
+
+type MovementDirection = "in" | "out";
+
+interface InventoryLedgerProps {
+  campId: string;
+  canManage: boolean;
+  onNeedsChange: () => void;
+}
+
+const EXPIRY_WARNING_DAYS = 7;
+
+const InventoryLedger = ({ campId, canManage, onNeedsChange }: InventoryLedgerProps) => {
+  const { t, label, formatNumber, formatDate } = useI18n();
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [evacuees, setEvacuees] = useState<EvacueeOption[]>([]);
+  const [showItemDialog, setShowItemDialog] = useState(false);
+  const [newItem, setNewItem] = useState<CatalogueSelection | null>(null);
+  const [movementTarget, setMovementTarget] = useState<{ item: InventoryItem; direction: MovementDirection } | null>(null);
+  const [outboundType, setOutboundType] = useState<ManualMovementType>("distribution");
+  const [settingsItem, setSettingsItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [movements, setMovements] = useState<Movement[]>([]);
+
+  const fetchItems = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select(`
+        *,
+        inventory_batches (
+          id,
+          batch_number,
+          expiry_date,
+          quantity_on_hand
+        )
+      `)
+      .eq("camp_id", campId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching inventory:", error);
+      toast.error(t("inventory.loadFailed"));
+    } else {
+      setItems(data || []);
+    }
+  }, [campId, t]);
+
+  const fetchEvacuees = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("evacuees")
+      .select("id, full_name, family_group")
+      .eq("camp_id", campId)
+      .eq("status", "checked_in")
+      .order("full_name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching evacuees:", error);
+    } else {
+      setEvacuees(data || []);
+    }
+  }, [campId]);
+
+  useEffect(() => {
+    fetchItems();
+    if (canManage) fetchEvacuees();
+  }, [canManage, fetchItems, fetchEvacuees]);
+
+  const fetchMovements = async (itemId: string) => {
+    const { data, error } = await supabase
+      .from("inventory_movements")
+      .select(`
+        *,
+        inventory_batches (
+          batch_number,
+          expiry_date
+        ),
+        evacuees (
+          full_name
+        )
+      `)
+      .eq("item_id", itemId)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error("Error fetching stock movements:", error);
+    } else {
+      setMovements(data || []);
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const threshold = formData.get("threshold") as string;
+    const reorderQuantity = formData.get("reorderQuantity") as string;
+    const itemName = formData.get("item") as string;
+
+    if (!itemName) {
+      toast.error(t("camp.chooseItem"));
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("inventory_items").insert({
+        camp_id: campId,
+        name: itemName,
+        catalogue_item_id: (formData.get("catalogueItemId") as string) || null,
+        unit: (formData.get("unit") as string).trim() || "units",
+        low_stock_threshold: threshold ? parseInt(threshold) : null,
+        reorder_quantity: reorderQuantity ? parseInt(reorderQuantity) : null,
+      });
+
+      if (error) throw error;
+
+      await fetchItems();
+      setShowItemDialog(false);
+      toast.success(t("inventory.itemAdded"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("inventory.addFailed")));
+    }
+  };
+
+  const handleUpdateSettings = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!settingsItem) return;
+
+    const formData = new FormData(e.currentTarget);
+    const threshold = formData.get("threshold") as string;
+    const reorderQuantity = formData.get("reorderQuantity") as string;
+
+    try {
+      const { error } = await supabase
+        .from("inventory_items")
+        .update({
+          unit: (formData.get("unit") as string).trim() || "units",
+          low_stock_threshold: threshold ? parseInt(threshold) : null,
+          reorder_quantity: reorderQuantity ? parseInt(reorderQuantity) : null,
+        })
+        .eq("id", settingsItem.id);
+
+      if (error) throw error;
+
+      await fetchItems();
+      onNeedsChange();
+      setSettingsItem(null);
+      toast.success(t("inventory.levelsUpdated"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("inventory.updateFailed")));
+    }
+  };
+
+  const handleRecordMovement = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!movementTarget) return;
+
+    const formData = new FormData(e.currentTarget);
+    const batchId = formData.get("batchId") as string;
+
+    try {
+      await recordStockMovement({
+        itemId: movementTarget.item.id,
+        movementType: movementTarget.direction === "in" ? "stock_in" : outboundType,
+        quantity: parseInt(formData.get("quantity") as string),
+        batchId: batchId && batchId !== "auto" ? batchId : undefined,
+        batchNumber: formData.get("batchNumber") as string,
+        expiryDate: formData.get("expiryDate") as string,
+        evacueeId: formData.get("evacueeId") as string,
+        notes: formData.get("notes") as string,
+      });
+
+      await fetchItems();
+      onNeedsChange();
+      setMovementTarget(null);
+      toast.success(t("inventory.stockUpdated"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("inventory.movementFailed")));
+    }
+  };
+
+  const openHistory = (item: InventoryItem) => {
+    setMovements([]);
+    setHistoryItem(item);
+    fetchMovements(item.id);
+  };
+
+  const openMovement = (item: InventoryItem, direction: MovementDirection) => {
+    setOutboundType("distribution");
+    setMovementTarget({ item, direction });
+  };
+
+  const renderStockLevelFields = (item?: InventoryItem) => (
+    <>
+      <div>
+        <Label htmlFor="unit">{t("inventory.unit")}</Label>
+        <Input
+          key={newItem?.item?.id}
+          id="unit"
+          name="unit"
+          placeholder={t("inventory.unitPlaceholder")}
+          defaultValue={item?.unit ?? newItem?.item?.unit ?? ""}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="threshold">{t("inventory.threshold")}</Label>
+          <Input
+            id="threshold"
+            name="threshold"
+            type="number"
+            min={0}
+            defaultValue={item?.low_stock_threshold ?? ""}
+          />
+        </div>
+        <div>
+          <Label htmlFor="reorderQuantity">{t("inventory.restockTo")}</Label>
+          <Input
+            id="reorderQuantity"
+            name="reorderQuantity"
+            type="number"
+            min={1}
+            defaultValue={item?.reorder_quantity ?? ""}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("inventory.thresholdHint")}
+      </p>
+    </>
+  );
+
+  const activeBatches = movementTarget?.item.inventory_batches.filter((batch) => batch.quantity_on_hand > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>{t("camp.inventory")}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t("inventory.subtitle")}
+            </p>
+          </div>
+          {canManage && (
+            <Dialog
+              open={showItemDialog}
+              onOpenChange={(open) => {
+                setShowItemDialog(open);
+                if (open) setNewItem(null);
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="w-4 h-4 mr-2" />
+                  {t("inventory.addItem")}
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t("inventory.addItemTitle")}</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleAddItem} className="space-y-4">
+                  <div>
+                    <Label htmlFor="item">{t("common.item")}</Label>
+                    <CatalogueItemPicker id="item" value={newItem} onChange={setNewItem} />
+                  </div>
+                  {renderStockLevelFields()}
+                  <Button type="submit" className="w-full">{t("inventory.addItem")}</Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <div className="text-center py-8">
+            <Boxes className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">{t("inventory.none")}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => {
+              const onHand = stockOnHand(item.inventory_batches);
+              const expiry = nextExpiry(item.inventory_batches);
+              const daysToExpiry = expiry ? differenceInCalendarDays(new Date(expiry), new Date()) : null;
+              const isLow = item.low_stock_threshold !== null && onHand <= item.low_stock_threshold;
+
+              return (
+                <div key={item.id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.name}</span>
+                      {isLow && <Badge variant="destructive">{t("inventory.lowStock")}</Badge>}
+                      {daysToExpiry !== null && daysToExpiry <= EXPIRY_WARNING_DAYS && (
+                        <Badge variant="outline" className="border-warning text-warning">
+                          {daysToExpiry < 0
+                            ? t("inventory.expired")
+                            : t("inventory.expires", { date: formatDate(expiry, { day: "numeric", month: "short" }) })}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {t("inventory.onHand", { count: onHand, unit: item.unit })}
+                      {item.low_stock_threshold !== null &&
+                        ` · ${t("inventory.thresholdValue", { count: item.low_stock_threshold })}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => openHistory(item)}>
+                      <History className="w-4 h-4" />
+                    </Button>
+                    {canManage && (
+                      <>
+                        <Button size="sm" variant="ghost" onClick={() => setSettingsItem(item)}>
+                          <Settings2 className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openMovement(item, "in")}>
+                          <ArrowDownToLine className="w-4 h-4 mr-2" />
+                          {t("inventory.stockIn")}
+                        </Button>
+                        <Button size="sm" disabled={onHand === 0} onClick={() => openMovement(item, "out")}>
+                          <ArrowUpFromLine className="w-4 h-4 mr-2" />
+                          {t("inventory.issue")}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!movementTarget} onOpenChange={(open) => !open && setMovementTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {movementTarget?.direction === "in"
+                ? t("inventory.stockInTitle", { item: movementTarget?.item.name })
+                : t("inventory.issueTitle", { item: movementTarget?.item.name })}
+            </DialogTitle>
+          </DialogHeader>
+          {movementTarget && (
+            <form onSubmit={handleRecordMovement} className="space-y-4">
+              {movementTarget.direction === "out" && (
+                <>
+                  <div>
+                    <Label htmlFor="outboundType">{t("inventory.reason")}</Label>
+                    <Select
+                      value={outboundType}
+                      onValueChange={(value) => setOutboundType(value as ManualMovementType)}
+                    >
+                      <SelectTrigger id="outboundType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="distribution">{t("inventory.distributionOption")}</SelectItem>
+                        <SelectItem value="stock_out">{t("inventory.otherOption")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {outboundType === "distribution" && (
+                    <div>
+                      <Label htmlFor="evacueeId">{t("inventory.evacuee")}</Label>
+                      <Select name="evacueeId" required>
+                        <SelectTrigger id="evacueeId">
+                          <SelectValue placeholder={t("inventory.selectEvacuee")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {evacuees.map((evacuee) => (
+                            <SelectItem key={evacuee.id} value={evacuee.id}>
+                              {evacuee.full_name}
+                              {evacuee.family_group && ` (${evacuee.family_group})`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {activeBatches.length > 1 && (
+                    <div>
+                      <Label htmlFor="batchId">{t("inventory.batch")}</Label>
+                      <Select name="batchId" defaultValue="auto">
+                        <SelectTrigger id="batchId">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">{t("inventory.earliestExpiry")}</SelectItem>
+                          {activeBatches.map((batch) => (
+                            <SelectItem key={batch.id} value={batch.id}>
+                              {batch.batch_number || t("inventory.unbatched")}
+                              {batch.expiry_date &&
+                                ` · ${t("inventory.batchExpiry", { date: formatDate(batch.expiry_date) })}`}
+                              {` · ${t("inventory.batchLeft", { count: batch.quantity_on_hand })}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </>
+              )}
+              <div>
+                <Label htmlFor="quantity">{t("inventory.quantity", { unit: movementTarget.item.unit })}</Label>
+                <Input
+                  id="quantity"
+                  name="quantity"
+                  type="number"
+                  min={1}
+                  max={movementTarget.direction === "out" ? stockOnHand(movementTarget.item.inventory_batches) : undefined}
+                  required
+                />
+              </div>
+              {movementTarget.direction === "in" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="batchNumber">{t("inventory.batchNumber")}</Label>
+                    <Input id="batchNumber" name="batchNumber" />
+                  </div>
+                  <div>
+                    <Label htmlFor="expiryDate">{t("inventory.expiryDate")}</Label>
+                    <Input id="expiryDate" name="expiryDate" type="date" />
+                  </div>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="notes">{t("inventory.notes")}</Label>
+                <Input id="notes" name="notes" />
+              </div>
+              <Button type="submit" className="w-full">{t("common.save")}</Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!settingsItem} onOpenChange={(open) => !open && setSettingsItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("inventory.levelsTitle", { item: settingsItem?.name })}</DialogTitle>
+          </DialogHeader>
+          {settingsItem && (
+            <form onSubmit={handleUpdateSettings} className="space-y-4">
+              {renderStockLevelFields(settingsItem)}
+              <Button type="submit" className="w-full">{t("common.save")}</Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t("inventory.ledgerTitle", { item: historyItem?.name })}</DialogTitle>
+          </DialogHeader>
+          {movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">{t("inventory.noMovements")}</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto divide-y">
+              {movements.map((movement) => (
+                <div key={movement.id} className="flex items-start justify-between gap-4 py-3 text-sm">
+                  <div className="flex-1">
+                    <div className="font-medium">
+                      {label("movementType", movement.movement_type)}
+                      {movement.evacuees && ` · ${movement.evacuees.full_name}`}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {movement.created_at && formatDate(movement.created_at, { dateStyle: "medium", timeStyle: "short" })}
+                      {movement.inventory_batches?.batch_number &&
+                        ` · ${t("inventory.batchRef", { batch: movement.inventory_batches.batch_number })}`}
+                    </div>
+                    {movement.notes && <div className="text-muted-foreground">{movement.notes}</div>}
+                  </div>
+                  <div className="text-right">
+                    <div className={movement.quantity > 0 ? "font-medium text-success" : "font-medium"}>
+                      {movement.quantity > 0 ? `+${formatNumber(movement.quantity)}` : formatNumber(movement.quantity)}
+                    </div>
+                    <div className="text-muted-foreground">{t("inventory.balance", { count: movement.balance_after })}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default InventoryLedger;
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSplitNeed, useUpdateNeed, type CampNeed } from "@/hooks/use-camp-needs";
+import { Constants, type Enums } from "@/integrations/supabase/types";
+import { Check, Pencil, Split, X } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+const URGENCIES = Constants.public.Enums.need_urgency;
+
+interface NeedActionsProps {
+  need: CampNeed;
+}
+
+// Inline editing of quantity and urgency, plus splitting into tranches and
+// cancelling, for an open need on the camp dashboard
+const NeedActions = ({ need }: NeedActionsProps) => {
+  const { t, label, formatNumber } = useI18n();
+  const updateNeed = useUpdateNeed();
+  const splitNeed = useSplitNeed();
+  const [editing, setEditing] = useState(false);
+  const [dialog, setDialog] = useState<"split" | "cancel" | null>(null);
+  const [tranches, setTranches] = useState(3);
+
+  // Received and outstanding pledges stay with the first tranche; only the rest is split
+  const committed = (need.quantity_fulfilled ?? 0) + (need.quantity_pledged ?? 0);
+  const unpledged = Math.max((need.quantity_needed ?? 0) - committed, 0);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      await updateNeed.mutateAsync({
+        needId: need.id,
+        changes: {
+          quantity_needed: parseInt(formData.get("quantity") as string),
+          urgency: formData.get("urgency") as Enums<"need_urgency">,
+        },
+      });
+
+      setEditing(false);
+      toast.success(t("needActions.saved"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("needActions.saveFailed")));
+    }
+  };
+
+  const handleSplit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const parts = await splitNeed.mutateAsync({
+        needId: need.id,
+        tranches: parseInt(formData.get("tranches") as string),
+        intervalHours: parseInt(formData.get("intervalHours") as string),
+      });
+
+      setDialog(null);
+      toast.success(t("needActions.splitDone", { count: formatNumber(parts.length) }));
+    } catch (error) {
+      toast.error(errorMessage(error, t("needActions.splitFailed")));
+    }
+  };
+
+  const handleCancel = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      await updateNeed.mutateAsync({
+        needId: need.id,
+        changes: { status: "cancelled", closed_reason: (formData.get("reason") as string).trim() },
+      });
+
+      setDialog(null);
+      toast.success(t("needActions.cancelled"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("needActions.cancelFailed")));
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="flex items-center gap-2">
+        <Input
+          name="quantity"
+          type="number"
+          min={Math.max(committed, 1)}
+          defaultValue={need.quantity_needed ?? undefined}
+          aria-label={t("camp.quantityNeeded")}
+          className="w-24"
+          required
+        />
+        <Select name="urgency" defaultValue={need.urgency ?? "medium"}>
+          <SelectTrigger className="w-32" aria-label={t("camp.urgencyLevel")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {URGENCIES.map((urgency) => (
+              <SelectItem key={urgency} value={urgency}>{label("urgency", urgency)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" size="icon" disabled={updateNeed.isPending} aria-label={t("needActions.save")}>
+          <Check className="w-4 h-4" />
+        </Button>
+        <Button type="button" size="icon" variant="ghost" onClick={() => setEditing(false)} aria-label={t("needActions.discard")}>
+          <X className="w-4 h-4" />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button size="icon" variant="ghost" onClick={() => setEditing(true)} aria-label={t("needActions.edit")}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        disabled={unpledged < 2}
+        onClick={() => setDialog("split")}
+        aria-label={t("needActions.splitNeed")}
+      >
+        <Split className="w-4 h-4" />
+      </Button>
+      <Button size="icon" variant="ghost" onClick={() => setDialog("cancel")} aria-label={t("needActions.cancelNeed")}>
+        <X className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={dialog === "split"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("needActions.splitTitle", { item: need.item_name ?? "" })}</DialogTitle>
+            <DialogDescription>
+              {t("needActions.splitBody", { count: formatNumber(unpledged) })}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSplit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor={`tranches-${need.id}`}>{t("needActions.tranches")}</Label>
+                <Input
+                  id={`tranches-${need.id}`}
+                  name="tranches"
+                  type="number"
+                  min={2}
+                  max={unpledged}
+                  value={tranches}
+                  onChange={(e) => setTranches(parseInt(e.target.value) || 0)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor={`interval-${need.id}`}>{t("needActions.intervalHours")}</Label>
+                <Input id={`interval-${need.id}`} name="intervalHours" type="number" min={1} defaultValue={24} required />
+              </div>
+            </div>
+            {tranches >= 2 && tranches <= unpledged && (
+              <p className="text-sm text-muted-foreground">
+                {t("needActions.perTranche", { count: formatNumber(Math.floor(unpledged / tranches)) })}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={splitNeed.isPending}>
+              {t("needActions.splitNeed")}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "cancel"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("needActions.cancelTitle", { item: need.item_name ?? "" })}</DialogTitle>
+            <DialogDescription>
+              {need.quantity_pledged > 0
+                ? t("needActions.cancelBodyPledged", { count: formatNumber(need.quantity_pledged) })
+                : t("needActions.cancelBody")}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCancel} className="space-y-4">
+            <div>
+              <Label htmlFor={`cancel-reason-${need.id}`}>{t("needActions.reason")}</Label>
+              <Textarea
+                id={`cancel-reason-${need.id}`}
+                name="reason"
+                placeholder={t("needActions.reasonPlaceholder")}
+                required
+              />
+            </div>
+            <Button type="submit" variant="destructive" className="w-full" disabled={updateNeed.isPending}>
+              {t("needActions.cancelNeed")}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default NeedActions;
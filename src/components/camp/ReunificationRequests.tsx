@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Check, X, Phone, HeartHandshake } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { toast } from "sonner";
+
+interface Match {
+  id: string;
+  status: string;
+  score: number;
+  created_at: string | null;
+  evacuees: {
+    full_name: string;
+    age: number | null;
+    family_group: string | null;
+    home_village: string | null;
+  };
+  missing_person_reports: {
+    full_name: string;
+    age: number | null;
+    home_village: string | null;
+    description: string | null;
+    contact_phone: string;
+  };
+}
+
+interface ReunificationRequestsProps {
+  campId: string;
+}
+
+const ReunificationRequests = ({ campId }: ReunificationRequestsProps) => {
+  const { t, label } = useI18n();
+  const [matches, setMatches] = useState<Match[]>([]);
+
+  const fetchMatches = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("reunification_matches")
+      .select(`
+        *,
+        evacuees (
+          full_name,
+          age,
+          family_group,
+          home_village
+        ),
+        missing_person_reports (
+          full_name,
+          age,
+          home_village,
+          description,
+          contact_phone
+        )
+      `)
+      .eq("camp_id", campId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching reunification matches:", error);
+    } else {
+      setMatches(data || []);
+    }
+  }, [campId]);
+
+  useEffect(() => {
+    fetchMatches();
+  }, [fetchMatches]);
+
+  const handleReview = async (matchId: string, status: "approved" | "rejected") => {
+    try {
+      const { error } = await supabase
+        .from("reunification_matches")
+        .update({ status })
+        .eq("id", matchId);
+
+      if (error) throw error;
+
+      await fetchMatches();
+      toast.success(status === "approved" ? t("reunification.confirmed") : t("reunification.dismissed"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("reunification.reviewFailed")));
+    }
+  };
+
+  const describe = (age: number | null, village: string | null) =>
+    [age !== null ? t("common.years", { count: age }) : null, village].filter(Boolean).join(" · ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("reunification.title")}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {t("reunification.subtitle")}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {matches.length === 0 ? (
+          <div className="text-center py-8">
+            <HeartHandshake className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">{t("reunification.none")}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {matches.map((match) => (
+              <div key={match.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex justify-between items-start">
+                  <div className="grid sm:grid-cols-2 gap-4 flex-1">
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t("reunification.lookingFor")}</div>
+                      <div className="font-medium">{match.missing_person_reports.full_name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {describe(match.missing_person_reports.age, match.missing_person_reports.home_village)}
+                      </div>
+                      {match.missing_person_reports.description && (
+                        <div className="text-sm mt-1">{match.missing_person_reports.description}</div>
+                      )}
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">{t("reunification.registeredHere")}</div>
+                      <div className="font-medium">{match.evacuees.full_name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {describe(match.evacuees.age, match.evacuees.home_village)}
+                      </div>
+                    </div>
+                  </div>
+                  <Badge variant={match.status === "approved" ? "default" : "secondary"}>
+                    {label("matchStatus", match.status)}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Phone className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-muted-foreground">{t("reunification.familyContact")}</span>
+                    <span className="font-medium">{match.missing_person_reports.contact_phone}</span>
+                  </div>
+                  {match.status === "pending" && (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleReview(match.id, "rejected")}>
+                        <X className="w-4 h-4 mr-2" />
+                        {t("reunification.notMatch")}
+                      </Button>
+                      <Button size="sm" onClick={() => handleReview(match.id, "approved")}>
+                        <Check className="w-4 h-4 mr-2" />
+                        {t("reunification.confirm")}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReunificationRequests;
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { CATALOGUE_CATEGORIES, CatalogueItem, fetchCatalogue } from "@/lib/catalogue";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { Check, ChevronsUpDown, Plus } from "lucide-react";
+
+export interface CatalogueSelection {
+  // null when the user typed an item that is not in the catalogue
+  item: CatalogueItem | null;
+  name: string;
+}
+
+interface CatalogueItemPickerProps {
+  id?: string;
+  value: CatalogueSelection | null;
+  onChange: (selection: CatalogueSelection) => void;
+  // Restrict choices to one category, e.g. substitutes for a requested item
+  category?: string | null;
+  allowCustom?: boolean;
+}
+
+// Searchable by English name, Malayalam name and common aliases. Renders
+// hidden `item` and `catalogueItemId` inputs so forms can read it with FormData.
+const CatalogueItemPicker = ({ id, value, onChange, category, allowCustom = true }: CatalogueItemPickerProps) => {
+  const { t, label } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [catalogue, setCatalogue] = useState<CatalogueItem[]>([]);
+
+  useEffect(() => {
+    fetchCatalogue()
+      .then(setCatalogue)
+      .catch((error) => console.error("Error fetching item catalogue:", error));
+  }, []);
+
+  const items = category ? catalogue.filter((item) => item.category === category) : catalogue;
+
+  const select = (selection: CatalogueSelection) => {
+    onChange(selection);
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+          >
+            {value ? (
+              <span className="truncate">
+                {value.name}
+                {value.item?.name_ml && <span className="text-muted-foreground"> · {value.item.name_ml}</span>}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">{t("catalogue.search")}</span>
+            )}
+            <ChevronsUpDown className="w-4 h-4 ml-2 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={t("catalogue.searchPlaceholder")} value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>
+                {allowCustom && search.trim() ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full justify-start"
+                    onClick={() => select({ item: null, name: search.trim() })}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    {t("catalogue.useCustom", { name: search.trim() })}
+                  </Button>
+                ) : (
+                  t("catalogue.noMatches")
+                )}
+              </CommandEmpty>
+              {CATALOGUE_CATEGORIES.map((itemCategory) => {
+                const categoryItems = items.filter((item) => item.category === itemCategory);
+                if (categoryItems.length === 0) return null;
+
+                return (
+                  <CommandGroup key={itemCategory} heading={label("catalogueCategory", itemCategory)}>
+                    {categoryItems.map((item) => (
+                      <CommandItem
+                        key={item.id}
+                        value={item.name}
+                        keywords={[item.name_ml, ...item.aliases].filter(Boolean)}
+                        onSelect={() => select({ item, name: item.name })}
+                      >
+                        <Check
+                          className={cn("w-4 h-4 mr-2", value?.item?.id === item.id ? "opacity-100" : "opacity-0")}
+                        />
+                        <div className="flex-1">
+                          <div>
+                            {item.name}
+                            {item.name_ml && <span className="text-muted-foreground"> · {item.name_ml}</span>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {item.pack_size
+                              ? t("catalogue.packSize", { size: item.pack_size, unit: item.unit })
+                              : t("catalogue.perUnit", { unit: item.unit })}
+                          </div>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <input type="hidden" name="item" value={value?.name ?? ""} />
+      <input type="hidden" name="catalogueItemId" value={value?.item?.id ?? ""} />
+    </>
+  );
+};
+
+export default CatalogueItemPicker;
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CatalogueManager from "@/components/admin/CatalogueManager";
+import EscalationRules from "@/components/admin/EscalationRules";
+import RoleRequestQueue from "@/components/auth/RoleRequestQueue";
+import { useSignOut } from "@/hooks/use-session";
+import { getVerificationDocumentUrl } from "@/lib/verification";
+import { errorMessage } from "@/lib/utils";
+import { LogOut, Check, X, FileText, MapPin, Phone, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+
+interface PendingCamp {
+  id: string;
+  name: string;
+  location: string;
+  contact_phone: string;
+  total_capacity: number;
+  registration_number: string | null;
+  document_path: string | null;
+  created_at: string | null;
+  profiles: {
+    full_name: string;
+    phone: string | null;
+  };
+}
+
+interface PendingNGO {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  organization_name: string | null;
+  registration_number: string | null;
+  document_path: string | null;
+}
+
+type ReviewDecision = "verified" | "rejected";
+
+const AdminDashboard = () => {
+  const navigate = useNavigate();
+  const { tab = "camps" } = useParams();
+  const signOut = useSignOut();
+  const [camps, setCamps] = useState<PendingCamp[]>([]);
+  const [ngos, setNgos] = useState<PendingNGO[]>([]);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      const [campsResult, ngosResult] = await Promise.all([
+        supabase
+          .from("camps")
+          .select(`
+            *,
+            profiles!camps_camp_admin_id_fkey (
+              full_name,
+              phone
+            )
+          `)
+          .eq("verification_status", "pending")
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("profiles")
+          .select("*")
+          .eq("role", "ngo")
+          .eq("verification_status", "pending")
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (campsResult.error) throw campsResult.error;
+      if (ngosResult.error) throw ngosResult.error;
+
+      setCamps(campsResult.data || []);
+      setNgos(ngosResult.data || []);
+    } catch (error) {
+      console.error("Error fetching verification queue:", error);
+      toast.error("Failed to load verification queue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (table: "camps" | "profiles", id: string, decision: ReviewDecision) => {
+    try {
+      const { error } = await supabase
+        .from(table)
+        .update({
+          verification_status: decision,
+          verification_notes: reviewNotes[id] || null,
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+
+      await fetchQueue();
+      toast.success(decision === "verified" ? "Approved" : "Rejected");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to save review"));
+    }
+  };
+
+  const handleViewDocument = async (path: string) => {
+    try {
+      window.open(await getVerificationDocumentUrl(path), "_blank", "noopener");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to open document"));
+    }
+  };
+
+  const renderReviewActions = (table: "camps" | "profiles", id: string, documentPath: string | null) => (
+    <div className="space-y-3">
+      {documentPath ? (
+        <Button variant="outline" size="sm" onClick={() => handleViewDocument(documentPath)}>
+          <FileText className="w-4 h-4 mr-2" />
+          View Document
+        </Button>
+      ) : (
+        <p className="text-sm text-muted-foreground">No document uploaded</p>
+      )}
+      <Input
+        placeholder="Review notes (shown to the applicant)"
+        value={reviewNotes[id] || ""}
+        onChange={(e) => setReviewNotes({ ...reviewNotes, [id]: e.target.value })}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => handleReview(table, id, "rejected")}>
+          <X className="w-4 h-4 mr-2" />
+          Reject
+        </Button>
+        <Button className="flex-1" onClick={() => handleReview(table, id, "verified")}>
+          <Check className="w-4 h-4 mr-2" />
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Verification Queue</h1>
+          <p className="text-muted-foreground">Approve camps and NGOs before they go live</p>
+        </div>
+        <Button variant="outline" onClick={signOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out
+        </Button>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => navigate(`/admin/${value}`)} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="camps">
+            Camps
+            {camps.length > 0 && <Badge variant="secondary" className="ml-2">{camps.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="ngos">
+            NGOs
+            {ngos.length > 0 && <Badge variant="secondary" className="ml-2">{ngos.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="access">Access Requests</TabsTrigger>
+          <TabsTrigger value="catalogue">Item Catalogue</TabsTrigger>
+          <TabsTrigger value="escalation">Need Escalation</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="camps">
+          {camps.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <ShieldCheck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground">No camps waiting for verification</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              {camps.map((camp) => (
+                <Card key={camp.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{camp.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Registered by {camp.profiles.full_name}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm">
+                      <MapPin className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">{camp.location}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Phone className="w-4 h-4 text-muted-foreground" />
+                      <span>{camp.contact_phone}</span>
+                    </div>
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Registration: </span>
+                      <span className="font-medium">{camp.registration_number || "Not provided"}</span>
+                    </div>
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Capacity: </span>
+                      <span className="font-medium">{camp.total_capacity}</span>
+                    </div>
+                    {renderReviewActions("camps", camp.id, camp.document_path)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="ngos">
+          {ngos.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <ShieldCheck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground">No NGOs waiting for verification</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              {ngos.map((ngo) => (
+                <Card key={ngo.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{ngo.organization_name || ngo.full_name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">Contact: {ngo.full_name}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {ngo.phone && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Phone className="w-4 h-4 text-muted-foreground" />
+                        <span>{ngo.phone}</span>
+                      </div>
+                    )}
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Registration: </span>
+                      <span className="font-medium">{ngo.registration_number || "Not provided"}</span>
+                    </div>
+                    {renderReviewActions("profiles", ngo.id, ngo.document_path)}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="access">
+          <RoleRequestQueue showEmpty />
+        </TabsContent>
+
+        <TabsContent value="catalogue">
+          <CatalogueManager />
+        </TabsContent>
+
+        <TabsContent value="escalation">
+          <EscalationRules />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default AdminDashboard;
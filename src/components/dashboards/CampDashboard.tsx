@@ -1,4 +1,6 @@
 import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,111 +8,163 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Badge } from "@/components/ui/badge";
-import { LogOut, Plus, AlertCircle, Package, Users } from "lucide-react";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import EvacueeRegistry from "@/components/camp/EvacueeRegistry";
+import ReunificationRequests from "@/components/camp/ReunificationRequests";
+import IncomingDeliveries from "@/components/camp/IncomingDeliveries";
+import InventoryLedger from "@/components/camp/InventoryLedger";
+import CreateCampDialog from "@/components/camp/CreateCampDialog";
+import CampsSummary from "@/components/camp/CampsSummary";
+import CampLifecycleCard from "@/components/camp/CampLifecycleCard";
+import NeedActions from "@/components/camp/NeedActions";
+import CampTeam from "@/components/camp/CampTeam";
+import CampInvitations from "@/components/camp/CampInvitations";
+import RoleRequestQueue from "@/components/auth/RoleRequestQueue";
+import VerificationFields from "@/components/verification/VerificationFields";
+import CatalogueItemPicker, { type CatalogueSelection } from "@/components/catalogue/CatalogueItemPicker";
+import LanguageSwitcher from "@/components/i18n/LanguageSwitcher";
+import LinkPhoneDialog from "@/components/auth/LinkPhoneDialog";
+import LiveIndicator from "@/components/realtime/LiveIndicator";
+import OfflineSyncStatus from "@/components/offline/OfflineSyncStatus";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSignOut } from "@/hooks/use-session";
+import { useLiveRefresh, useNewlyCritical } from "@/hooks/use-live-refresh";
+import { useOutbox, useOutboxSynced } from "@/hooks/use-outbox";
+import { useMyCamps, type MyCamp } from "@/hooks/use-camps";
+import { useAddNeed, useCampNeeds } from "@/hooks/use-camp-needs";
+import { requireUserId } from "@/lib/auth";
+import { queryKeys } from "@/lib/queryKeys";
+import { uploadVerificationDocument } from "@/lib/verification";
+import { canCamp } from "@/lib/campTeam";
+import { isOpenNeed, isUpcomingNeed } from "@/lib/needs";
+import { errorMessage } from "@/lib/utils";
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+import { LogOut, Plus, AlertCircle, Package, Users, ShieldAlert } from "lucide-react";
 import { toast } from "sonner";
 
-interface Camp {
-  id: string;
-  name: string;
-  location: string;
-  total_capacity: number;
-  occupied_seats: number;
-  contact_phone: string;
-}
-
-interface Need {
-  id: string;
-  item_name: string;
-  quantity_needed: number;
-  quantity_fulfilled: number;
-  urgency: string;
-  status: string;
-}
-
-interface CampDashboardProps {
-  onSignOut: () => void;
-}
-
-const CampDashboard = ({ onSignOut }: CampDashboardProps) => {
-  const [camp, setCamp] = useState<Camp | null>(null);
-  const [needs, setNeeds] = useState<Need[]>([]);
-  const [showCampDialog, setShowCampDialog] = useState(false);
+const URGENCIES = Constants.public.Enums.need_urgency;
+
+// Sentinel switcher value for the aggregated view across every managed camp
+const ALL_CAMPS = "all";
+const SELECTED_CAMP_KEY = "camp-dashboard:selected-camp";
+
+const CampDashboard = () => {
+  const navigate = useNavigate();
+  // Deep links look like /camp/<camp id>/<tab>; /camp/all is the summary across camps
+  const { campId: selectedCampId, tab = "needs" } = useParams();
+  const signOut = useSignOut();
+  const { t, label, formatNumber, formatRelative } = useI18n();
+  const queryClient = useQueryClient();
+  const campsQuery = useMyCamps();
+  const camps = campsQuery.data ?? [];
   const [showNeedDialog, setShowNeedDialog] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const [needItem, setNeedItem] = useState<CatalogueSelection | null>(null);
+  const [showResubmitDialog, setShowResubmitDialog] = useState(false);
+  const { pending: queuedChanges } = useOutbox();
+  const addNeed = useAddNeed();
 
-  useEffect(() => {
-    fetchCampData();
-  }, []);
+  const camp = camps.find((c) => c.id === selectedCampId) || null;
 
-  const fetchCampData = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+  const needsQuery = useCampNeeds({ campId: camp?.id }, { enabled: !!camp });
+  const needs = camp ? needsQuery.data ?? [] : [];
 
-      const { data: campData, error: campError } = await supabase
-        .from("camps")
-        .select("*")
-        .eq("camp_admin_id", user.id)
-        .maybeSingle();
+  // Needs added while offline, shown until the outbox has synced them
+  const queuedNeeds = queuedChanges.flatMap((entry) =>
+    entry.mutation.kind === "add_need" && entry.campId === camp?.id ? [entry.mutation.payload] : []
+  );
 
-      if (campError) throw campError;
+  // Without a camp in the URL, restore the last camp worked on; coordinators with several camps land on the summary
+  useEffect(() => {
+    if (!campsQuery.data || selectedCampId || campsQuery.data.length === 0) return;
 
-      if (campData) {
-        setCamp(campData);
-        await fetchNeeds(campData.id);
-      }
-    } catch (error) {
-      console.error("Error fetching camp data:", error);
-      toast.error("Failed to load camp data");
-    } finally {
-      setLoading(false);
+    const storedCampId = localStorage.getItem(SELECTED_CAMP_KEY);
+    if (storedCampId && campsQuery.data.some((c) => c.id === storedCampId)) {
+      navigate(`/camp/${storedCampId}`, { replace: true });
+    } else if (campsQuery.data.length === 1) {
+      navigate(`/camp/${campsQuery.data[0].id}`, { replace: true });
+    } else {
+      navigate(`/camp/${ALL_CAMPS}`, { replace: true });
     }
+  }, [campsQuery.data, selectedCampId, navigate]);
+
+  useEffect(() => {
+    if (!campsQuery.error) return;
+    console.error("Error fetching camp data:", campsQuery.error);
+    toast.error(t("camp.loadFailed"));
+  }, [campsQuery.error, t]);
+
+  // Pledges from NGOs and check-ins by other staff show up without a reload
+  const { live } = useLiveRefresh(
+    camp ? `camp:${camp.id}` : null,
+    camp
+      ? [
+          { table: "camp_needs", filter: `camp_id=eq.${camp.id}` },
+          { table: "camps", filter: `id=eq.${camp.id}` },
+        ]
+      : [],
+    camp ? [queryKeys.needs.list({ campId: camp.id }), queryKeys.camps.mine()] : []
+  );
+  const newlyCritical = useNewlyCritical(needs, camp && needsQuery.isSuccess ? camp.id : null);
+
+  const refreshCamps = () => queryClient.invalidateQueries({ queryKey: queryKeys.camps.mine() });
+  const refreshNeeds = () => queryClient.invalidateQueries({ queryKey: queryKeys.needs.all });
+
+  useOutboxSynced(() => {
+    refreshNeeds();
+    refreshCamps();
+  });
+
+  const selectCamp = (campId: string) => {
+    localStorage.setItem(SELECTED_CAMP_KEY, campId);
+    navigate(`/camp/${campId}`);
   };
 
-  const fetchNeeds = async (campId: string) => {
-    const { data, error } = await supabase
-      .from("camp_needs")
-      .select("*")
-      .eq("camp_id", campId)
-      .order("urgency", { ascending: false });
+  const replaceCamp = (updated: Tables<"camps">) => {
+    queryClient.setQueryData<MyCamp[]>(queryKeys.camps.mine(), (current) =>
+      current?.map((c) => (c.id === updated.id ? { ...c, ...updated } : c))
+    );
+  };
 
-    if (error) {
-      console.error("Error fetching needs:", error);
-    } else {
-      setNeeds(data || []);
-    }
+  // The database adds the creator as owner of every camp they register
+  const handleCampCreated = (created: Tables<"camps">) => {
+    queryClient.setQueryData<MyCamp[]>(queryKeys.camps.mine(), (current) => [
+      ...(current ?? []),
+      { ...created, my_role: "owner" },
+    ]);
+    selectCamp(created.id);
   };
 
-  const handleCreateCamp = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleResubmitVerification = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (!camp) return;
+
     const formData = new FormData(e.currentTarget);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      const userId = await requireUserId();
+
+      const documentFile = formData.get("document") as File | null;
+      const documentPath = documentFile?.size ? await uploadVerificationDocument(userId, documentFile) : undefined;
 
       const { data, error } = await supabase
         .from("camps")
-        .insert({
-          camp_admin_id: user.id,
-          name: formData.get("name") as string,
-          location: formData.get("location") as string,
-          total_capacity: parseInt(formData.get("capacity") as string),
-          occupied_seats: parseInt(formData.get("occupied") as string),
-          contact_phone: formData.get("phone") as string,
-          contact_email: formData.get("email") as string,
+        .update({
+          registration_number: formData.get("registrationNumber") as string,
+          document_path: documentPath,
+          verification_status: "pending",
         })
+        .eq("id", camp.id)
         .select()
         .single();
 
       if (error) throw error;
 
-      setCamp(data);
-      setShowCampDialog(false);
-      toast.success("Camp created successfully!");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to create camp");
+      replaceCamp(data);
+      setShowResubmitDialog(false);
+      toast.success(t("camp.resubmitted"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("camp.resubmitFailed")));
     }
   };
 
@@ -119,26 +173,33 @@ const CampDashboard = ({ onSignOut }: CampDashboardProps) => {
     if (!camp) return;
 
     const formData = new FormData(e.currentTarget);
+    const itemName = formData.get("item") as string;
+    const expiresAt = formData.get("expiresAt") as string;
+
+    if (!itemName) {
+      toast.error(t("camp.chooseItem"));
+      return;
+    }
 
     try {
-      const { error } = await supabase.from("camp_needs").insert({
+      const result = await addNeed.mutateAsync({
+        id: crypto.randomUUID(),
         camp_id: camp.id,
-        item_name: formData.get("item") as string,
+        item_name: itemName,
+        catalogue_item_id: (formData.get("catalogueItemId") as string) || null,
         quantity_needed: parseInt(formData.get("quantity") as string),
-        urgency: formData.get("urgency") as string,
+        urgency: formData.get("urgency") as Enums<"need_urgency">,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
       });
 
-      if (error) throw error;
-
-      await fetchNeeds(camp.id);
       setShowNeedDialog(false);
-      toast.success("Need added successfully!");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to add need");
+      toast.success(result === "queued" ? t("offline.savedOffline") : t("camp.needAdded"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("camp.addNeedFailed")));
     }
   };
 
-  const urgencyColor = (urgency: string) => {
+  const urgencyColor = (urgency: string | null): BadgeProps["variant"] => {
     switch (urgency) {
       case "critical": return "destructive";
       case "high": return "warning";
@@ -147,197 +208,365 @@ const CampDashboard = ({ onSignOut }: CampDashboardProps) => {
     }
   };
 
-  if (loading) {
+  if (campsQuery.isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-          <p className="mt-4 text-muted-foreground">Loading...</p>
+          <p className="mt-4 text-muted-foreground">{t("common.loading")}</p>
         </div>
       </div>
     );
   }
 
-  if (!camp) {
+  if (camps.length === 0) {
     return (
       <div className="container mx-auto p-4">
         <div className="flex justify-between items-center mb-6">
-          <h1 className="text-3xl font-bold">Camp Management</h1>
-          <Button variant="outline" onClick={onSignOut}>
-            <LogOut className="w-4 h-4 mr-2" />
-            Sign Out
-          </Button>
+          <h1 className="text-3xl font-bold">{t("camp.title")}</h1>
+          <div className="flex items-center gap-2">
+            <LinkPhoneDialog />
+            <LanguageSwitcher />
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              {t("common.signOut")}
+            </Button>
+          </div>
         </div>
 
+        <CampInvitations onAccepted={refreshCamps} />
+
         <Card className="max-w-2xl mx-auto">
           <CardContent className="py-12 text-center">
             <AlertCircle className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h2 className="text-2xl font-semibold mb-2">No Camp Registered</h2>
+            <h2 className="text-2xl font-semibold mb-2">{t("camp.noCampTitle")}</h2>
             <p className="text-muted-foreground mb-6">
-              Create your relief camp to start managing capacity and needs
+              {t("camp.noCampBody")}
             </p>
-            <Dialog open={showCampDialog} onOpenChange={setShowCampDialog}>
-              <DialogTrigger asChild>
+            <CreateCampDialog
+              onCreated={handleCampCreated}
+              trigger={
                 <Button size="lg">
                   <Plus className="w-5 h-5 mr-2" />
-                  Create Camp
+                  {t("camp.createCamp")}
                 </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle>Create Relief Camp</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleCreateCamp} className="space-y-4">
-                  <div>
-                    <Label htmlFor="name">Camp Name</Label>
-                    <Input id="name" name="name" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="location">Location</Label>
-                    <Input id="location" name="location" required />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="capacity">Total Capacity</Label>
-                      <Input id="capacity" name="capacity" type="number" required />
-                    </div>
-                    <div>
-                      <Label htmlFor="occupied">Occupied Seats</Label>
-                      <Input id="occupied" name="occupied" type="number" defaultValue="0" required />
-                    </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="phone">Contact Phone</Label>
-                    <Input id="phone" name="phone" type="tel" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="email">Contact Email (Optional)</Label>
-                    <Input id="email" name="email" type="email" />
-                  </div>
-                  <Button type="submit" className="w-full">Create Camp</Button>
-                </form>
-              </DialogContent>
-            </Dialog>
+              }
+            />
           </CardContent>
         </Card>
       </div>
     );
   }
 
-  const availableSeats = camp.total_capacity - camp.occupied_seats;
-
   return (
     <div className="container mx-auto p-4">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
         <div>
-          <h1 className="text-3xl font-bold">{camp.name}</h1>
-          <p className="text-muted-foreground">{camp.location}</p>
+          <h1 className="text-3xl font-bold">{camp ? camp.name : t("common.allCamps")}</h1>
+          <p className="text-muted-foreground">
+            {camp ? camp.location : t("camp.summaryAcross", { count: camps.length })}
+            {camp && <Badge variant="secondary" className="ml-2">{label("campRole", camp.my_role)}</Badge>}
+          </p>
+          {camp && (
+            <LiveIndicator
+              lastUpdated={needsQuery.dataUpdatedAt ? new Date(needsQuery.dataUpdatedAt) : null}
+              live={live}
+            />
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={camp ? camp.id : ALL_CAMPS} onValueChange={selectCamp}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CAMPS}>{t("common.allCamps")}</SelectItem>
+              {camps.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CreateCampDialog
+            onCreated={handleCampCreated}
+            trigger={
+              <Button variant="outline">
+                <Plus className="w-4 h-4 mr-2" />
+                {t("camp.addCamp")}
+              </Button>
+            }
+          />
+          <LinkPhoneDialog />
+          <LanguageSwitcher />
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="w-4 h-4 mr-2" />
+            {t("common.signOut")}
+          </Button>
         </div>
-        <Button variant="outline" onClick={onSignOut}>
-          <LogOut className="w-4 h-4 mr-2" />
-          Sign Out
-        </Button>
       </div>
 
-      <div className="grid md:grid-cols-3 gap-6 mb-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Total Capacity</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{camp.total_capacity}</div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Occupied</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{camp.occupied_seats}</div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Available</CardTitle>
-            <Users className="h-4 w-4 text-success" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-success">{availableSeats}</div>
-          </CardContent>
-        </Card>
-      </div>
+      <OfflineSyncStatus />
 
-      <Card>
-        <CardHeader>
-          <div className="flex justify-between items-center">
-            <CardTitle>Camp Needs</CardTitle>
-            <Dialog open={showNeedDialog} onOpenChange={setShowNeedDialog}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Need
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add Item Need</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleAddNeed} className="space-y-4">
-                  <div>
-                    <Label htmlFor="item">Item Name</Label>
-                    <Input id="item" name="item" required />
-                  </div>
-                  <div>
-                    <Label htmlFor="quantity">Quantity Needed</Label>
-                    <Input id="quantity" name="quantity" type="number" required />
-                  </div>
+      <RoleRequestQueue />
+
+      <CampInvitations onAccepted={refreshCamps} />
+
+      {!camp ? (
+        <CampsSummary camps={camps} onSelectCamp={selectCamp} />
+      ) : (
+        <>
+          {camp.verification_status !== "verified" && (
+            <Card className="mb-6 border-warning">
+              <CardContent className="py-4 flex items-center justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <ShieldAlert className="w-5 h-5 text-warning mt-0.5" />
                   <div>
-                    <Label htmlFor="urgency">Urgency Level</Label>
-                    <Select name="urgency" required>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select urgency" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="low">Low</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="high">High</SelectItem>
-                        <SelectItem value="critical">Critical</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <Button type="submit" className="w-full">Add Need</Button>
-                </form>
-              </DialogContent>
-            </Dialog>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {needs.length === 0 ? (
-            <div className="text-center py-8">
-              <Package className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-              <p className="text-muted-foreground">No needs listed yet</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {needs.map((need) => (
-                <div key={need.id} className="flex items-center justify-between p-4 border rounded-lg">
-                  <div className="flex-1">
-                    <div className="font-medium">{need.item_name}</div>
-                    <div className="text-sm text-muted-foreground">
-                      {need.quantity_fulfilled} / {need.quantity_needed} fulfilled
-                    </div>
+                    <div className="font-medium">{label("verification", camp.verification_status)}</div>
+                    <p className="text-sm text-muted-foreground">
+                      {camp.verification_status === "rejected"
+                        ? camp.verification_notes || t("camp.rejectedDefault")
+                        : t("camp.hiddenUntilVerified")}
+                    </p>
                   </div>
-                  <Badge variant={urgencyColor(need.urgency) as any}>
-                    {need.urgency}
-                  </Badge>
                 </div>
-              ))}
-            </div>
+                {camp.verification_status === "rejected" && canCamp(camp.my_role, "manageCamp") && (
+                  <Dialog open={showResubmitDialog} onOpenChange={setShowResubmitDialog}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">{t("camp.resubmit")}</Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>{t("camp.resubmitTitle")}</DialogTitle>
+                      </DialogHeader>
+                      <form onSubmit={handleResubmitVerification} className="space-y-4">
+                        <VerificationFields
+                          registrationLabel={t("camp.registrationLabel")}
+                          defaultRegistrationNumber={camp.registration_number}
+                        />
+                        <Button type="submit" className="w-full">{t("camp.resubmit")}</Button>
+                      </form>
+                    </DialogContent>
+                  </Dialog>
+                )}
+              </CardContent>
+            </Card>
           )}
-        </CardContent>
-      </Card>
+
+          <CampLifecycleCard
+            camp={camp}
+            openNeeds={needs.filter(isOpenNeed).length}
+            onOpenEvacuees={() => navigate(`/camp/${camp.id}/evacuees`)}
+          />
+
+          <div className="grid md:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">{t("camp.totalCapacity")}</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatNumber(camp.total_capacity)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">{t("camp.occupied")}</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatNumber(camp.occupied_seats)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">{t("camp.available")}</CardTitle>
+                <Users className="h-4 w-4 text-success" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-success">{formatNumber(Math.max(camp.total_capacity - camp.occupied_seats, 0))}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs value={tab} onValueChange={(value) => navigate(`/camp/${camp.id}/${value}`)} className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="needs">{t("common.campNeeds")}</TabsTrigger>
+              {canCamp(camp.my_role, "receiveDeliveries") && (
+                <TabsTrigger value="deliveries">{t("camp.deliveries")}</TabsTrigger>
+              )}
+              <TabsTrigger value="inventory">{t("camp.inventory")}</TabsTrigger>
+              {canCamp(camp.my_role, "manageEvacuees") && (
+                <>
+                  <TabsTrigger value="evacuees">{t("camp.evacuees")}</TabsTrigger>
+                  <TabsTrigger value="reunification">{t("camp.reunification")}</TabsTrigger>
+                </>
+              )}
+              <TabsTrigger value="team">{t("camp.team")}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="needs">
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <CardTitle>{t("common.campNeeds")}</CardTitle>
+                    {canCamp(camp.my_role, "manageNeeds") && (
+                      <Dialog
+                        open={showNeedDialog}
+                        onOpenChange={(open) => {
+                          setShowNeedDialog(open);
+                          if (open) setNeedItem(null);
+                        }}
+                      >
+                        <DialogTrigger asChild>
+                          <Button>
+                            <Plus className="w-4 h-4 mr-2" />
+                            {t("camp.addNeed")}
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>{t("camp.addNeedTitle")}</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleAddNeed} className="space-y-4">
+                            <div>
+                              <Label htmlFor="item">{t("common.item")}</Label>
+                              <CatalogueItemPicker id="item" value={needItem} onChange={setNeedItem} />
+                            </div>
+                            <div>
+                              <Label htmlFor="quantity">
+                                {t("camp.quantityNeeded")}{needItem?.item && ` (${needItem.item.unit})`}
+                              </Label>
+                              <Input id="quantity" name="quantity" type="number" required />
+                            </div>
+                            <div>
+                              <Label htmlFor="urgency">{t("camp.urgencyLevel")}</Label>
+                              <Select name="urgency" required>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={t("camp.selectUrgency")} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {URGENCIES.map((urgency) => (
+                                    <SelectItem key={urgency} value={urgency}>{label("urgency", urgency)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label htmlFor="expiresAt">{t("camp.neededUntil")}</Label>
+                              <Input id="expiresAt" name="expiresAt" type="datetime-local" />
+                              <p className="text-xs text-muted-foreground mt-1">{t("camp.neededUntilHint")}</p>
+                            </div>
+                            <Button type="submit" className="w-full">{t("camp.addNeed")}</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {needs.length === 0 && queuedNeeds.length === 0 ? (
+                    <div className="text-center py-8">
+                      <Package className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                      <p className="text-muted-foreground">{t("camp.noNeeds")}</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {queuedNeeds.map((need) => (
+                        <div key={need.id} className="flex items-center justify-between p-4 border border-dashed rounded-lg">
+                          <div className="flex-1">
+                            <div className="font-medium">{need.item_name}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {formatNumber(need.quantity_needed)} · {t("offline.waitingToSync")}
+                            </div>
+                          </div>
+                          <Badge variant={urgencyColor(need.urgency)}>
+                            {label("urgency", need.urgency)}
+                          </Badge>
+                        </div>
+                      ))}
+                      {needs.map((need) => (
+                        <div
+                          key={need.id}
+                          className={`flex items-center justify-between p-4 border rounded-lg ${newlyCritical.has(need.id) ? "border-destructive ring-2 ring-destructive" : ""} ${isOpenNeed(need) ? "" : "opacity-60"}`}
+                        >
+                          <div className="flex-1">
+                            <div className="font-medium">
+                              {need.item_name}
+                              {need.catalogue_items?.name_ml && (
+                                <span className="text-muted-foreground font-normal"> · {need.catalogue_items.name_ml}</span>
+                              )}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {formatNumber(need.quantity_fulfilled ?? 0)} / {formatNumber(need.quantity_needed)}
+                              {need.catalogue_items && ` ${need.catalogue_items.unit}`} {t("common.received")}
+                              {need.quantity_pledged > 0 && ` · ${t("common.pledgedCount", { count: need.quantity_pledged })}`}
+                              {need.inventory_item_id && ` · ${t("camp.raisedFromLowStock")}`}
+                              {need.parent_need_id && ` · ${t("needs.tranche")}`}
+                              {isUpcomingNeed(need) && ` · ${t("needs.dueFrom", { time: formatRelative(need.needed_from) })}`}
+                              {need.expires_at && isOpenNeed(need) && ` · ${t("camp.expires", { time: formatRelative(need.expires_at) })}`}
+                            </div>
+                            {need.status === "cancelled" && need.closed_reason && (
+                              <div className="text-sm text-muted-foreground">
+                                {t("needs.cancelledBecause", { reason: need.closed_reason })}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {newlyCritical.has(need.id) && (
+                              <Badge variant="outline" className="border-destructive text-destructive animate-pulse">
+                                {t("live.newlyCritical")}
+                              </Badge>
+                            )}
+                            {need.escalated_at && isOpenNeed(need) && (
+                              <Badge variant="outline">{t("needs.escalated")}</Badge>
+                            )}
+                            {!isOpenNeed(need) && need.status !== "fulfilled" && (
+                              <Badge variant="outline">{label("needStatus", need.status)}</Badge>
+                            )}
+                            <Badge variant={urgencyColor(need.urgency)}>
+                              {label("urgency", need.urgency)}
+                            </Badge>
+                            {isOpenNeed(need) && canCamp(camp.my_role, "manageNeeds") && <NeedActions need={need} />}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {canCamp(camp.my_role, "receiveDeliveries") && (
+              <TabsContent value="deliveries">
+                <IncomingDeliveries campId={camp.id} />
+              </TabsContent>
+            )}
+
+            <TabsContent value="inventory">
+              <InventoryLedger
+                campId={camp.id}
+                canManage={canCamp(camp.my_role, "manageInventory")}
+                onNeedsChange={refreshNeeds}
+              />
+            </TabsContent>
+
+            {canCamp(camp.my_role, "manageEvacuees") && (
+              <>
+                <TabsContent value="evacuees">
+                  <EvacueeRegistry campId={camp.id} onOccupancyChange={refreshCamps} />
+                </TabsContent>
+
+                <TabsContent value="reunification">
+                  <ReunificationRequests campId={camp.id} />
+                </TabsContent>
+              </>
+            )}
+
+            <TabsContent value="team">
+              <CampTeam campId={camp.id} myRole={camp.my_role} onLeft={refreshCamps} />
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
     </div>
   );
 };
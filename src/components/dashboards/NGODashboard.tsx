@@ -1,125 +1,74 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Badge } from "@/components/ui/badge";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LogOut, Package, MapPin, AlertCircle, TrendingUp } from "lucide-react";
+import CampMap from "@/components/map/CampMap";
+import DeliveryTracker from "@/components/ngo/DeliveryTracker";
+import PledgeForm from "@/components/ngo/PledgeForm";
+import NGOVerificationCard from "@/components/ngo/NGOVerificationCard";
+import RoleRequestQueue from "@/components/auth/RoleRequestQueue";
+import LanguageSwitcher from "@/components/i18n/LanguageSwitcher";
+import LiveIndicator from "@/components/realtime/LiveIndicator";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSignOut } from "@/hooks/use-session";
+import { useLiveRefresh, useNewlyCritical } from "@/hooks/use-live-refresh";
+import { useCamps } from "@/hooks/use-camps";
+import { useCampNeeds, type CampNeed } from "@/hooks/use-camp-needs";
+import { usePledges } from "@/hooks/use-pledges";
+import { useMyProfile } from "@/hooks/use-profile";
+import { isPledgeForCancelledNeed } from "@/lib/assistance";
+import { queryKeys } from "@/lib/queryKeys";
+import { UNANSWERED_FLAG_HOURS, unansweredHours } from "@/lib/needs";
+import { LogOut, Package, MapPin, AlertCircle, TrendingUp, Clock } from "lucide-react";
 import { toast } from "sonner";
 
-interface Camp {
-  id: string;
-  name: string;
-  location: string;
-  total_capacity: number;
-  occupied_seats: number;
-}
-
-interface Need {
-  id: string;
-  camp_id: string;
-  item_name: string;
-  quantity_needed: number;
-  quantity_fulfilled: number;
-  urgency: string;
-  camps: {
-    name: string;
-    location: string;
-  };
-}
-
-interface NGODashboardProps {
-  onSignOut: () => void;
-}
-
-const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
-  const [camps, setCamps] = useState<Camp[]>([]);
-  const [needs, setNeeds] = useState<Need[]>([]);
-  const [selectedNeed, setSelectedNeed] = useState<Need | null>(null);
+const NGODashboard = () => {
+  const navigate = useNavigate();
+  const { tab = "needs" } = useParams();
+  const signOut = useSignOut();
+  const { t, label, formatNumber } = useI18n();
+  const queryClient = useQueryClient();
+  const campsQuery = useCamps({ statuses: ["active", "full"] });
+  const needsQuery = useCampNeeds({ openOnly: true });
+  const profileQuery = useMyProfile();
+  const pledgesQuery = usePledges();
+  const camps = campsQuery.data ?? [];
+  const needs = needsQuery.data ?? [];
+  const profile = profileQuery.data ?? null;
+  const [selectedNeed, setSelectedNeed] = useState<CampNeed | null>(null);
   const [showAssistDialog, setShowAssistDialog] = useState(false);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const fetchData = async () => {
-    try {
-      const [campsResult, needsResult] = await Promise.all([
-        supabase.from("camps").select("*").eq("status", "active"),
-        supabase
-          .from("camp_needs")
-          .select(`
-            *,
-            camps (
-              name,
-              location
-            )
-          `)
-          .neq("status", "fulfilled")
-          .order("urgency", { ascending: false }),
-      ]);
-
-      if (campsResult.error) throw campsResult.error;
-      if (needsResult.error) throw needsResult.error;
-
-      setCamps(campsResult.data || []);
-      setNeeds(needsResult.data || []);
-    } catch (error) {
-      console.error("Error fetching data:", error);
-      toast.error("Failed to load data");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleProvideAssistance = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!selectedNeed) return;
-
-    const formData = new FormData(e.currentTarget);
-    const quantity = parseInt(formData.get("quantity") as string);
 
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+  const { live } = useLiveRefresh(
+    "ngo-dashboard",
+    [{ table: "camps" }, { table: "camp_needs" }, { table: "ngo_assistance" }],
+    [queryKeys.camps.all, queryKeys.needs.all, queryKeys.pledges.all]
+  );
+  const newlyCritical = useNewlyCritical(needs, needsQuery.isSuccess ? "ngo-dashboard" : null);
 
-      const { error } = await supabase.from("ngo_assistance").insert({
-        ngo_id: user.id,
-        camp_id: selectedNeed.camp_id,
-        need_id: selectedNeed.id,
-        items_provided: selectedNeed.item_name,
-        quantity: quantity,
-        notes: formData.get("notes") as string,
-      });
+  const loadError = campsQuery.error || needsQuery.error || profileQuery.error;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error("Error fetching data:", loadError);
+    toast.error(t("ngo.loadFailed"));
+  }, [loadError, t]);
 
-      if (error) throw error;
+  const isVerified = profile?.verification_status === "verified";
 
-      // Update the need
-      const newFulfilled = selectedNeed.quantity_fulfilled + quantity;
-      const newStatus = newFulfilled >= selectedNeed.quantity_needed ? "fulfilled" : "partial";
+  // Pledges still on their way to needs the camp has cancelled, flagged on the pledges tab
+  const cancelledNeedPledges = (pledgesQuery.data ?? []).filter(isPledgeForCancelledNeed).length;
 
-      await supabase
-        .from("camp_needs")
-        .update({
-          quantity_fulfilled: newFulfilled,
-          status: newStatus,
-        })
-        .eq("id", selectedNeed.id);
+  const criticalNeeds = needs
+    .filter((need) => need.urgency === "critical")
+    .reduce<Record<string, number>>((counts, need) => {
+      counts[need.camp_id] = (counts[need.camp_id] || 0) + 1;
+      return counts;
+    }, {});
 
-      await fetchData();
-      setShowAssistDialog(false);
-      setSelectedNeed(null);
-      toast.success("Assistance pledged successfully!");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to provide assistance");
-    }
-  };
-
-  const urgencyColor = (urgency: string) => {
+  const urgencyColor = (urgency: string | null): BadgeProps["variant"] => {
     switch (urgency) {
       case "critical": return "destructive";
       case "high": return "warning";
@@ -128,12 +77,12 @@ const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
     }
   };
 
-  if (loading) {
+  if (campsQuery.isLoading || needsQuery.isLoading || profileQuery.isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-          <p className="mt-4 text-muted-foreground">Loading...</p>
+          <p className="mt-4 text-muted-foreground">{t("common.loading")}</p>
         </div>
       </div>
     );
@@ -143,19 +92,39 @@ const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
     <div className="container mx-auto p-4">
       <div className="flex justify-between items-center mb-6">
         <div>
-          <h1 className="text-3xl font-bold">NGO Dashboard</h1>
-          <p className="text-muted-foreground">Coordinate relief operations</p>
+          <h1 className="text-3xl font-bold">{t("ngo.title")}</h1>
+          <p className="text-muted-foreground">{t("ngo.subtitle")}</p>
+          <LiveIndicator
+            lastUpdated={needsQuery.dataUpdatedAt ? new Date(needsQuery.dataUpdatedAt) : null}
+            live={live}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <LanguageSwitcher />
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="w-4 h-4 mr-2" />
+            {t("common.signOut")}
+          </Button>
         </div>
-        <Button variant="outline" onClick={onSignOut}>
-          <LogOut className="w-4 h-4 mr-2" />
-          Sign Out
-        </Button>
       </div>
 
-      <Tabs defaultValue="needs" className="space-y-4">
+      {isVerified && <RoleRequestQueue />}
+
+      {profile && !isVerified && <NGOVerificationCard profile={profile} onSubmitted={() => queryClient.invalidateQueries({ queryKey: queryKeys.profile.mine() })} />}
+
+      <Tabs value={tab} onValueChange={(value) => navigate(`/ngo/${value}`)} className="space-y-4">
         <TabsList>
-          <TabsTrigger value="needs">Camp Needs</TabsTrigger>
-          <TabsTrigger value="camps">All Camps</TabsTrigger>
+          <TabsTrigger value="needs">{t("common.campNeeds")}</TabsTrigger>
+          <TabsTrigger value="pledges">
+            {t("ngo.myPledges")}
+            {cancelledNeedPledges > 0 && (
+              <Badge variant="destructive" className="ml-2" title={t("ngo.cancelledNeedPledges")}>
+                {formatNumber(cancelledNeedPledges)}
+              </Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="camps">{t("common.allCamps")}</TabsTrigger>
+          <TabsTrigger value="map">{t("common.map")}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="needs" className="space-y-4">
@@ -163,47 +132,76 @@ const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
             <Card>
               <CardContent className="py-12 text-center">
                 <Package className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-lg text-muted-foreground">No urgent needs at the moment</p>
+                <p className="text-lg text-muted-foreground">{t("ngo.noNeeds")}</p>
               </CardContent>
             </Card>
           ) : (
             <div className="grid md:grid-cols-2 gap-4">
               {needs.map((need) => (
-                <Card key={need.id} className="hover:shadow-lg transition-shadow">
+                <Card
+                  key={need.id}
+                  className={`hover:shadow-lg transition-shadow ${newlyCritical.has(need.id) ? "ring-2 ring-destructive" : ""}`}
+                >
                   <CardHeader>
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
-                        <CardTitle className="text-lg">{need.item_name}</CardTitle>
+                        <CardTitle className="text-lg">
+                          {need.item_name}
+                          {need.catalogue_items?.name_ml && (
+                            <span className="text-muted-foreground font-normal text-base"> · {need.catalogue_items.name_ml}</span>
+                          )}
+                        </CardTitle>
                         <p className="text-sm text-muted-foreground mt-1">
-                          {need.camps.name}
+                          {need.camps?.name}
                         </p>
                       </div>
-                      <Badge variant={urgencyColor(need.urgency) as any}>
-                        {need.urgency}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge variant={urgencyColor(need.urgency)}>
+                          {label("urgency", need.urgency)}
+                        </Badge>
+                        {newlyCritical.has(need.id) && (
+                          <Badge variant="outline" className="border-destructive text-destructive animate-pulse">
+                            {t("live.newlyCritical")}
+                          </Badge>
+                        )}
+                        {need.escalated_at && <Badge variant="outline">{t("needs.escalated")}</Badge>}
+                        {(unansweredHours(need) ?? 0) >= UNANSWERED_FLAG_HOURS && (
+                          <Badge variant="outline" className="border-warning text-warning">
+                            <Clock className="w-3 h-3 mr-1" />
+                            {t("needs.unansweredFor", { hours: formatNumber(unansweredHours(need)!) })}
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="flex items-center gap-2 text-sm">
                       <MapPin className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-muted-foreground">{need.camps.location}</span>
+                      <span className="text-muted-foreground">{need.camps?.location}</span>
                     </div>
                     <div className="flex items-center gap-2 text-sm">
                       <TrendingUp className="w-4 h-4 text-muted-foreground" />
                       <span className="font-medium">
-                        {need.quantity_fulfilled} / {need.quantity_needed}
+                        {formatNumber(need.quantity_fulfilled ?? 0)} / {formatNumber(need.quantity_needed)}
+                        {need.catalogue_items && ` ${need.catalogue_items.unit}`}
                       </span>
-                      <span className="text-muted-foreground">fulfilled</span>
+                      <span className="text-muted-foreground">{t("common.received")}</span>
+                      {need.quantity_pledged > 0 && (
+                        <span className="text-muted-foreground">
+                          · {t("common.pledgedCount", { count: need.quantity_pledged })}
+                        </span>
+                      )}
                     </div>
                     <Button
                       className="w-full"
+                      disabled={!isVerified}
                       onClick={() => {
                         setSelectedNeed(need);
                         setShowAssistDialog(true);
                       }}
                     >
                       <Package className="w-4 h-4 mr-2" />
-                      Provide Assistance
+                      {t("ngo.provideAssistance")}
                     </Button>
                   </CardContent>
                 </Card>
@@ -217,7 +215,10 @@ const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
             {camps.map((camp) => (
               <Card key={camp.id}>
                 <CardHeader>
-                  <CardTitle className="text-lg">{camp.name}</CardTitle>
+                  <CardTitle className="text-lg flex items-start justify-between gap-2">
+                    <span className="flex-1">{camp.name}</span>
+                    {camp.status === "full" && <Badge variant="destructive">{label("campStatus", "full")}</Badge>}
+                  </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
                   <div className="flex items-center gap-2 text-sm">
@@ -226,54 +227,39 @@ const NGODashboard = ({ onSignOut }: NGODashboardProps) => {
                   </div>
                   <div className="text-sm">
                     <span className="font-medium">
-                      {camp.total_capacity - camp.occupied_seats} / {camp.total_capacity}
+                      {formatNumber(Math.max(camp.total_capacity - camp.occupied_seats, 0))} / {formatNumber(camp.total_capacity)}
                     </span>
-                    <span className="text-muted-foreground"> seats available</span>
+                    <span className="text-muted-foreground"> {t("common.seatsAvailable")}</span>
                   </div>
                 </CardContent>
               </Card>
             ))}
           </div>
         </TabsContent>
+
+        <TabsContent value="pledges">
+          <DeliveryTracker />
+        </TabsContent>
+
+        <TabsContent value="map">
+          <CampMap camps={camps} criticalNeeds={criticalNeeds} />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={showAssistDialog} onOpenChange={setShowAssistDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Provide Assistance</DialogTitle>
+            <DialogTitle>{t("ngo.provideAssistance")}</DialogTitle>
           </DialogHeader>
           {selectedNeed && (
-            <form onSubmit={handleProvideAssistance} className="space-y-4">
-              <div>
-                <Label>Item</Label>
-                <Input value={selectedNeed.item_name} disabled />
-              </div>
-              <div>
-                <Label>Camp</Label>
-                <Input value={selectedNeed.camps.name} disabled />
-              </div>
-              <div>
-                <Label htmlFor="quantity">Quantity to Provide</Label>
-                <Input
-                  id="quantity"
-                  name="quantity"
-                  type="number"
-                  max={selectedNeed.quantity_needed - selectedNeed.quantity_fulfilled}
-                  min={1}
-                  required
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Remaining needed: {selectedNeed.quantity_needed - selectedNeed.quantity_fulfilled}
-                </p>
-              </div>
-              <div>
-                <Label htmlFor="notes">Notes (Optional)</Label>
-                <Input id="notes" name="notes" placeholder="Delivery details, timeline, etc." />
-              </div>
-              <Button type="submit" className="w-full">
-                Pledge Assistance
-              </Button>
-            </form>
+            <PledgeForm
+              key={selectedNeed.id}
+              need={selectedNeed}
+              onPledged={() => {
+                setShowAssistDialog(false);
+                setSelectedNeed(null);
+              }}
+            />
           )}
         </DialogContent>
       </Dialog>
@@ -1,166 +1,312 @@
 import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { LogOut, MapPin, Users, Search, Heart } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import MissingPersonSearch from "@/components/user/MissingPersonSearch";
+import CampInvitations from "@/components/camp/CampInvitations";
+import RoleRequestCard from "@/components/auth/RoleRequestCard";
+import CampMap from "@/components/map/CampMap";
+import LanguageSwitcher from "@/components/i18n/LanguageSwitcher";
+import LinkPhoneDialog from "@/components/auth/LinkPhoneDialog";
+import LiveIndicator from "@/components/realtime/LiveIndicator";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSignOut } from "@/hooks/use-session";
+import { useLiveRefresh } from "@/hooks/use-live-refresh";
+import { useCamps, type Camp } from "@/hooks/use-camps";
+import { useCriticalNeedCounts } from "@/hooks/use-camp-needs";
+import { requireUserId } from "@/lib/auth";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  compassDirection,
+  directionsUrl,
+  distanceKm,
+  resolvePlace,
+  roundDistance,
+  type NamedPlace,
+} from "@/lib/geo";
+import { errorMessage } from "@/lib/utils";
+import { LogOut, MapPin, Users, Search, Heart, LocateFixed, Navigation, X } from "lucide-react";
 import { toast } from "sonner";
 
-interface Camp {
-  id: string;
-  name: string;
-  location: string;
-  total_capacity: number;
-  occupied_seats: number;
-  contact_phone: string;
-  status: string;
-}
-
-interface UserDashboardProps {
-  onSignOut: () => void;
-}
-
-const UserDashboard = ({ onSignOut }: UserDashboardProps) => {
-  const [camps, setCamps] = useState<Camp[]>([]);
+const UserDashboard = () => {
+  const navigate = useNavigate();
+  const { tab = "camps" } = useParams();
+  const signOut = useSignOut();
+  const queryClient = useQueryClient();
+  const { t, label, formatNumber } = useI18n();
+  const campsQuery = useCamps({ statuses: ["active"] });
+  const criticalNeedsQuery = useCriticalNeedCounts();
+  const camps = campsQuery.data ?? [];
+  const criticalNeeds = criticalNeedsQuery.data ?? {};
   const [searchTerm, setSearchTerm] = useState("");
-  const [loading, setLoading] = useState(true);
+  const [placeQuery, setPlaceQuery] = useState("");
+  const [origin, setOrigin] = useState<NamedPlace | null>(null);
+  const [locating, setLocating] = useState(false);
 
-  useEffect(() => {
-    fetchCamps();
-  }, []);
-
-  const fetchCamps = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("camps")
-        .select("*")
-        .eq("status", "active")
-        .order("created_at", { ascending: false });
+  // Seat counts and critical needs change constantly during an evacuation
+  const { live } = useLiveRefresh(
+    "user-dashboard",
+    [{ table: "camps" }, { table: "camp_needs" }],
+    [queryKeys.camps.all, queryKeys.needs.all]
+  );
 
-      if (error) throw error;
-      setCamps(data || []);
-    } catch (error) {
-      console.error("Error fetching camps:", error);
-      toast.error("Failed to load camps");
-    } finally {
-      setLoading(false);
-    }
-  };
+  const loadError = campsQuery.error || criticalNeedsQuery.error;
+  useEffect(() => {
+    if (!loadError) return;
+    toast.error(t("user.loadFailed"));
+  }, [loadError, t]);
 
   const handleVolunteer = async (campId: string) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+      const userId = await requireUserId();
 
       const { error } = await supabase.from("volunteers").insert({
-        user_id: user.id,
+        user_id: userId,
         camp_id: campId,
         volunteer_type: "camp_volunteer",
         status: "active",
       });
 
       if (error) throw error;
-      toast.success("Successfully registered as volunteer!");
-    } catch (error: any) {
-      if (error.message?.includes("duplicate")) {
-        toast.error("You're already registered for this camp");
+      toast.success(t("user.volunteerRegistered"));
+    } catch (error) {
+      if (errorMessage(error, "").includes("duplicate")) {
+        toast.error(t("user.alreadyVolunteer"));
       } else {
-        toast.error("Failed to register as volunteer");
+        toast.error(t("user.volunteerFailed"));
       }
     }
   };
 
-  const filteredCamps = camps.filter(
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error(t("user.locationUnavailable"));
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setOrigin({ name: t("user.yourLocation"), latitude: coords.latitude, longitude: coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        toast.error(t("user.locationFailed"));
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handlePlaceSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const campPlaces = camps
+      .filter((camp) => camp.latitude !== null && camp.longitude !== null)
+      .map((camp) => ({ name: camp.location, latitude: camp.latitude!, longitude: camp.longitude! }));
+    const place = resolvePlace(placeQuery, campPlaces);
+
+    if (place) {
+      setOrigin(place);
+    } else {
+      toast.error(t("user.placeNotFound"));
+    }
+  };
+
+  const availableSeats = (camp: Camp) => camp.total_capacity - camp.occupied_seats;
+
+  const formatDistance = (km: number) => {
+    const { value, unit } = roundDistance(km);
+    return t(unit === "m" ? "geo.metres" : "geo.kilometres", { distance: value });
+  };
+
+  const campPoint = (camp: Camp) =>
+    camp.latitude !== null && camp.longitude !== null
+      ? { latitude: camp.latitude, longitude: camp.longitude }
+      : null;
+
+  const distanceTo = (camp: Camp) => {
+    const point = campPoint(camp);
+    return origin && point ? distanceKm(origin, point) : null;
+  };
+
+  // Only camps with space are useful, closest first once there is a starting point
+  const matchingCamps = camps.filter(
     (camp) =>
-      camp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      camp.location.toLowerCase().includes(searchTerm.toLowerCase())
+      availableSeats(camp) > 0 &&
+      (camp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        camp.location.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
-  const availableSeats = (camp: Camp) => camp.total_capacity - camp.occupied_seats;
+  const filteredCamps = origin
+    ? [...matchingCamps].sort((a, b) => (distanceTo(a) ?? Infinity) - (distanceTo(b) ?? Infinity))
+    : matchingCamps;
 
   return (
     <div className="container mx-auto p-4">
       <div className="flex justify-between items-center mb-6">
         <div>
-          <h1 className="text-3xl font-bold">Relief Camps</h1>
-          <p className="text-muted-foreground">Find nearby camps and volunteer</p>
-        </div>
-        <Button variant="outline" onClick={onSignOut}>
-          <LogOut className="w-4 h-4 mr-2" />
-          Sign Out
-        </Button>
-      </div>
-
-      <div className="mb-6">
-        <div className="relative">
-          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search by camp name or location..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-9"
+          <h1 className="text-3xl font-bold">{t("user.title")}</h1>
+          <p className="text-muted-foreground">{t("user.subtitle")}</p>
+          <LiveIndicator
+            lastUpdated={campsQuery.dataUpdatedAt ? new Date(campsQuery.dataUpdatedAt) : null}
+            live={live}
           />
         </div>
+        <div className="flex items-center gap-2">
+          <LinkPhoneDialog />
+          <LanguageSwitcher />
+          <Button variant="outline" onClick={signOut}>
+            <LogOut className="w-4 h-4 mr-2" />
+            {t("common.signOut")}
+          </Button>
+        </div>
       </div>
 
-      {loading ? (
-        <div className="text-center py-12">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-          <p className="mt-4 text-muted-foreground">Loading camps...</p>
-        </div>
-      ) : filteredCamps.length === 0 ? (
-        <Card>
-          <CardContent className="py-12 text-center">
-            <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-            <p className="text-lg text-muted-foreground">No camps found</p>
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredCamps.map((camp) => (
-            <Card key={camp.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <CardTitle className="flex items-start justify-between">
-                  <span className="flex-1">{camp.name}</span>
-                  {availableSeats(camp) > 0 ? (
-                    <Badge variant="outline" className="bg-success/10 text-success">
-                      Available
-                    </Badge>
-                  ) : (
-                    <Badge variant="destructive">Full</Badge>
-                  )}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex items-start gap-2 text-sm">
-                  <MapPin className="w-4 h-4 text-muted-foreground mt-0.5" />
-                  <span className="text-muted-foreground">{camp.location}</span>
-                </div>
-                <div className="flex items-center gap-2 text-sm">
-                  <Users className="w-4 h-4 text-muted-foreground" />
-                  <span className="font-medium">
-                    {availableSeats(camp)} / {camp.total_capacity}
-                  </span>
-                  <span className="text-muted-foreground">seats available</span>
-                </div>
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Contact: </span>
-                  <span className="font-medium">{camp.contact_phone}</span>
-                </div>
-                <Button
-                  className="w-full"
-                  onClick={() => handleVolunteer(camp.id)}
-                  disabled={availableSeats(camp) === 0}
-                >
-                  <Heart className="w-4 h-4 mr-2" />
-                  Register as Volunteer
+      {/* Accepting an invite from a verified camp grants camp access; the role guard then moves them on */}
+      <CampInvitations onAccepted={() => queryClient.invalidateQueries({ queryKey: queryKeys.profile.mine() })} />
+
+      <RoleRequestCard />
+
+      <Tabs value={tab} onValueChange={(value) => navigate(`/citizen/${value}`)} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="camps">{t("user.findCamps")}</TabsTrigger>
+          <TabsTrigger value="map">{t("common.map")}</TabsTrigger>
+          <TabsTrigger value="missing">{t("user.missingPersons")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="camps">
+          <div className="mb-6 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t("user.searchPlaceholder")}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <form onSubmit={handlePlaceSearch} className="flex flex-1 gap-3">
+                <Input
+                  placeholder={t("user.placePlaceholder")}
+                  value={placeQuery}
+                  onChange={(e) => setPlaceQuery(e.target.value)}
+                />
+                <Button type="submit" variant="secondary">
+                  <Navigation className="w-4 h-4 mr-2" />
+                  {t("user.findNearest")}
                 </Button>
+              </form>
+              <Button variant="outline" onClick={handleUseMyLocation} disabled={locating}>
+                <LocateFixed className="w-4 h-4 mr-2" />
+                {locating ? t("user.locating") : t("user.nearMe")}
+              </Button>
+            </div>
+            {origin && (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 text-sm">
+                <span>{t("user.showingNearest", { place: origin.name })}</span>
+                <Button variant="ghost" size="sm" onClick={() => setOrigin(null)}>
+                  <X className="w-4 h-4 mr-1" />
+                  {t("user.clear")}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {campsQuery.isLoading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              <p className="mt-4 text-muted-foreground">{t("user.loadingCamps")}</p>
+            </div>
+          ) : filteredCamps.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground">{t("user.noCamps")}</p>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {filteredCamps.map((camp) => (
+                <Card key={camp.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="flex items-start justify-between">
+                      <span className="flex-1">{camp.name}</span>
+                      <Badge variant="outline" className="bg-success/10 text-success">
+                        {label("campAvailability", "available")}
+                      </Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-start gap-2 text-sm">
+                      <MapPin className="w-4 h-4 text-muted-foreground mt-0.5" />
+                      <span className="text-muted-foreground">{camp.location}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Users className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">
+                        {formatNumber(availableSeats(camp))} / {formatNumber(camp.total_capacity)}
+                      </span>
+                      <span className="text-muted-foreground">{t("common.seatsAvailable")}</span>
+                    </div>
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">{t("user.contact")} </span>
+                      <span className="font-medium">{camp.contact_phone}</span>
+                    </div>
+                    {origin && (
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        {distanceTo(camp) !== null ? (
+                          <>
+                            <span className="flex items-center gap-2">
+                              <Navigation className="w-4 h-4 text-muted-foreground" />
+                              <span className="font-medium">{formatDistance(distanceTo(camp)!)}</span>
+                              <span className="text-muted-foreground">
+                                {label("geo.direction", compassDirection(origin, campPoint(camp)!))}
+                              </span>
+                            </span>
+                            <a
+                              href={directionsUrl(origin, campPoint(camp)!)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-primary underline-offset-4 hover:underline"
+                            >
+                              {t("user.directions")}
+                            </a>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">{t("user.distanceUnknown")}</span>
+                        )}
+                      </div>
+                    )}
+                    <Button
+                      className="w-full"
+                      onClick={() => handleVolunteer(camp.id)}
+                      disabled={availableSeats(camp) === 0}
+                    >
+                      <Heart className="w-4 h-4 mr-2" />
+                      {t("user.registerVolunteer")}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="map">
+          <CampMap camps={camps} criticalNeeds={criticalNeeds} />
+        </TabsContent>
+
+        <TabsContent value="missing">
+          <MissingPersonSearch />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
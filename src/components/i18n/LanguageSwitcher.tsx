@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import { AVAILABLE_LANGUAGES, languages, type Language } from "@/i18n/languages";
+import { Languages } from "lucide-react";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+const LanguageSwitcher = ({ className = "w-36" }: LanguageSwitcherProps) => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+      <SelectTrigger className={className} aria-label={t("common.language")}>
+        <Languages className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {AVAILABLE_LANGUAGES.map((code) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {languages[code].nativeName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
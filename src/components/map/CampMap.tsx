@@ -0,0 +1,105 @@
+import { MapContainer, TileLayer, CircleMarker, Popup } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import {
+  AVAILABILITY_COLORS,
+  KERALA_CENTER,
+  KERALA_ZOOM,
+  MAP_TILE_ATTRIBUTION,
+  MAP_TILE_URL,
+  seatAvailability,
+} from "@/lib/map";
+import { useI18n } from "@/hooks/use-i18n";
+import { MapPin } from "lucide-react";
+
+export interface CampMapCamp {
+  id: string;
+  name: string;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  total_capacity: number;
+  occupied_seats: number;
+  contact_phone?: string;
+}
+
+interface CampMapProps {
+  camps: CampMapCamp[];
+  criticalNeeds?: Record<string, number>;
+  className?: string;
+}
+
+const CampMap = ({ camps, criticalNeeds = {}, className = "h-[480px]" }: CampMapProps) => {
+  const { t } = useI18n();
+  const mappedCamps = camps.filter((camp) => camp.latitude !== null && camp.longitude !== null);
+  const unmappedCount = camps.length - mappedCamps.length;
+
+  return (
+    <div className="space-y-3">
+      <div className={`${className} w-full rounded-lg overflow-hidden border`}>
+        <MapContainer center={KERALA_CENTER} zoom={KERALA_ZOOM} className="h-full w-full">
+          <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+          {mappedCamps.map((camp) => {
+            const availability = seatAvailability(camp.total_capacity, camp.occupied_seats);
+            const critical = criticalNeeds[camp.id] || 0;
+
+            return (
+              <CircleMarker
+                key={camp.id}
+                center={[camp.latitude!, camp.longitude!]}
+                radius={critical > 0 ? 12 : 9}
+                pathOptions={{
+                  color: critical > 0 ? AVAILABILITY_COLORS.full : "white",
+                  weight: critical > 0 ? 4 : 2,
+                  fillColor: AVAILABILITY_COLORS[availability],
+                  fillOpacity: 0.9,
+                }}
+              >
+                <Popup>
+                  <div className="space-y-1">
+                    <div className="font-semibold">{camp.name}</div>
+                    <div>{camp.location}</div>
+                    <div>
+                      {t("map.seatsAvailable", {
+                        count: Math.max(camp.total_capacity - camp.occupied_seats, 0),
+                        total: camp.total_capacity,
+                      })}
+                    </div>
+                    {critical > 0 && (
+                      <div className="font-medium text-destructive">
+                        {t("map.criticalNeeds", { count: critical })}
+                      </div>
+                    )}
+                    {camp.contact_phone && <div>{t("map.contact", { phone: camp.contact_phone })}</div>}
+                  </div>
+                </Popup>
+              </CircleMarker>
+            );
+          })}
+        </MapContainer>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full bg-success" /> {t("map.legendAvailable")}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full bg-warning" /> {t("map.legendNearlyFull")}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full bg-destructive" /> {t("map.legendFull")}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-3 rounded-full border-2 border-destructive" /> {t("map.legendCritical")}
+        </span>
+        {unmappedCount > 0 && (
+          <span className="flex items-center gap-2">
+            <MapPin className="w-4 h-4" />
+            {t("map.unmapped", { count: unmappedCount })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampMap;
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { MapContainer, TileLayer, CircleMarker, useMap, useMapEvents } from "react-leaflet";
+import type { LatLngTuple } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { KERALA_CENTER, KERALA_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/map";
+import { useI18n } from "@/hooks/use-i18n";
+import { LocateFixed } from "lucide-react";
+import { toast } from "sonner";
+
+interface LocationPickerProps {
+  defaultValue?: LatLngTuple | null;
+}
+
+const ClickHandler = ({ onPick }: { onPick: (position: LatLngTuple) => void }) => {
+  useMapEvents({
+    click: (e) => onPick([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+};
+
+// Dialogs animate in, so Leaflet measures the container before it has its final size
+const ResizeOnMount = ({ position }: { position: LatLngTuple | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => map.invalidateSize(), 250);
+    return () => clearTimeout(timeout);
+  }, [map]);
+
+  useEffect(() => {
+    if (position) map.panTo(position);
+  }, [map, position]);
+
+  return null;
+};
+
+// Renders hidden `latitude` and `longitude` inputs so it can sit inside a plain form
+const LocationPicker = ({ defaultValue = null }: LocationPickerProps) => {
+  const { t } = useI18n();
+  const [position, setPosition] = useState<LatLngTuple | null>(defaultValue);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error(t("map.locationUnavailable"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setPosition([coords.latitude, coords.longitude]),
+      () => toast.error(t("map.locationFailed"))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-48 w-full rounded-md overflow-hidden border">
+        <MapContainer
+          center={position || KERALA_CENTER}
+          zoom={position ? 13 : KERALA_ZOOM}
+          className="h-full w-full"
+        >
+          <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+          <ClickHandler onPick={setPosition} />
+          <ResizeOnMount position={position} />
+          {position && <CircleMarker center={position} radius={8} pathOptions={{ fillOpacity: 0.9 }} />}
+        </MapContainer>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {position
+            ? `${position[0].toFixed(5)}, ${position[1].toFixed(5)}`
+            : t("map.tapToMark")}
+        </p>
+        <Button type="button" size="sm" variant="outline" onClick={handleUseMyLocation}>
+          <LocateFixed className="w-4 h-4 mr-2" />
+          {t("map.useMyLocation")}
+        </Button>
+      </div>
+      <input type="hidden" name="latitude" value={position ? position[0] : ""} />
+      <input type="hidden" name="longitude" value={position ? position[1] : ""} />
+    </div>
+  );
+};
+
+export default LocationPicker;
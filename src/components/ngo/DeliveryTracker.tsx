@@ -0,0 +1,437 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLiveRefresh } from "@/hooks/use-live-refresh";
+import {
+  useAddTrackingNote,
+  useCancelAssistance,
+  useDispatchAssistance,
+  usePledges,
+  type NgoPledge,
+} from "@/hooks/use-pledges";
+import type { MessageKey } from "@/i18n/messages/en";
+import { OUTSTANDING_DELIVERY_STATUSES, isPledgeForCancelledNeed } from "@/lib/assistance";
+import { queryKeys } from "@/lib/queryKeys";
+import { errorMessage } from "@/lib/utils";
+import { Truck, Package, CheckCircle2, MapPin, AlertTriangle, XCircle, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+
+const DELIVERY_STATUSES = ["pledged", "in_transit", "delivered", "cancelled"];
+
+const surplusLabels: Record<string, MessageKey> = {
+  pending: "deliveryTracker.surplusPending",
+  accepted: "deliveryTracker.surplusAccepted",
+  declined: "deliveryTracker.surplusDeclined",
+};
+
+// Sentinel select value for "no filter"
+const ALL = "all";
+
+const TIMESTAMP: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" };
+
+interface PledgeFilters {
+  campId: string;
+  status: string;
+  // yyyy-MM-dd from the date inputs, compared against when the pledge was made
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: PledgeFilters = { campId: ALL, status: ALL, from: "", to: "" };
+
+function matchesFilters(pledge: NgoPledge, filters: PledgeFilters): boolean {
+  if (filters.campId !== ALL && pledge.camp_id !== filters.campId) return false;
+  if (filters.status !== ALL && (pledge.delivery_status || "pledged") !== filters.status) return false;
+
+  const pledgedOn = pledge.created_at ? format(new Date(pledge.created_at), "yyyy-MM-dd") : "";
+  if (filters.from && pledgedOn < filters.from) return false;
+  if (filters.to && pledgedOn > filters.to) return false;
+  return true;
+}
+
+interface TrackingNotesProps {
+  pledge: NgoPledge;
+}
+
+const TrackingNotes = ({ pledge }: TrackingNotesProps) => {
+  const { t, formatDate } = useI18n();
+  const addNote = useAddTrackingNote();
+  const outstanding = OUTSTANDING_DELIVERY_STATUSES.includes(pledge.delivery_status);
+
+  const handleAddNote = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      await addNote.mutateAsync({ assistanceId: pledge.id, note: (formData.get("note") as string).trim() });
+      form.reset();
+    } catch (error) {
+      toast.error(errorMessage(error, t("deliveryTracker.noteFailed")));
+    }
+  };
+
+  if (pledge.assistance_tracking_notes.length === 0 && !outstanding) return null;
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      {pledge.assistance_tracking_notes.map((note) => (
+        <div key={note.id} className="flex items-start gap-2 text-sm">
+          <MessageSquare className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+          <div>
+            <span>{note.note}</span>
+            <span className="text-xs text-muted-foreground ml-2">{formatDate(note.created_at, TIMESTAMP)}</span>
+          </div>
+        </div>
+      ))}
+      {outstanding && (
+        <form onSubmit={handleAddNote} className="flex gap-2">
+          <Input
+            name="note"
+            placeholder={t("deliveryTracker.trackingNotePlaceholder")}
+            aria-label={t("deliveryTracker.trackingNote")}
+            required
+          />
+          <Button type="submit" variant="outline" disabled={addNote.isPending}>
+            {t("deliveryTracker.addNote")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// The NGO's own pledges: what it has committed to, where each one is, and the
+// dispatch, tracking and cancellation actions that go with it
+const DeliveryTracker = () => {
+  const { t, label, formatNumber, formatDate } = useI18n();
+  const pledgesQuery = usePledges();
+  const dispatch = useDispatchAssistance();
+  const cancelPledge = useCancelAssistance();
+  const deliveries = pledgesQuery.data ?? [];
+  const [selectedDelivery, setSelectedDelivery] = useState<NgoPledge | null>(null);
+  const [cancelling, setCancelling] = useState<NgoPledge | null>(null);
+  const [filters, setFilters] = useState<PledgeFilters>(EMPTY_FILTERS);
+
+  // Camps confirming receipt or cancelling a need update the list without a reload
+  useLiveRefresh(
+    "ngo-deliveries",
+    [{ table: "ngo_assistance" }, { table: "camp_needs" }],
+    [queryKeys.pledges.all]
+  );
+
+  useEffect(() => {
+    if (!pledgesQuery.error) return;
+    console.error("Error fetching deliveries:", pledgesQuery.error);
+    toast.error(t("deliveryTracker.loadFailed"));
+  }, [pledgesQuery.error, t]);
+
+  // Every camp the NGO has pledged to, for the camp filter
+  const camps = [...new Map(deliveries.map((delivery) => [delivery.camp_id, delivery.camps?.name ?? ""])).entries()]
+    .sort(([, a], [, b]) => a.localeCompare(b));
+  const filtered = deliveries.filter((delivery) => matchesFilters(delivery, filters));
+  const filtering = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+
+  const handleDispatch = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedDelivery) return;
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const pending = dispatch.mutateAsync({
+        assistanceId: selectedDelivery.id,
+        details: {
+          vehicleNumber: formData.get("vehicleNumber") as string,
+          driverName: formData.get("driverName") as string,
+          driverPhone: formData.get("driverPhone") as string,
+        },
+      });
+
+      // The card shows as in transit straight away; a failure rolls it back
+      setSelectedDelivery(null);
+      await pending;
+      toast.success(t("deliveryTracker.dispatched"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("deliveryTracker.dispatchFailed")));
+    }
+  };
+
+  const handleCancel = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!cancelling) return;
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const pending = cancelPledge.mutateAsync({
+        assistanceId: cancelling.id,
+        reason: (formData.get("reason") as string).trim(),
+      });
+
+      setCancelling(null);
+      await pending;
+      toast.success(t("deliveryTracker.cancelled"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("deliveryTracker.cancelFailed")));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {deliveries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Truck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground">{t("deliveryTracker.none")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="py-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+              <div>
+                <Label htmlFor="pledge-camp">{t("common.camp")}</Label>
+                <Select value={filters.campId} onValueChange={(campId) => setFilters({ ...filters, campId })}>
+                  <SelectTrigger id="pledge-camp">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>{t("common.allCamps")}</SelectItem>
+                    {camps.map(([campId, name]) => (
+                      <SelectItem key={campId} value={campId}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pledge-status">{t("deliveryTracker.status")}</Label>
+                <Select value={filters.status} onValueChange={(status) => setFilters({ ...filters, status })}>
+                  <SelectTrigger id="pledge-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>{t("deliveryTracker.allStatuses")}</SelectItem>
+                    {DELIVERY_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{label("deliveryStatus", status)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pledge-from">{t("deliveryTracker.pledgedFrom")}</Label>
+                <Input
+                  id="pledge-from"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="pledge-to">{t("deliveryTracker.pledgedUntil")}</Label>
+                <Input
+                  id="pledge-to"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                />
+              </div>
+              <Button variant="ghost" disabled={!filtering} onClick={() => setFilters(EMPTY_FILTERS)}>
+                {t("deliveryTracker.clearFilters")}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {filtered.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">{t("deliveryTracker.noMatches")}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              {filtered.map((delivery) => (
+                <Card key={delivery.id} className={isPledgeForCancelledNeed(delivery) ? "border-warning" : ""}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div className="flex-1">
+                        <CardTitle className="text-lg">{delivery.items_provided}</CardTitle>
+                        <p className="text-sm text-muted-foreground mt-1">{delivery.camps?.name}</p>
+                      </div>
+                      <Badge
+                        variant={
+                          delivery.delivery_status === "delivered"
+                            ? "default"
+                            : delivery.delivery_status === "cancelled"
+                              ? "outline"
+                              : "secondary"
+                        }
+                      >
+                        {label("deliveryStatus", delivery.delivery_status || "pledged")}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {isPledgeForCancelledNeed(delivery) && (
+                      <div className="flex items-start gap-2 text-sm">
+                        <AlertTriangle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+                        <span>
+                          {delivery.camp_needs?.closed_reason
+                            ? t("deliveryTracker.needCancelledReason", { reason: delivery.camp_needs.closed_reason })
+                            : t("deliveryTracker.needCancelled")}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2 text-sm">
+                      <MapPin className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">{delivery.camps?.location}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Package className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">{formatNumber(delivery.quantity)}</span>
+                      <span className="text-muted-foreground">{t("deliveryTracker.pledged")}</span>
+                    </div>
+                    {delivery.surplus_quantity > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {t(surplusLabels[delivery.surplus_status || "pending"], { count: delivery.surplus_quantity })}
+                      </p>
+                    )}
+                    {delivery.notes && <p className="text-sm text-muted-foreground">{delivery.notes}</p>}
+                    {delivery.dispatched_at && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Truck className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-muted-foreground">
+                          {[delivery.vehicle_number, delivery.driver_name, delivery.driver_phone]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      </div>
+                    )}
+                    {delivery.delivery_status === "delivered" && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <CheckCircle2 className="w-4 h-4 text-success" />
+                        <span className="font-medium">{formatNumber(delivery.quantity_received ?? 0)}</span>
+                        <span className="text-muted-foreground">{t("deliveryTracker.receivedByCamp")}</span>
+                      </div>
+                    )}
+                    {delivery.receipt_notes && (
+                      <p className="text-sm text-muted-foreground">{delivery.receipt_notes}</p>
+                    )}
+                    {delivery.delivery_status === "cancelled" && (
+                      <div className="flex items-start gap-2 text-sm">
+                        <XCircle className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+                        <span className="text-muted-foreground">{delivery.cancellation_reason}</span>
+                      </div>
+                    )}
+                    <ul className="text-xs text-muted-foreground space-y-0.5">
+                      {delivery.created_at && (
+                        <li>{t("deliveryTracker.pledgedAt", { time: formatDate(delivery.created_at, TIMESTAMP) })}</li>
+                      )}
+                      {delivery.dispatched_at && (
+                        <li>{t("deliveryTracker.dispatchedAt", { time: formatDate(delivery.dispatched_at, TIMESTAMP) })}</li>
+                      )}
+                      {delivery.received_at && (
+                        <li>{t("deliveryTracker.receivedAt", { time: formatDate(delivery.received_at, TIMESTAMP) })}</li>
+                      )}
+                      {delivery.cancelled_at && (
+                        <li>{t("deliveryTracker.cancelledAt", { time: formatDate(delivery.cancelled_at, TIMESTAMP) })}</li>
+                      )}
+                    </ul>
+                    <TrackingNotes pledge={delivery} />
+                    {OUTSTANDING_DELIVERY_STATUSES.includes(delivery.delivery_status) && (
+                      <div className="flex gap-2">
+                        {delivery.delivery_status === "pledged" && (
+                          <Button className="flex-1" onClick={() => setSelectedDelivery(delivery)}>
+                            <Truck className="w-4 h-4 mr-2" />
+                            {t("deliveryTracker.markDispatched")}
+                          </Button>
+                        )}
+                        <Button variant="outline" className="flex-1" onClick={() => setCancelling(delivery)}>
+                          {t("deliveryTracker.cancelPledge")}
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("deliveryTracker.dispatchTitle")}</DialogTitle>
+          </DialogHeader>
+          {selectedDelivery && (
+            <form onSubmit={handleDispatch} className="space-y-4">
+              <div>
+                <Label>{t("common.item")}</Label>
+                <Input value={`${selectedDelivery.items_provided} × ${selectedDelivery.quantity}`} disabled />
+              </div>
+              <div>
+                <Label htmlFor="vehicleNumber">{t("deliveryTracker.vehicleNumber")}</Label>
+                <Input id="vehicleNumber" name="vehicleNumber" placeholder="KL 07 AB 1234" required />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="driverName">{t("deliveryTracker.driverName")}</Label>
+                  <Input id="driverName" name="driverName" required />
+                </div>
+                <div>
+                  <Label htmlFor="driverPhone">{t("deliveryTracker.driverPhone")}</Label>
+                  <Input id="driverPhone" name="driverPhone" type="tel" required />
+                </div>
+              </div>
+              <Button type="submit" className="w-full">
+                {t("deliveryTracker.confirmDispatch")}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("deliveryTracker.cancelPledge")}</DialogTitle>
+            <DialogDescription>{t("deliveryTracker.cancelBody")}</DialogDescription>
+          </DialogHeader>
+          {cancelling && (
+            <form onSubmit={handleCancel} className="space-y-4">
+              <div>
+                <Label>{t("common.item")}</Label>
+                <Input value={`${cancelling.items_provided} × ${cancelling.quantity}`} disabled />
+              </div>
+              <div>
+                <Label htmlFor="cancellationReason">{t("deliveryTracker.reason")}</Label>
+                <Textarea
+                  id="cancellationReason"
+                  name="reason"
+                  placeholder={t("deliveryTracker.reasonPlaceholder")}
+                  required
+                />
+              </div>
+              <Button type="submit" variant="destructive" className="w-full">
+                {t("deliveryTracker.cancelPledge")}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DeliveryTracker;
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import VerificationFields from "@/components/verification/VerificationFields";
+import { uploadVerificationDocument } from "@/lib/verification";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+
+export interface NGOVerificationProfile {
+  id: string;
+  organization_name: string | null;
+  registration_number: string | null;
+  verification_status: string;
+  verification_notes: string | null;
+}
+
+interface NGOVerificationCardProps {
+  profile: NGOVerificationProfile;
+  onSubmitted: () => void;
+}
+
+const NGOVerificationCard = ({ profile, onSubmitted }: NGOVerificationCardProps) => {
+  const { t, label } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const documentFile = formData.get("document") as File | null;
+      const documentPath = documentFile?.size
+        ? await uploadVerificationDocument(profile.id, documentFile)
+        : undefined;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          organization_name: formData.get("organizationName") as string,
+          registration_number: formData.get("registrationNumber") as string,
+          document_path: documentPath,
+          verification_status: "pending",
+        })
+        .eq("id", profile.id);
+
+      if (error) throw error;
+
+      onSubmitted();
+      toast.success(t("ngoVerification.submitted"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("ngoVerification.submitFailed")));
+    }
+  };
+
+  const canSubmit = profile.verification_status === "unsubmitted" || profile.verification_status === "rejected";
+
+  return (
+    <Card className="mb-6 border-warning">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldAlert className="w-5 h-5 text-warning" />
+          {label("verification", profile.verification_status)}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {profile.verification_status === "pending"
+            ? t("ngoVerification.pendingBody")
+            : profile.verification_status === "rejected"
+              ? profile.verification_notes || t("ngoVerification.rejectedBody")
+              : t("ngoVerification.unsubmittedBody")}
+        </p>
+      </CardHeader>
+      {canSubmit && (
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+            <div>
+              <Label htmlFor="organizationName">{t("ngoVerification.organizationName")}</Label>
+              <Input
+                id="organizationName"
+                name="organizationName"
+                defaultValue={profile.organization_name || ""}
+                required
+              />
+            </div>
+            <VerificationFields
+              registrationLabel={t("ngoVerification.registrationLabel")}
+              defaultRegistrationNumber={profile.registration_number}
+            />
+            <Button type="submit">{t("ngoVerification.submit")}</Button>
+          </form>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default NGOVerificationCard;
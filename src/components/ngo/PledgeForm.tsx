@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import CatalogueItemPicker, { type CatalogueSelection } from "@/components/catalogue/CatalogueItemPicker";
+import { useI18n } from "@/hooks/use-i18n";
+import type { CampNeed } from "@/hooks/use-camp-needs";
+import { usePledgeAssistance } from "@/hooks/use-pledges";
+import { pledgeFormSchema, type PledgeFormValues } from "@/lib/assistance";
+import { remainingQuantity } from "@/lib/needs";
+import { errorMessage } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface PledgeFormProps {
+  need: CampNeed;
+  onPledged: () => void;
+}
+
+// The Provide Assistance form for one need; remount it (key by need id) for another
+const PledgeForm = ({ need, onPledged }: PledgeFormProps) => {
+  const { t, formatNumber } = useI18n();
+  const pledge = usePledgeAssistance();
+  const remaining = remainingQuantity(need);
+  const [assistItem, setAssistItem] = useState<CatalogueSelection | null>({ item: null, name: need.item_name });
+
+  const form = useForm<PledgeFormValues>({
+    resolver: zodResolver(pledgeFormSchema(remaining, t)),
+    defaultValues: { quantity: undefined, allowSurplus: false, notes: "", catalogueItemId: undefined },
+  });
+
+  // How far the quantity being typed goes over what the need still has open
+  const surplus = Math.max((Number(form.watch("quantity")) || 0) - remaining, 0);
+
+  const handleSubmit = async (values: PledgeFormValues) => {
+    try {
+      await pledge.mutateAsync({
+        needId: need.id,
+        quantity: values.quantity,
+        notes: values.notes,
+        catalogueItemId: values.catalogueItemId,
+        allowSurplus: values.allowSurplus,
+      });
+
+      onPledged();
+      toast.success(t("ngo.pledged"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("ngo.pledgeFailed")));
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div>
+          <Label htmlFor="assistItem">{t("common.item")}</Label>
+          <CatalogueItemPicker
+            id="assistItem"
+            value={assistItem}
+            onChange={(selection) => {
+              setAssistItem(selection);
+              form.setValue("catalogueItemId", selection.item?.id);
+            }}
+            category={need.catalogue_items?.category}
+            allowCustom={false}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {need.catalogue_items ? t("ngo.substituteHint") : t("ngo.equivalentHint")}
+          </p>
+        </div>
+        <div>
+          <Label>{t("common.camp")}</Label>
+          <Input value={need.camps?.name ?? ""} disabled />
+        </div>
+        <FormField
+          control={form.control}
+          name="quantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {t("ngo.quantityToProvide")}{need.catalogue_items && ` (${need.catalogue_items.unit})`}
+              </FormLabel>
+              <FormControl>
+                <Input type="number" min={1} step={1} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <p className="text-xs text-muted-foreground">
+                {t("ngo.remainingNeeded", { count: formatNumber(remaining) })}
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {surplus > 0 && (
+          <FormField
+            control={form.control}
+            name="allowSurplus"
+            render={({ field }) => (
+              <FormItem className="flex items-start gap-2 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                    className="mt-0.5"
+                  />
+                </FormControl>
+                <FormLabel className="font-normal leading-snug">
+                  {t("pledgeForm.surplusOption", { count: formatNumber(surplus) })}
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("ngo.notes")}</FormLabel>
+              <FormControl>
+                <Input placeholder={t("ngo.notesPlaceholder")} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={pledge.isPending}>
+          {t("ngo.pledge")}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default PledgeForm;
@@ -0,0 +1,111 @@
+import { useCallback, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useI18n } from "@/hooks/use-i18n";
+import { useOutbox } from "@/hooks/use-outbox";
+import type { OutboxEntry } from "@/lib/outbox";
+import { AlertTriangle, CloudOff, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Offline banner, queued-change count and any changes the server rejected on replay.
+// Mounting it also replays the outbox on load and whenever the connection returns.
+const OfflineSyncStatus = () => {
+  const { t, formatDate } = useI18n();
+  const { online, syncing, pending, conflicts, sync, retry, discard } = useOutbox();
+
+  const runSync = useCallback(async () => {
+    try {
+      const result = await sync();
+      if (result.applied > 0) toast.success(t("offline.synced", { count: result.applied }));
+      if (result.conflicts > 0) toast.error(t("offline.conflictsFound", { count: result.conflicts }));
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    }
+  }, [sync, t]);
+
+  useEffect(() => {
+    if (online) runSync();
+  }, [online, runSync]);
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    try {
+      const result = await retry(entry);
+      if (result.conflicts > 0) toast.error(t("offline.stillRejected"));
+      else if (result.applied > 0) toast.success(t("offline.synced", { count: result.applied }));
+    } catch (error) {
+      console.error("Error retrying offline change:", error);
+    }
+  };
+
+  const describe = (entry: OutboxEntry) => {
+    const { mutation } = entry;
+    switch (mutation.kind) {
+      case "register_evacuee":
+        return t("offline.registerEvacuee", { name: mutation.payload.full_name });
+      case "add_need":
+        return t("offline.addNeed", { item: mutation.payload.item_name, count: mutation.payload.quantity_needed });
+      case "confirm_delivery":
+        return t("offline.confirmDelivery", { count: mutation.payload.quantityReceived });
+    }
+  };
+
+  if (online && pending.length === 0 && conflicts.length === 0) return null;
+
+  return (
+    <Card className={`mb-6 ${conflicts.length > 0 ? "border-destructive" : "border-warning"}`}>
+      <CardContent className="py-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <CloudOff className="w-5 h-5 text-warning mt-0.5" />
+            <div>
+              <div className="font-medium">
+                {!online ? t("offline.offline") : conflicts.length > 0 ? t("offline.needsAttention") : t("offline.backOnline")}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {pending.length > 0
+                  ? t("offline.pendingCount", { count: pending.length })
+                  : !online
+                    ? t("offline.savedLocally")
+                    : t("offline.conflictsHelp")}
+              </p>
+            </div>
+          </div>
+          {online && pending.length > 0 && (
+            <Button variant="outline" size="sm" onClick={runSync} disabled={syncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? "animate-spin" : ""}`} />
+              {syncing ? t("offline.syncing") : t("offline.syncNow")}
+            </Button>
+          )}
+        </div>
+
+        {conflicts.map((entry) => (
+          <div key={entry.id} className="flex flex-wrap items-center justify-between gap-3 p-3 border border-destructive/40 rounded-lg">
+            <div className="flex items-start gap-2 flex-1">
+              <AlertTriangle className="w-4 h-4 text-destructive mt-0.5" />
+              <div>
+                <div className="text-sm font-medium">{describe(entry)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t("offline.recordedAt", { time: formatDate(entry.createdAt, { dateStyle: "medium", timeStyle: "short" }) })}
+                  {" · "}
+                  {entry.error}
+                </div>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleRetry(entry)} disabled={!online || syncing}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {t("offline.retry")}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => discard(entry.id)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                {t("offline.discard")}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OfflineSyncStatus;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface LiveIndicatorProps {
+  lastUpdated: Date | null;
+  live: boolean;
+}
+
+const JUST_NOW_MS = 60_000;
+
+const LiveIndicator = ({ lastUpdated, live }: LiveIndicatorProps) => {
+  const { t, formatRelative } = useI18n();
+  const [, setTick] = useState(0);
+
+  // Re-render periodically so the relative time keeps moving
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!lastUpdated) return null;
+
+  const age = Date.now() - lastUpdated.getTime();
+
+  return (
+    <span className="inline-flex items-center gap-2 text-xs text-muted-foreground" title={t(live ? "live.connected" : "live.disconnected")}>
+      <span className="relative flex h-2 w-2">
+        {live && <span className="absolute inline-flex h-full w-full rounded-full bg-success opacity-75 animate-ping" />}
+        <span className={`relative inline-flex h-2 w-2 rounded-full ${live ? "bg-success" : "bg-muted-foreground"}`} />
+      </span>
+      {age < JUST_NOW_MS
+        ? t("live.updatedJustNow")
+        : t("live.updatedAgo", { time: formatRelative(lastUpdated) })}
+    </span>
+  );
+};
+
+export default LiveIndicator;
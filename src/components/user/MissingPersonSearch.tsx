@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Phone, MapPin, UserSearch, CheckCircle2, Clock } from "lucide-react";
+import { errorMessage } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { toast } from "sonner";
+
+interface Report {
+  id: string;
+  full_name: string;
+  age: number | null;
+  home_village: string | null;
+  status: string;
+  created_at: string | null;
+}
+
+interface ReportMatch {
+  match_id: string;
+  report_id: string;
+  status: string;
+  camp_name: string;
+  camp_location: string;
+  contact_phone: string;
+  evacuee_name: string | null;
+  evacuee_age: number | null;
+  family_group: string | null;
+}
+
+const MissingPersonSearch = () => {
+  const { t, label } = useI18n();
+  const [reports, setReports] = useState<Report[]>([]);
+  const [matches, setMatches] = useState<ReportMatch[]>([]);
+  const [defaultPhone, setDefaultPhone] = useState("");
+  const [showReportDialog, setShowReportDialog] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const [reportsResult, matchesResult, profileResult] = await Promise.all([
+        supabase
+          .from("missing_person_reports")
+          .select("*")
+          .eq("reporter_id", user.id)
+          .order("created_at", { ascending: false }),
+        supabase.rpc("get_my_report_matches"),
+        supabase.from("profiles").select("phone").eq("id", user.id).single(),
+      ]);
+
+      if (reportsResult.error) throw reportsResult.error;
+      if (matchesResult.error) throw matchesResult.error;
+
+      setReports(reportsResult.data || []);
+      setMatches(matchesResult.data || []);
+      setDefaultPhone(profileResult.data?.phone || "");
+    } catch (error) {
+      console.error("Error fetching missing person reports:", error);
+      toast.error(t("missing.loadFailed"));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handleFileReport = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const age = formData.get("age") as string;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase.from("missing_person_reports").insert({
+        reporter_id: user.id,
+        full_name: formData.get("fullName") as string,
+        age: age ? parseInt(age) : null,
+        gender: (formData.get("gender") as string) || null,
+        home_village: (formData.get("homeVillage") as string) || null,
+        description: (formData.get("description") as string) || null,
+        contact_phone: formData.get("contactPhone") as string,
+      });
+
+      if (error) throw error;
+
+      await fetchReports();
+      setShowReportDialog(false);
+      toast.success(t("missing.filed"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("missing.fileFailed")));
+    }
+  };
+
+  const handleCloseReport = async (reportId: string) => {
+    try {
+      const { error } = await supabase
+        .from("missing_person_reports")
+        .update({ status: "closed" })
+        .eq("id", reportId);
+
+      if (error) throw error;
+
+      await fetchReports();
+      toast.success(t("missing.closed"));
+    } catch (error) {
+      toast.error(errorMessage(error, t("missing.closeFailed")));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-muted-foreground">
+          {t("missing.intro")}
+        </p>
+        <Dialog open={showReportDialog} onOpenChange={setShowReportDialog}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              {t("missing.report")}
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t("missing.dialogTitle")}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleFileReport} className="space-y-4">
+              <div>
+                <Label htmlFor="fullName">{t("common.fullName")}</Label>
+                <Input id="fullName" name="fullName" required />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="age">{t("missing.age")}</Label>
+                  <Input id="age" name="age" type="number" min={0} max={130} />
+                </div>
+                <div>
+                  <Label htmlFor="gender">{t("common.gender")}</Label>
+                  <Select name="gender">
+                    <SelectTrigger>
+                      <SelectValue placeholder={t("common.selectGender")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="female">{t("gender.female")}</SelectItem>
+                      <SelectItem value="male">{t("gender.male")}</SelectItem>
+                      <SelectItem value="other">{t("gender.other")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="homeVillage">{t("missing.homeVillage")}</Label>
+                <Input id="homeVillage" name="homeVillage" placeholder={t("common.villagePlaceholder")} />
+              </div>
+              <div>
+                <Label htmlFor="description">{t("missing.description")}</Label>
+                <Input id="description" name="description" placeholder={t("missing.descriptionPlaceholder")} />
+              </div>
+              <div>
+                <Label htmlFor="contactPhone">{t("missing.contactPhone")}</Label>
+                <Input
+                  id="contactPhone"
+                  name="contactPhone"
+                  type="tel"
+                  defaultValue={defaultPhone}
+                  placeholder="+91 XXXXX XXXXX"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full">{t("missing.file")}</Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {reports.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <UserSearch className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground">{t("missing.none")}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {reports.map((report) => {
+            const reportMatches = matches.filter((match) => match.report_id === report.id);
+
+            return (
+              <Card key={report.id}>
+                <CardHeader>
+                  <CardTitle className="flex items-start justify-between">
+                    <span className="flex-1">{report.full_name}</span>
+                    <Badge variant={report.status === "matched" ? "default" : "secondary"}>
+                      {label("reportStatus", report.status)}
+                    </Badge>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {[report.age !== null ? t("common.years", { count: report.age }) : null, report.home_village]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {reportMatches.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {t("missing.noMatches")}
+                    </p>
+                  ) : (
+                    reportMatches.map((match) => (
+                      <div key={match.match_id} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          {match.status === "approved" ? (
+                            <>
+                              <CheckCircle2 className="w-4 h-4 text-success" />
+                              {t("missing.confirmedAt", { camp: match.camp_name })}
+                            </>
+                          ) : (
+                            <>
+                              <Clock className="w-4 h-4 text-warning" />
+                              {t("missing.possibleAt", { camp: match.camp_name })}
+                            </>
+                          )}
+                        </div>
+                        {match.status === "approved" ? (
+                          <div className="text-sm">
+                            {[
+                              match.evacuee_name,
+                              match.evacuee_age !== null ? t("common.years", { count: match.evacuee_age }) : null,
+                              match.family_group,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        ) : (
+                          <div className="text-xs text-muted-foreground">
+                            {t("missing.awaitingCamp")}
+                          </div>
+                        )}
+                        <div className="flex items-center gap-2 text-sm">
+                          <MapPin className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-muted-foreground">{match.camp_location}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Phone className="w-4 h-4 text-muted-foreground" />
+                          <span className="font-medium">{match.contact_phone}</span>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                  {report.status !== "closed" && (
+                    <Button variant="outline" className="w-full" onClick={() => handleCloseReport(report.id)}>
+                      {t("missing.close")}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MissingPersonSearch;
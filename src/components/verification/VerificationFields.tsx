@@ -0,0 +1,36 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface VerificationFieldsProps {
+  registrationLabel?: string;
+  defaultRegistrationNumber?: string | null;
+}
+
+// Form fields named `registrationNumber` and `document`, read back with FormData
+const VerificationFields = ({ registrationLabel, defaultRegistrationNumber }: VerificationFieldsProps) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="registrationNumber">{registrationLabel || t("verificationForm.registrationNumber")}</Label>
+        <Input
+          id="registrationNumber"
+          name="registrationNumber"
+          defaultValue={defaultRegistrationNumber || ""}
+          required
+        />
+      </div>
+      <div>
+        <Label htmlFor="document">{t("verificationForm.document")}</Label>
+        <Input id="document" name="document" type="file" accept="image/*,application/pdf" />
+        <p className="text-xs text-muted-foreground mt-1">
+          {t("verificationForm.documentHint")}
+        </p>
+      </div>
+    </>
+  );
+};
+
+export default VerificationFields;
@@ -0,0 +1,167 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { OPEN_NEED_STATUSES } from "@/lib/needs";
+import { performMutation } from "@/lib/outbox";
+import { queryKeys } from "@/lib/queryKeys";
+
+// Needs are read through camp_needs_prioritized, which adds a 0-100 priority_score
+// from urgency, unmet quantity, age and camp occupancy
+export type CampNeed = Tables<"camp_needs_prioritized"> & {
+  camps: Pick<Tables<"camps">, "name" | "location"> | null;
+  catalogue_items: Pick<Tables<"catalogue_items">, "category" | "unit" | "name_ml"> | null;
+};
+
+export interface NeedFilters {
+  campId?: string;
+  // Leaves out needs that have been fully received, expired or closed
+  openOnly?: boolean;
+}
+
+const NEED_SELECT = `
+  *,
+  camps (
+    name,
+    location
+  ),
+  catalogue_items (
+    category,
+    unit,
+    name_ml
+  )
+`;
+
+export function useCampNeeds(filters: NeedFilters = {}, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.needs.list(filters),
+    enabled: options.enabled ?? true,
+    queryFn: async (): Promise<CampNeed[]> => {
+      let query = supabase
+        .from("camp_needs_prioritized")
+        .select(NEED_SELECT)
+        .order("priority_score", { ascending: false })
+        .order("created_at", { ascending: true });
+      if (filters.campId) query = query.eq("camp_id", filters.campId);
+      if (filters.openOnly) query = query.in("status", OPEN_NEED_STATUSES);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Number of open critical needs per camp id, for map markers
+export function useCriticalNeedCounts() {
+  return useQuery({
+    queryKey: queryKeys.needs.criticalCounts(),
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await supabase
+        .from("camp_needs")
+        .select("camp_id")
+        .eq("urgency", "critical")
+        .in("status", OPEN_NEED_STATUSES);
+
+      if (error) throw error;
+      return data.reduce<Record<string, number>>((counts, need) => {
+        counts[need.camp_id] = (counts[need.camp_id] || 0) + 1;
+        return counts;
+      }, {});
+    },
+  });
+}
+
+export type NewNeed = TablesInsert<"camp_needs"> & { id: string };
+
+// Goes through the outbox, so the need is queued rather than lost when offline
+export function useAddNeed() {
+  const queryClient = useQueryClient();
+  const listKey = (need: NewNeed) => queryKeys.needs.list({ campId: need.camp_id });
+
+  return useMutation({
+    mutationFn: (need: NewNeed) => performMutation(need.camp_id, { kind: "add_need", payload: need }),
+    onMutate: async (need) => {
+      await queryClient.cancelQueries({ queryKey: listKey(need) });
+      const previous = queryClient.getQueryData<CampNeed[]>(listKey(need));
+
+      const now = new Date().toISOString();
+      const optimistic: CampNeed = {
+        catalogue_item_id: null,
+        inventory_item_id: null,
+        quantity_fulfilled: 0,
+        quantity_pledged: 0,
+        status: "pending",
+        urgency: "medium",
+        expires_at: null,
+        closed_at: null,
+        closed_reason: null,
+        escalated_at: null,
+        needed_from: null,
+        parent_need_id: null,
+        ...need,
+        priority_score: null,
+        unanswered_since: now,
+        urgency_changed_at: now,
+        created_at: now,
+        camps: null,
+        catalogue_items: null,
+      };
+      queryClient.setQueryData<CampNeed[]>(listKey(need), (current) => [optimistic, ...(current ?? [])]);
+
+      return { previous };
+    },
+    onSuccess: (result, need, context) => {
+      // A queued need is listed from the outbox until it syncs
+      if (result === "queued") queryClient.setQueryData(listKey(need), context?.previous);
+    },
+    onError: (_error, need, context) => {
+      queryClient.setQueryData(listKey(need), context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+  });
+}
+
+// Camp staff correcting a need's quantity or urgency, or cancelling it with a reason
+export function useUpdateNeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ needId, changes }: { needId: string; changes: TablesUpdate<"camp_needs"> }) => {
+      const { data, error } = await supabase
+        .from("camp_needs")
+        .update(changes)
+        .eq("id", needId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+  });
+}
+
+export interface SplitNeedInput {
+  needId: string;
+  tranches: number;
+  intervalHours: number;
+}
+
+// The need becomes the first tranche; the rest fall due one interval apart
+export function useSplitNeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ needId, tranches, intervalHours }: SplitNeedInput) => {
+      const { data, error } = await supabase.rpc("split_need", {
+        _need_id: needId,
+        _tranches: tranches,
+        _interval_hours: intervalHours,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+  });
+}
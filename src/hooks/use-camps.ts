@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { CampRole } from "@/lib/campTeam";
+import type { CampStatus } from "@/lib/campLifecycle";
+import { requireUserId } from "@/lib/auth";
+import { queryKeys } from "@/lib/queryKeys";
+
+export type Camp = Tables<"camps">;
+
+// A camp the signed-in user is a member of, with their role on its team
+export type MyCamp = Camp & { my_role: CampRole };
+
+// Row-level security already limits which camps each role can see; this
+// narrows the list further, e.g. to camps that are taking evacuees
+export interface CampFilters {
+  statuses?: CampStatus[];
+}
+
+export function useCamps(filters: CampFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.camps.list(filters),
+    queryFn: async (): Promise<Camp[]> => {
+      let query = supabase.from("camps").select("*").order("created_at", { ascending: false });
+      if (filters.statuses) query = query.in("status", filters.statuses);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useMyCamps() {
+  return useQuery({
+    queryKey: queryKeys.camps.mine(),
+    queryFn: async (): Promise<MyCamp[]> => {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from("camp_members")
+        .select(`
+          role,
+          camps (*)
+        `)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      // A membership whose camp is hidden by row-level security comes back without it
+      return data.flatMap(({ role, camps }) => (camps ? [{ ...camps, my_role: role as CampRole }] : []));
+    },
+  });
+}
+
+// Edits a camp's details or lifecycle status. The database settles the final
+// status (a reopened camp at capacity comes back as full), so the saved row
+// replaces the cached one rather than the submitted changes.
+export function useUpdateCamp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campId, changes }: { campId: string; changes: TablesUpdate<"camps"> }) => {
+      const { data, error } = await supabase
+        .from("camps")
+        .update(changes)
+        .eq("id", campId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MyCamp[]>(queryKeys.camps.mine(), (current) =>
+        current?.map((camp) => (camp.id === updated.id ? { ...camp, ...updated } : camp))
+      );
+    },
+  });
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type LiveTable = "camps" | "camp_needs" | "ngo_assistance" | "assistance_tracking_notes";
+
+export interface LiveSource {
+  table: LiveTable;
+  // PostgREST-style filter, e.g. "camp_id=eq.<id>"
+  filter?: string;
+}
+
+// Bursts of changes (a pledge also updates its need) are folded into one refetch
+const REFRESH_DELAY_MS = 400;
+
+/**
+ * Invalidates the given queries whenever a row in one of the sources changes.
+ * Refetching rather than patching the cache keeps embedded joins and RLS
+ * filtering exactly as the original query had them.
+ * Pass a null key to pause; a new key resubscribes.
+ */
+export function useLiveRefresh(key: string | null, sources: LiveSource[], queryKeys: QueryKey[]) {
+  const queryClient = useQueryClient();
+  const [live, setLive] = useState(false);
+  const sourcesRef = useRef(sources);
+  const queryKeysRef = useRef(queryKeys);
+  sourcesRef.current = sources;
+  queryKeysRef.current = queryKeys;
+
+  useEffect(() => {
+    if (!key) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const reload = () => {
+      queryKeysRef.current.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    };
+
+    const channel = sourcesRef.current.reduce(
+      (current, { table, filter }) =>
+        current.on("postgres_changes", { event: "*", schema: "public", table, filter }, () => {
+          clearTimeout(timer);
+          timer = setTimeout(reload, REFRESH_DELAY_MS);
+        }),
+      supabase.channel(`live:${key}`)
+    );
+
+    channel.subscribe((status) => setLive(status === "SUBSCRIBED"));
+
+    return () => {
+      clearTimeout(timer);
+      setLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [key, queryClient]);
+
+  return { live };
+}
+
+const HIGHLIGHT_MS = 60_000;
+
+interface UrgentItem {
+  id: string;
+  urgency: string | null;
+}
+
+/**
+ * Ids of needs that turned critical after the list was first loaded, flagged
+ * for a minute so a live update is noticed. Pass a null key until the first
+ * load has finished; changing the key starts over with a new baseline.
+ */
+export function useNewlyCritical(items: UrgentItem[], key: string | null) {
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const knownCritical = useRef<Set<string> | null>(null);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+  useEffect(() => {
+    if (!key) {
+      knownCritical.current = null;
+      setHighlighted(new Set());
+      return;
+    }
+
+    const critical = new Set(items.filter((item) => item.urgency === "critical").map((item) => item.id));
+    const previous = knownCritical.current;
+    knownCritical.current = critical;
+    if (!previous) return;
+
+    const fresh = [...critical].filter((id) => !previous.has(id));
+    if (fresh.length === 0) return;
+
+    setHighlighted((current) => new Set([...current, ...fresh]));
+    timers.current.push(
+      setTimeout(() => {
+        setHighlighted((current) => new Set([...current].filter((id) => !fresh.includes(id))));
+      }, HIGHLIGHT_MS)
+    );
+  }, [items, key]);
+
+  return highlighted;
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  discardOutboxEntry,
+  listOutbox,
+  onOutboxSynced,
+  retryOutboxEntry,
+  subscribeOutbox,
+  syncOutbox,
+  type OutboxEntry,
+} from "@/lib/outbox";
+
+export function useOnlineStatus() {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
+
+export function useOutbox() {
+  const online = useOnlineStatus();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    listOutbox()
+      .then(setEntries)
+      .catch((error) => console.error("Error reading offline outbox:", error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeOutbox(refresh);
+  }, [refresh]);
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      return await syncOutbox();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  return {
+    online,
+    syncing,
+    entries,
+    pending: entries.filter((entry) => entry.status === "pending"),
+    conflicts: entries.filter((entry) => entry.status === "conflict"),
+    sync,
+    retry: retryOutboxEntry,
+    discard: discardOutboxEntry,
+  };
+}
+
+// Runs the callback whenever queued changes have been written to the server
+export function useOutboxSynced(callback: () => void) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => onOutboxSynced(() => callbackRef.current()), []);
+}
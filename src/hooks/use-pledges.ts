@@ -0,0 +1,241 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  addTrackingNote,
+  cancelAssistance,
+  decidePledgeSurplus,
+  dispatchAssistance,
+  pledgeAssistance,
+  type ConfirmReceiptInput,
+  type DispatchDetails,
+  type PledgeAssistanceInput,
+} from "@/lib/assistance";
+import { requireUserId } from "@/lib/auth";
+import { performMutation } from "@/lib/outbox";
+import { queryKeys } from "@/lib/queryKeys";
+import type { CampNeed } from "@/hooks/use-camp-needs";
+
+// A pledge as the NGO that made it sees it. The need's status tells the NGO
+// when a camp has cancelled a need it still has goods pledged for.
+export type NgoPledge = Tables<"ngo_assistance"> & {
+  camps: Pick<Tables<"camps">, "name" | "location"> | null;
+  camp_needs: Pick<Tables<"camp_needs">, "status" | "closed_reason" | "closed_at"> | null;
+  assistance_tracking_notes: TrackingNote[];
+};
+
+// A pledge as the receiving camp sees it
+export type CampDelivery = Tables<"ngo_assistance"> & {
+  profiles: Pick<Tables<"profiles">, "full_name" | "phone"> | null;
+  assistance_tracking_notes: TrackingNote[];
+};
+
+export type TrackingNote = Pick<Tables<"assistance_tracking_notes">, "id" | "note" | "created_at">;
+
+export function usePledges() {
+  return useQuery({
+    queryKey: queryKeys.pledges.mine(),
+    queryFn: async (): Promise<NgoPledge[]> => {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from("ngo_assistance")
+        .select(`
+          *,
+          camps (
+            name,
+            location
+          ),
+          camp_needs (
+            status,
+            closed_reason,
+            closed_at
+          ),
+          assistance_tracking_notes (
+            id,
+            note,
+            created_at
+          )
+        `)
+        .eq("ngo_id", userId)
+        .order("created_at", { ascending: false })
+        .order("created_at", { referencedTable: "assistance_tracking_notes" });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCampDeliveries(campId: string) {
+  return useQuery({
+    queryKey: queryKeys.pledges.forCamp(campId),
+    queryFn: async (): Promise<CampDelivery[]> => {
+      const { data, error } = await supabase
+        .from("ngo_assistance")
+        .select(`
+          *,
+          profiles!ngo_assistance_ngo_id_fkey (
+            full_name,
+            phone
+          ),
+          assistance_tracking_notes (
+            id,
+            note,
+            created_at
+          )
+        `)
+        .eq("camp_id", campId)
+        .order("created_at", { ascending: false })
+        .order("created_at", { referencedTable: "assistance_tracking_notes" });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function usePledgeAssistance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: PledgeAssistanceInput) => pledgeAssistance(input),
+    onMutate: async ({ needId, quantity }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.needs.all });
+      const previous = queryClient.getQueriesData<CampNeed[]>({ queryKey: queryKeys.needs.all });
+
+      // Count the pledge against the need straight away so the remaining quantity is right
+      queryClient.setQueriesData<CampNeed[]>({ queryKey: queryKeys.needs.all }, (current) =>
+        Array.isArray(current)
+          ? current.map((need) =>
+              need.id === needId ? { ...need, quantity_pledged: need.quantity_pledged + quantity } : need
+            )
+          : current
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all }),
+      ]),
+  });
+}
+
+export function useDispatchAssistance() {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.pledges.mine();
+
+  return useMutation({
+    mutationFn: ({ assistanceId, details }: { assistanceId: string; details: DispatchDetails }) =>
+      dispatchAssistance(assistanceId, details),
+    onMutate: async ({ assistanceId, details }) => {
+      await queryClient.cancelQueries({ queryKey: listKey });
+      const previous = queryClient.getQueryData<NgoPledge[]>(listKey);
+
+      queryClient.setQueryData<NgoPledge[]>(listKey, (current) =>
+        current?.map((pledge) =>
+          pledge.id === assistanceId
+            ? {
+                ...pledge,
+                delivery_status: "in_transit",
+                vehicle_number: details.vehicleNumber,
+                driver_name: details.driverName,
+                driver_phone: details.driverPhone,
+              }
+            : pledge
+        )
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(listKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all }),
+  });
+}
+
+export function useCancelAssistance() {
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.pledges.mine();
+
+  return useMutation({
+    mutationFn: ({ assistanceId, reason }: { assistanceId: string; reason: string }) =>
+      cancelAssistance(assistanceId, reason),
+    onMutate: async ({ assistanceId, reason }) => {
+      await queryClient.cancelQueries({ queryKey: listKey });
+      const previous = queryClient.getQueryData<NgoPledge[]>(listKey);
+
+      queryClient.setQueryData<NgoPledge[]>(listKey, (current) =>
+        current?.map((pledge) =>
+          pledge.id === assistanceId
+            ? {
+                ...pledge,
+                delivery_status: "cancelled",
+                cancellation_reason: reason,
+                cancelled_at: new Date().toISOString(),
+              }
+            : pledge
+        )
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(listKey, context?.previous);
+    },
+    // The need gets the cancelled quantity back
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+      ]),
+  });
+}
+
+export function useAddTrackingNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ assistanceId, note }: { assistanceId: string; note: string }) =>
+      addTrackingNote(assistanceId, note),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all }),
+  });
+}
+
+export function useDecidePledgeSurplus(campId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ assistanceId, accept }: { assistanceId: string; accept: boolean }) =>
+      decidePledgeSurplus(assistanceId, accept),
+    // A declined surplus frees up quantity on the need
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.pledges.forCamp(campId) }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+      ]),
+  });
+}
+
+// Goes through the outbox so a receipt can be confirmed at a camp without signal
+export function useConfirmReceipt(campId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ConfirmReceiptInput) =>
+      performMutation(campId, { kind: "confirm_delivery", payload: input }),
+    onSuccess: (result) => {
+      if (result === "queued") return;
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.needs.all }),
+      ]);
+    },
+  });
+}
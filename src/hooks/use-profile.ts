@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { requireUserId } from "@/lib/auth";
+import { queryKeys } from "@/lib/queryKeys";
+
+export type Profile = Tables<"profiles">;
+
+// Null when the account has no profile yet, i.e. onboarding hasn't been finished
+export function useMyProfile(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.profile.mine(),
+    enabled: options.enabled ?? true,
+    queryFn: async (): Promise<Profile | null> => {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { requireUserId } from "@/lib/auth";
+import { queryKeys } from "@/lib/queryKeys";
+import { requestRole, reviewRoleRequest, type RoleRequest, type RoleRequestInput } from "@/lib/roleRequests";
+
+export type QueuedRoleRequest = RoleRequest & {
+  profiles: Pick<Tables<"profiles">, "full_name" | "phone"> | null;
+};
+
+// The signed-in user's own requests, newest first
+export function useMyRoleRequests(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.roleRequests.mine(),
+    enabled: options.enabled ?? true,
+    queryFn: async (): Promise<RoleRequest[]> => {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Pending requests the signed-in user may decide on; RLS leaves out everything else
+export function useRoleRequestQueue() {
+  return useQuery({
+    queryKey: queryKeys.roleRequests.queue(),
+    queryFn: async (): Promise<QueuedRoleRequest[]> => {
+      const userId = await requireUserId();
+
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select(`
+          *,
+          profiles!role_requests_user_id_fkey (
+            full_name,
+            phone
+          )
+        `)
+        .eq("status", "pending")
+        .neq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useRequestRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RoleRequestInput) => requestRole(input),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.roleRequests.all }),
+  });
+}
+
+export function useReviewRoleRequest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId, approve, notes }: { requestId: string; approve: boolean; notes?: string }) =>
+      reviewRoleRequest(requestId, approve, notes),
+    onMutate: async ({ requestId }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.roleRequests.queue() });
+      const previous = queryClient.getQueryData<QueuedRoleRequest[]>(queryKeys.roleRequests.queue());
+
+      queryClient.setQueryData<QueuedRoleRequest[]>(queryKeys.roleRequests.queue(), (current) =>
+        current?.filter((request) => request.id !== requestId)
+      );
+
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      queryClient.setQueryData(queryKeys.roleRequests.queue(), context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.roleRequests.all }),
+  });
+}
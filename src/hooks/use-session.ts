@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { clearOfflineDataCache } from "@/lib/serviceWorker";
+
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, current) => {
+      setSession(current);
+      setLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data: { session: current } }) => {
+      setSession(current);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { session, loading };
+}
+
+// Drops everything cached for this account so the next person on the device starts clean
+export function useSignOut() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  return async () => {
+    clearOfflineDataCache();
+    await supabase.auth.signOut();
+    queryClient.clear();
+    navigate("/auth");
+  };
+}
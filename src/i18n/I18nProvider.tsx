@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { I18nContext, type I18nContextValue, type MessageValues } from "./context";
+import { en, type MessageKey } from "./messages/en";
+import { AVAILABLE_LANGUAGES, DEFAULT_LANGUAGE, isLanguage, languages, type Language } from "./languages";
+
+const LANGUAGE_KEY = "preferred-language";
+
+const storedLanguage = (): Language => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return isLanguage(stored) && AVAILABLE_LANGUAGES.includes(stored) ? stored : DEFAULT_LANGUAGE;
+};
+
+const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [language, setLanguageState] = useState<Language>(storedLanguage);
+  const languageRef = useRef(language);
+  const userIdRef = useRef<string | null>(null);
+
+  const applyLanguage = (next: Language) => {
+    languageRef.current = next;
+    setLanguageState(next);
+    localStorage.setItem(LANGUAGE_KEY, next);
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // The profile is the source of truth once signed in. Accounts that never
+  // picked a language keep the one chosen before signing in.
+  useEffect(() => {
+    const syncProfileLanguage = async (userId: string) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("preferred_language")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error || !data) {
+        if (error) console.error("Error fetching language preference:", error);
+        return;
+      }
+
+      if (isLanguage(data.preferred_language) && AVAILABLE_LANGUAGES.includes(data.preferred_language)) {
+        applyLanguage(data.preferred_language);
+      } else {
+        await supabase
+          .from("profiles")
+          .update({ preferred_language: languageRef.current })
+          .eq("id", userId);
+      }
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      const userId = session?.user.id ?? null;
+      if (userId && userId !== userIdRef.current) {
+        syncProfileLanguage(userId);
+      }
+      userIdRef.current = userId;
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    applyLanguage(next);
+    if (!userIdRef.current) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ preferred_language: next })
+      .eq("id", userIdRef.current);
+
+    if (error) {
+      console.error("Error saving language preference:", error);
+      toast.error(languages[next].messages["common.languageSaveFailed"] || en["common.languageSaveFailed"]);
+    }
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const { messages, intlLocale, dateLocale } = languages[language];
+    const numberFormat = new Intl.NumberFormat(intlLocale);
+    const formatNumber = (n: number) => numberFormat.format(n);
+
+    const t = (key: MessageKey, values?: MessageValues) => {
+      const template = messages[key] ?? en[key] ?? key;
+      if (!values) return template;
+      return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const replacement = values[name];
+        if (replacement === undefined) return match;
+        return typeof replacement === "number" ? formatNumber(replacement) : replacement;
+      });
+    };
+
+    return {
+      language,
+      setLanguage,
+      t,
+      label: (group, raw) => {
+        const key = `${group}.${raw}`;
+        return key in en ? t(key as MessageKey) : raw;
+      },
+      formatNumber,
+      formatDate: (date, options = { dateStyle: "medium" }) =>
+        new Intl.DateTimeFormat(intlLocale, options).format(new Date(date)),
+      formatRelative: (date) => formatDistanceToNow(new Date(date), { addSuffix: true, locale: dateLocale }),
+      dateLocale,
+    };
+  }, [language, setLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,20 @@
+import { createContext } from "react";
+import type { Locale } from "date-fns";
+import type { MessageKey } from "./messages/en";
+import type { Language } from "./languages";
+
+export type MessageValues = Record<string, string | number>;
+
+export interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  // Looks up "<group>.<value>" for database enum values, falling back to the raw value
+  label: (group: string, value: string) => string;
+  formatNumber: (value: number) => string;
+  formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatRelative: (date: string | Date) => string;
+  dateLocale: Locale;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
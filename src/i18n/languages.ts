@@ -0,0 +1,60 @@
+import type { FormatDistanceFn, FormatDistanceToken, Locale } from "date-fns";
+import { enIN, hi, ta } from "date-fns/locale";
+import { en, type Messages } from "./messages/en";
+import { ml } from "./messages/ml";
+
+// Matches the CHECK on profiles.preferred_language
+export type Language = "en" | "ml" | "ta" | "hi";
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const mlDistance: Record<FormatDistanceToken, string> = {
+  lessThanXSeconds: "{count} സെക്കൻഡിൽ താഴെ",
+  xSeconds: "{count} സെക്കൻഡ്",
+  halfAMinute: "അര മിനിറ്റ്",
+  lessThanXMinutes: "{count} മിനിറ്റിൽ താഴെ",
+  xMinutes: "{count} മിനിറ്റ്",
+  aboutXHours: "ഏകദേശം {count} മണിക്കൂർ",
+  xHours: "{count} മണിക്കൂർ",
+  xDays: "{count} ദിവസം",
+  aboutXWeeks: "ഏകദേശം {count} ആഴ്ച",
+  xWeeks: "{count} ആഴ്ച",
+  aboutXMonths: "ഏകദേശം {count} മാസം",
+  xMonths: "{count} മാസം",
+  aboutXYears: "ഏകദേശം {count} വർഷം",
+  xYears: "{count} വർഷം",
+  overXYears: "{count} വർഷത്തിലധികം",
+  almostXYears: "ഏകദേശം {count} വർഷം",
+};
+
+const mlFormatDistance: FormatDistanceFn = (token, count, options) => {
+  const distance = mlDistance[token].replace("{count}", String(count));
+  if (!options?.addSuffix) return distance;
+  return options.comparison && options.comparison > 0 ? `${distance} കഴിഞ്ഞ്` : `${distance} മുമ്പ്`;
+};
+
+// date-fns ships no Malayalam locale, so relative times reuse en-IN with
+// Malayalam wording; calendar dates go through Intl, which has ml-IN data
+const mlIN: Locale = { ...enIN, code: "ml", formatDistance: mlFormatDistance };
+
+interface LanguageDefinition {
+  // Shown in the switcher in the language's own script
+  nativeName: string;
+  intlLocale: string;
+  dateLocale: Locale;
+  messages: Partial<Messages>;
+}
+
+export const languages: Record<Language, LanguageDefinition> = {
+  en: { nativeName: "English", intlLocale: "en-IN", dateLocale: enIN, messages: en },
+  ml: { nativeName: "മലയാളം", intlLocale: "ml-IN", dateLocale: mlIN, messages: ml },
+  ta: { nativeName: "தமிழ்", intlLocale: "ta-IN", dateLocale: ta, messages: {} },
+  hi: { nativeName: "हिन्दी", intlLocale: "hi-IN", dateLocale: hi, messages: {} },
+};
+
+// Tamil and Hindi are offered once their message files are translated
+export const AVAILABLE_LANGUAGES: Language[] = ["en", "ml"];
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && value in languages;
+}
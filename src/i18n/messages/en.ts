@@ -0,0 +1,613 @@
+// English is the source language: every key used in the app is defined here,
+// and other languages fall back to these strings for anything they lack.
+export const en = {
+  "app.name": "Kerala Relief Hub",
+  "app.tagline": "Disaster relief coordination platform",
+
+  "common.loading": "Loading...",
+  "common.signOut": "Sign Out",
+  "common.language": "Language",
+  "common.item": "Item",
+  "common.camp": "Camp",
+  "common.map": "Map",
+  "common.campNeeds": "Camp Needs",
+  "common.allCamps": "All Camps",
+  "common.seatsAvailable": "seats available",
+  "common.received": "received",
+  "common.pledgedCount": "{count} pledged",
+  "common.languageSaveFailed": "Could not save your language preference",
+  "common.retry": "Retry",
+  "common.save": "Save",
+  "common.accept": "Accept",
+  "common.decline": "Decline",
+  "common.years": "{count} yrs",
+  "common.fullName": "Full Name",
+  "common.gender": "Gender",
+  "common.selectGender": "Select gender",
+  "common.villagePlaceholder": "Village or ward",
+
+  "urgency.low": "Low",
+  "urgency.medium": "Medium",
+  "urgency.high": "High",
+  "urgency.critical": "Critical",
+
+  "needStatus.pending": "Open",
+  "needStatus.partial": "Partly received",
+  "needStatus.fulfilled": "Fulfilled",
+  "needStatus.expired": "Expired",
+  "needStatus.closed": "Closed",
+  "needStatus.cancelled": "Cancelled",
+
+  "campAvailability.available": "Available",
+  "campAvailability.full": "Full",
+
+  "campStatus.active": "Open",
+  "campStatus.full": "Full",
+  "campStatus.inactive": "Suspended",
+  "campStatus.closed": "Closed",
+
+  "verification.unsubmitted": "Not submitted",
+  "verification.pending": "Pending verification",
+  "verification.verified": "Verified",
+  "verification.rejected": "Rejected",
+
+  "campRole.owner": "Owner",
+  "campRole.manager": "Manager",
+  "campRole.registrar": "Registrar",
+  "campRole.storekeeper": "Storekeeper",
+
+  "appRole.user": "Citizen",
+  "appRole.camp": "Camp",
+  "appRole.ngo": "NGO",
+  "appRole.admin": "Administrator",
+
+  "campRoleHint.owner": "Full access, including the camp team",
+  "campRoleHint.manager": "Camp details, needs, deliveries, stock, evacuees and inviting staff",
+  "campRoleHint.registrar": "Evacuee registry and reunification",
+  "campRoleHint.storekeeper": "Needs, incoming deliveries and stock",
+
+  "gender.female": "Female",
+  "gender.male": "Male",
+  "gender.other": "Other",
+
+  "deliveryStatus.pledged": "Pledged",
+  "deliveryStatus.in_transit": "In Transit",
+  "deliveryStatus.delivered": "Delivered",
+  "deliveryStatus.cancelled": "Cancelled",
+
+  "movementType.delivery": "NGO delivery",
+  "movementType.stock_in": "Stock in",
+  "movementType.distribution": "Distributed",
+  "movementType.stock_out": "Stock out",
+
+  "matchStatus.pending": "Pending",
+  "matchStatus.approved": "Approved",
+  "matchStatus.rejected": "Rejected",
+
+  "reportStatus.open": "Open",
+  "reportStatus.matched": "Matched",
+  "reportStatus.closed": "Closed",
+
+  "catalogueCategory.food": "Food",
+  "catalogueCategory.water": "Water",
+  "catalogueCategory.hygiene": "Hygiene",
+  "catalogueCategory.medical": "Medical",
+  "catalogueCategory.clothing": "Clothing",
+  "catalogueCategory.bedding": "Bedding",
+  "catalogueCategory.baby_care": "Baby Care",
+  "catalogueCategory.household": "Household",
+
+  "index.intro": "Coordinating disaster relief efforts across Kerala. Connect camps, volunteers, and NGOs in times of crisis.",
+  "index.citizensTitle": "For Citizens",
+  "index.citizensBody": "Find nearby relief camps, register as a volunteer, and help your community during disasters.",
+  "index.campsTitle": "For Camps",
+  "index.campsBody": "Manage camp capacity, list urgent needs, and coordinate with volunteers and NGOs.",
+  "index.ngosTitle": "For NGOs",
+  "index.ngosBody": "View camp requirements, provide supplies, and coordinate relief operations efficiently.",
+  "index.getStarted": "Get Started",
+
+  "auth.signIn": "Sign In",
+  "auth.signUp": "Sign Up",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.signingIn": "Signing in...",
+  "auth.fullName": "Full Name",
+  "auth.fullNamePlaceholder": "Your name",
+  "auth.phone": "Phone Number",
+  "auth.accountType": "Account Type",
+  "auth.roleUser": "User",
+  "auth.roleUserHint": "Search camps & volunteer",
+  "auth.roleCamp": "Camp",
+  "auth.roleCampHint": "Manage relief camp",
+  "auth.roleNgo": "NGO",
+  "auth.roleNgoHint": "Provide assistance",
+  "auth.creatingAccount": "Creating account...",
+  "auth.createAccount": "Create Account",
+  "auth.accountCreated": "Account created successfully!",
+  "auth.createFailed": "Failed to create account",
+  "auth.signedIn": "Signed in successfully!",
+  "auth.signInFailed": "Failed to sign in",
+  "auth.phoneTab": "Phone",
+  "auth.phoneHint": "We'll text a {length}-digit code to this number.",
+  "auth.firstTimeOnly": "Only needed the first time you use this number",
+  "auth.sendCode": "Send Code",
+  "auth.sendingCode": "Sending code...",
+  "auth.codeSent": "Enter the code sent to {phone}",
+  "auth.verifyCode": "Verify",
+  "auth.verifying": "Verifying...",
+  "auth.resendCode": "Resend code",
+  "auth.changeNumber": "Use a different number",
+  "auth.invalidPhone": "Enter a valid mobile number",
+  "auth.sendCodeFailed": "Could not send the code",
+  "auth.verifyFailed": "That code is wrong or has expired",
+  "auth.roleNeedsApproval": "Camp and NGO accounts start with citizen access until a reviewer approves them.",
+  "auth.accessRequested": "Your {role} access request has been sent for review.",
+
+  "account.linkPhone": "Add Phone Sign-in",
+  "account.linkPhoneTitle": "Sign in with your phone",
+  "account.linkPhoneBody": "Confirm your mobile number to sign in to this same account with a one-time code, without your password.",
+  "account.phoneLinked": "Phone number confirmed. You can now sign in with it.",
+  "account.linkPhoneFailed": "Could not confirm your phone number",
+
+  "roleRequest.title": "Running a camp or an NGO?",
+  "roleRequest.body": "Ask for camp or NGO access. An administrator or a verified organisation reviews every request.",
+  "roleRequest.request": "Request Access",
+  "roleRequest.dialogTitle": "Request camp or NGO access",
+  "roleRequest.organization": "Camp or organisation name",
+  "roleRequest.message": "Message for the reviewer",
+  "roleRequest.messagePlaceholder": "Who you are and why you need access",
+  "roleRequest.submit": "Send Request",
+  "roleRequest.submitFailed": "Could not send your request",
+  "roleRequest.pendingTitle": "Access request pending",
+  "roleRequest.pendingBody": "You asked for {role} access on {date}. You keep citizen access until it is reviewed.",
+  "roleRequest.rejectedTitle": "Access request declined",
+  "roleRequest.rejectedBody": "Your request for {role} access was declined.",
+  "roleRequest.queueTitle": "Access Requests",
+  "roleRequest.none": "No access requests are waiting for review",
+  "roleRequest.requestedBy": "{name} asked for {role} access",
+  "roleRequest.reviewNotes": "Note for the applicant (optional)",
+  "roleRequest.approve": "Approve",
+  "roleRequest.reject": "Decline",
+  "roleRequest.approved": "Access granted",
+  "roleRequest.rejected": "Request declined",
+  "roleRequest.reviewFailed": "Could not review the request",
+
+  "guard.profileFailed": "We couldn't load your profile. Check your connection and try again.",
+
+  "onboarding.title": "Finish setting up your account",
+  "onboarding.subtitle": "Your account doesn't have a type yet. Choose how you'll use the platform to open the right dashboard.",
+  "onboarding.continue": "Continue",
+  "onboarding.saving": "Saving...",
+  "onboarding.saveFailed": "Could not save your account details",
+
+  "user.title": "Relief Camps",
+  "user.subtitle": "Find nearby camps and volunteer",
+  "user.findCamps": "Find Camps",
+  "user.missingPersons": "Missing Persons",
+  "user.searchPlaceholder": "Search by camp name or location...",
+  "user.placePlaceholder": "PIN code or village to find the nearest camp...",
+  "user.findNearest": "Find Nearest",
+  "user.locating": "Locating...",
+  "user.nearMe": "Near Me",
+  "user.yourLocation": "your location",
+  "user.showingNearest": "Showing camps with free seats, nearest to {place}",
+  "user.clear": "Clear",
+  "user.loadingCamps": "Loading camps...",
+  "user.noCamps": "No camps found",
+  "user.contact": "Contact:",
+  "user.directions": "Directions",
+  "user.distanceUnknown": "Distance unknown: camp has no map location",
+  "user.registerVolunteer": "Register as Volunteer",
+  "user.loadFailed": "Failed to load camps",
+  "user.volunteerRegistered": "Successfully registered as volunteer!",
+  "user.alreadyVolunteer": "You're already registered for this camp",
+  "user.volunteerFailed": "Failed to register as volunteer",
+  "user.locationUnavailable": "Location is not available on this device",
+  "user.locationFailed": "Could not get your location. Try a PIN code or village instead.",
+  "user.placeNotFound": "Couldn't find that PIN code or place",
+
+  "geo.metres": "{distance} m",
+  "geo.kilometres": "{distance} km",
+  "geo.direction.north": "north",
+  "geo.direction.north_east": "north-east",
+  "geo.direction.east": "east",
+  "geo.direction.south_east": "south-east",
+  "geo.direction.south": "south",
+  "geo.direction.south_west": "south-west",
+  "geo.direction.west": "west",
+  "geo.direction.north_west": "north-west",
+
+  "missing.intro": "Looking for a relative? File a report and we'll match it against evacuees in every camp.",
+  "missing.report": "Report Missing Person",
+  "missing.dialogTitle": "I'm Looking For",
+  "missing.age": "Approximate Age",
+  "missing.homeVillage": "Home Village",
+  "missing.description": "Description (Optional)",
+  "missing.descriptionPlaceholder": "Last seen, clothing, relation to you",
+  "missing.contactPhone": "Your Contact Phone",
+  "missing.file": "File Report",
+  "missing.none": "You haven't filed any search reports",
+  "missing.noMatches": "No matches yet. New check-ins at every camp are checked automatically.",
+  "missing.confirmedAt": "Confirmed at {camp}",
+  "missing.possibleAt": "Possible match at {camp}",
+  "missing.awaitingCamp": "Awaiting confirmation from the camp before details are shared",
+  "missing.close": "Close Report",
+  "missing.filed": "Search report filed. We'll check every camp for a match.",
+  "missing.fileFailed": "Failed to file report",
+  "missing.closed": "Report closed",
+  "missing.closeFailed": "Failed to close report",
+  "missing.loadFailed": "Failed to load your search reports",
+
+  "map.seatsAvailable": "{count} / {total} seats available",
+  "map.criticalNeeds": "{count} critical need(s) outstanding",
+  "map.contact": "Contact: {phone}",
+  "map.legendAvailable": "Seats available",
+  "map.legendNearlyFull": "Nearly full",
+  "map.legendFull": "Full",
+  "map.legendCritical": "Critical needs",
+  "map.unmapped": "{count} camp(s) without a location",
+  "map.tapToMark": "Tap the map to mark the camp",
+  "map.useMyLocation": "Use My Location",
+  "map.locationUnavailable": "Location is not available on this device",
+  "map.locationFailed": "Could not get your current location",
+
+  "camp.title": "Camp Management",
+  "camp.loadFailed": "Failed to load camp data",
+  "camp.noCampTitle": "No Camp Registered",
+  "camp.noCampBody": "Create your relief camp to start managing capacity and needs, or ask a camp owner to invite you",
+  "camp.createCamp": "Create Camp",
+  "camp.addCamp": "Add Camp",
+  "camp.summaryAcross": "Summary across {count} camps you manage",
+  "camp.rejectedDefault": "Your camp registration was not approved.",
+  "camp.hiddenUntilVerified": "Your camp and its needs are hidden from NGOs and citizens until a district official verifies it.",
+  "camp.resubmit": "Resubmit",
+  "camp.resubmitTitle": "Resubmit for Verification",
+  "camp.registrationLabel": "Government Order / Registration Number",
+  "camp.resubmitted": "Resubmitted for verification",
+  "camp.resubmitFailed": "Failed to resubmit",
+  "camp.totalCapacity": "Total Capacity",
+  "camp.occupied": "Occupied",
+  "camp.available": "Available",
+  "camp.deliveries": "Deliveries",
+  "camp.inventory": "Inventory",
+  "camp.evacuees": "Evacuee Registry",
+  "camp.reunification": "Reunification",
+  "camp.team": "Team",
+  "camp.addNeed": "Add Need",
+  "camp.addNeedTitle": "Add Item Need",
+  "camp.quantityNeeded": "Quantity Needed",
+  "camp.urgencyLevel": "Urgency Level",
+  "camp.selectUrgency": "Select urgency",
+  "camp.noNeeds": "No needs listed yet",
+  "camp.raisedFromLowStock": "raised from low stock",
+  "camp.chooseItem": "Choose an item",
+  "camp.needAdded": "Need added successfully!",
+  "camp.addNeedFailed": "Failed to add need",
+  "camp.neededUntil": "Needed Until (Optional)",
+  "camp.neededUntilHint": "The need expires after this time if it is still open",
+  "camp.expires": "expires {time}",
+
+  "needs.escalated": "Escalated",
+  "needs.unansweredFor": "Unanswered for {hours} h",
+  "needs.tranche": "Tranche",
+  "needs.dueFrom": "due {time}",
+  "needs.cancelledBecause": "Cancelled: {reason}",
+
+  "needActions.edit": "Edit need",
+  "needActions.save": "Save changes",
+  "needActions.discard": "Discard changes",
+  "needActions.saved": "Need updated",
+  "needActions.saveFailed": "Failed to update need",
+  "needActions.splitNeed": "Split into tranches",
+  "needActions.splitTitle": "Split {item}",
+  "needActions.splitBody": "{count} still unpledged will be spread over the tranches. What has been received or pledged stays with the first one.",
+  "needActions.tranches": "Tranches",
+  "needActions.intervalHours": "Hours between tranches",
+  "needActions.perTranche": "About {count} per tranche",
+  "needActions.splitDone": "Need split into {count} tranches",
+  "needActions.splitFailed": "Failed to split need",
+  "needActions.cancelNeed": "Cancel need",
+  "needActions.cancelTitle": "Cancel {item}",
+  "needActions.cancelBody": "The need is taken off the list NGOs see.",
+  "needActions.cancelBodyPledged": "NGOs still have {count} pledged for this need. They will see your reason against their pledges.",
+  "needActions.reason": "Reason",
+  "needActions.reasonPlaceholder": "e.g. Supplied by the district office",
+  "needActions.cancelled": "Need cancelled",
+  "needActions.cancelFailed": "Failed to cancel need",
+
+  "campEdit.edit": "Edit Camp",
+  "campEdit.title": "Edit Camp Details",
+  "campEdit.name": "Camp Name",
+  "campEdit.location": "Location",
+  "campEdit.mapLocation": "Map Location",
+  "campEdit.capacityHint": "{count} evacuees are checked in. The camp shows as full once every seat is taken.",
+  "campEdit.phone": "Contact Phone",
+  "campEdit.email": "Contact Email (Optional)",
+  "campEdit.save": "Save Changes",
+  "campEdit.saving": "Saving...",
+  "campEdit.saved": "Camp details updated",
+  "campEdit.saveFailed": "Could not update the camp",
+
+  "createCamp.title": "Create Relief Camp",
+  "createCamp.capacityHint": "Occupancy is tracked from evacuee check-ins",
+  "createCamp.created": "Camp created! It will be visible to others once verified.",
+  "createCamp.failed": "Failed to create camp",
+
+  "verificationForm.registrationNumber": "Registration Number",
+  "verificationForm.document": "Supporting Document",
+  "verificationForm.documentHint": "Government order, registration certificate or authorisation letter",
+
+  "campsSummary.title": "Camps Overview",
+  "campsSummary.camps": "Camps",
+  "campsSummary.openNeeds": "Open Needs",
+  "campsSummary.critical": "{count} critical",
+  "campsSummary.openNeedsCount": "{count} open needs",
+
+  "campTeam.title": "Camp Team",
+  "campTeam.subtitle": "Everyone on shift signs in with their own account",
+  "campTeam.invite": "Invite Staff",
+  "campTeam.inviteTitle": "Invite Staff Member",
+  "campTeam.role": "Role",
+  "campTeam.selectRole": "Select role",
+  "campTeam.sendInvite": "Send Invite",
+  "campTeam.you": "(you)",
+  "campTeam.leave": "Leave",
+  "campTeam.pendingInvites": "Pending Invites",
+  "campTeam.revoke": "Revoke",
+  "campTeam.inviteSent": "Invite sent. They will see it after signing in with that email.",
+  "campTeam.inviteFailed": "Failed to send invite",
+  "campTeam.inviteRevoked": "Invite revoked",
+  "campTeam.revokeFailed": "Failed to revoke invite",
+  "campTeam.roleUpdated": "Role updated",
+  "campTeam.roleFailed": "Failed to update role",
+  "campTeam.left": "You have left this camp",
+  "campTeam.removed": "Member removed",
+  "campTeam.removeFailed": "Failed to remove member",
+
+  "campInvites.title": "Camp Invitations",
+  "campInvites.invitedBy": "invited by {name}",
+  "campInvites.joined": "You have joined the camp team",
+  "campInvites.declined": "Invite declined",
+  "campInvites.respondFailed": "Failed to respond to invite",
+
+  "evacuees.checkedInCount": "{count} currently checked in",
+  "evacuees.waitingCount": "{count} waiting to sync",
+  "evacuees.checkIn": "Check In",
+  "evacuees.checkInTitle": "Check In Evacuee",
+  "evacuees.age": "Age",
+  "evacuees.familyGroup": "Family Group (Optional)",
+  "evacuees.familyGroupPlaceholder": "e.g. Thomas family, House no. 12",
+  "evacuees.homeVillage": "Home Village (Optional)",
+  "evacuees.specialNeeds": "Special Needs (Optional)",
+  "evacuees.specialNeedsPlaceholder": "Medication, mobility, infant care, etc.",
+  "evacuees.searchPlaceholder": "Search by name or family group...",
+  "evacuees.showCheckedOut": "Show Checked Out",
+  "evacuees.hideCheckedOut": "Hide Checked Out",
+  "evacuees.none": "No evacuees found",
+  "evacuees.inCamp": "In camp",
+  "evacuees.checkedOut": "Checked out",
+  "evacuees.checkOut": "Check Out",
+  "evacuees.checkedInToast": "Evacuee checked in",
+  "evacuees.checkInFailed": "Failed to check in evacuee",
+  "evacuees.checkedOutName": "{name} checked out",
+  "evacuees.checkedInAgainName": "{name} checked in again",
+  "evacuees.updateFailed": "Failed to update evacuee",
+  "evacuees.loadFailed": "Failed to load evacuee registry",
+
+  "reunification.title": "Family Reunification",
+  "reunification.subtitle": "Families searching for someone who may be in this camp. Details are only shared after you confirm.",
+  "reunification.none": "No possible matches right now",
+  "reunification.lookingFor": "Family is looking for",
+  "reunification.registeredHere": "Registered in this camp",
+  "reunification.familyContact": "Family contact:",
+  "reunification.notMatch": "Not a Match",
+  "reunification.confirm": "Confirm Match",
+  "reunification.confirmed": "Match confirmed to family",
+  "reunification.dismissed": "Match dismissed",
+  "reunification.reviewFailed": "Failed to review match",
+
+  "deliveries.none": "No pledges or deliveries yet",
+  "deliveries.expected": "Expected",
+  "deliveries.received": "Received",
+  "deliveries.cancelledByNgo": "Cancelled by the NGO",
+  "deliveries.from": "From {name}",
+  "deliveries.receivedCount": "{count} received",
+  "deliveries.receivedOfPledged": "{count} received (pledged {pledged})",
+  "deliveries.receiptWaiting": "Receipt waiting to sync",
+  "deliveries.confirmReceipt": "Confirm Receipt",
+  "deliveries.quantityReceived": "Quantity Received",
+  "deliveries.pledgedHint": "Pledged: {count}. Enter what actually arrived.",
+  "deliveries.notes": "Notes (Optional)",
+  "deliveries.notesPlaceholder": "Damaged items, shortfall, etc.",
+  "deliveries.confirmed": "Delivery receipt confirmed",
+  "deliveries.confirmFailed": "Failed to confirm receipt",
+  "deliveries.surplusPending": "Includes {count} over what the need asked for",
+  "deliveries.surplusAccepted": "Includes {count} surplus you accepted",
+  "deliveries.surplusDeclined": "You declined {count} surplus",
+  "deliveries.acceptSurplus": "Accept Surplus",
+  "deliveries.declineSurplus": "Decline Surplus",
+  "deliveries.surplusAcceptedToast": "Surplus accepted",
+  "deliveries.surplusDeclinedToast": "Surplus declined",
+  "deliveries.surplusDecisionFailed": "Failed to record your decision",
+
+  "deliveryTracker.none": "No pledges yet",
+  "deliveryTracker.loadFailed": "Failed to load deliveries",
+  "deliveryTracker.status": "Status",
+  "deliveryTracker.allStatuses": "All statuses",
+  "deliveryTracker.pledgedFrom": "Pledged from",
+  "deliveryTracker.pledgedUntil": "Pledged until",
+  "deliveryTracker.clearFilters": "Clear filters",
+  "deliveryTracker.noMatches": "No pledges match these filters",
+  "deliveryTracker.needCancelled": "The camp cancelled this need",
+  "deliveryTracker.needCancelledReason": "The camp cancelled this need: {reason}",
+  "deliveryTracker.pledged": "pledged",
+  "deliveryTracker.receivedByCamp": "received by camp",
+  "deliveryTracker.pledgedAt": "Pledged {time}",
+  "deliveryTracker.dispatchedAt": "Dispatched {time}",
+  "deliveryTracker.receivedAt": "Received {time}",
+  "deliveryTracker.cancelledAt": "Cancelled {time}",
+  "deliveryTracker.trackingNote": "Tracking note",
+  "deliveryTracker.trackingNotePlaceholder": "Add a tracking note for the camp",
+  "deliveryTracker.addNote": "Add",
+  "deliveryTracker.noteFailed": "Failed to add note",
+  "deliveryTracker.markDispatched": "Mark Dispatched",
+  "deliveryTracker.dispatchTitle": "Dispatch Details",
+  "deliveryTracker.vehicleNumber": "Vehicle Number",
+  "deliveryTracker.driverName": "Driver Name",
+  "deliveryTracker.driverPhone": "Driver Phone",
+  "deliveryTracker.confirmDispatch": "Confirm Dispatch",
+  "deliveryTracker.dispatched": "Marked as dispatched",
+  "deliveryTracker.dispatchFailed": "Failed to update delivery",
+  "deliveryTracker.cancelPledge": "Cancel Pledge",
+  "deliveryTracker.cancelBody": "The camp sees your reason, and the quantity goes back on the need for other NGOs to pledge.",
+  "deliveryTracker.reason": "Reason",
+  "deliveryTracker.reasonPlaceholder": "Stock ran out, vehicle unavailable, etc.",
+  "deliveryTracker.cancelled": "Pledge cancelled",
+  "deliveryTracker.cancelFailed": "Failed to cancel pledge",
+  "deliveryTracker.surplusPending": "{count} surplus waiting for the camp to accept",
+  "deliveryTracker.surplusAccepted": "{count} surplus accepted by the camp",
+  "deliveryTracker.surplusDeclined": "{count} surplus declined by the camp",
+
+  "inventory.subtitle": "Confirmed deliveries are added automatically",
+  "inventory.addItem": "Add Item",
+  "inventory.addItemTitle": "Add Inventory Item",
+  "inventory.none": "No stock recorded yet",
+  "inventory.lowStock": "Low stock",
+  "inventory.expired": "Expired",
+  "inventory.expires": "Expires {date}",
+  "inventory.onHand": "{count} {unit} on hand",
+  "inventory.thresholdValue": "threshold {count}",
+  "inventory.stockIn": "Stock In",
+  "inventory.issue": "Issue",
+  "inventory.stockInTitle": "Stock In: {item}",
+  "inventory.issueTitle": "Issue Stock: {item}",
+  "inventory.levelsTitle": "Stock Levels: {item}",
+  "inventory.ledgerTitle": "Stock Ledger: {item}",
+  "inventory.unit": "Unit",
+  "inventory.unitPlaceholder": "kg, packets, litres…",
+  "inventory.threshold": "Low-stock Threshold",
+  "inventory.restockTo": "Restock To",
+  "inventory.thresholdHint": "When stock falls to the threshold a need is raised automatically for the shortfall",
+  "inventory.reason": "Reason",
+  "inventory.distributionOption": "Distribution to evacuee",
+  "inventory.otherOption": "Other (expired, damaged, transferred)",
+  "inventory.evacuee": "Evacuee",
+  "inventory.selectEvacuee": "Select evacuee",
+  "inventory.batch": "Batch",
+  "inventory.earliestExpiry": "Earliest expiry first",
+  "inventory.unbatched": "Unbatched",
+  "inventory.batchExpiry": "exp {date}",
+  "inventory.batchLeft": "{count} left",
+  "inventory.quantity": "Quantity ({unit})",
+  "inventory.batchNumber": "Batch Number (Optional)",
+  "inventory.expiryDate": "Expiry Date (Optional)",
+  "inventory.notes": "Notes (Optional)",
+  "inventory.noMovements": "No movements yet",
+  "inventory.batchRef": "batch {batch}",
+  "inventory.balance": "bal. {count}",
+  "inventory.itemAdded": "Item added to inventory",
+  "inventory.addFailed": "Failed to add item",
+  "inventory.levelsUpdated": "Stock levels updated",
+  "inventory.updateFailed": "Failed to update item",
+  "inventory.stockUpdated": "Stock updated",
+  "inventory.movementFailed": "Failed to record stock movement",
+  "inventory.loadFailed": "Failed to load inventory",
+
+  "campLifecycle.title": "Camp status",
+  "campLifecycle.activeHint": "Taking in evacuees",
+  "campLifecycle.fullHint": "No seats free; reopens for arrivals when someone checks out",
+  "campLifecycle.inactiveHint": "Suspended",
+  "campLifecycle.closedHint": "Closed",
+  "campLifecycle.since": "since {date}",
+  "campLifecycle.to_active": "Reopen",
+  "campLifecycle.to_full": "Mark Full",
+  "campLifecycle.to_inactive": "Suspend",
+  "campLifecycle.to_closed": "Close Camp",
+  "campLifecycle.statusChanged": "Camp is now {status}",
+  "campLifecycle.statusFailed": "Could not change the camp status",
+  "campLifecycle.reason": "Reason",
+  "campLifecycle.suspendTitle": "Suspend camp",
+  "campLifecycle.suspendBody": "A suspended camp stops taking in evacuees until it is reopened.",
+  "campLifecycle.suspendReasonPlaceholder": "Flooded access road, repairs, ...",
+  "campLifecycle.closeTitle": "Close camp",
+  "campLifecycle.closeBody": "Closing is final. Move every evacuee to another camp or check them out first.",
+  "campLifecycle.closeReasonPlaceholder": "Water has receded, evacuees moved to ...",
+  "campLifecycle.evacueesCleared": "No evacuees are checked in",
+  "campLifecycle.evacueesRemaining": "{count} evacuees are still checked in",
+  "campLifecycle.openRegistry": "Open the registry",
+  "campLifecycle.deliveriesCleared": "No deliveries are on their way",
+  "campLifecycle.deliveriesRemaining": "{count} deliveries are pledged or on their way; tell the NGOs",
+  "campLifecycle.needsCleared": "No open needs",
+  "campLifecycle.needsRemaining": "{count} needs are still open; they close with the camp",
+  "campLifecycle.transferConfirm": "Every evacuee's destination camp or home address is recorded, and families searching for them can still be told",
+
+  "offline.offline": "You're offline",
+  "offline.backOnline": "Back online",
+  "offline.needsAttention": "Some offline changes need attention",
+  "offline.savedLocally": "Changes you make are saved on this device and sync when the connection returns.",
+  "offline.pendingCount": "{count} change(s) waiting to sync",
+  "offline.conflictsHelp": "The server rejected these changes. Retry them or discard them.",
+  "offline.syncNow": "Sync Now",
+  "offline.syncing": "Syncing...",
+  "offline.synced": "{count} offline change(s) synced",
+  "offline.conflictsFound": "{count} offline change(s) could not be synced",
+  "offline.stillRejected": "The server rejected the change again",
+  "offline.retry": "Retry",
+  "offline.discard": "Discard",
+  "offline.recordedAt": "Recorded {time}",
+  "offline.registerEvacuee": "Check in {name}",
+  "offline.addNeed": "Add need: {item} ({count})",
+  "offline.confirmDelivery": "Confirm delivery receipt ({count} received)",
+  "offline.waitingToSync": "Waiting to sync",
+  "offline.savedOffline": "Saved offline. It will sync when the connection returns.",
+
+  "live.updatedJustNow": "Updated just now",
+  "live.updatedAgo": "Updated {time}",
+  "live.connected": "Live updates on",
+  "live.disconnected": "Live updates paused; showing the last loaded data",
+  "live.newlyCritical": "Newly critical",
+
+  "ngo.title": "NGO Dashboard",
+  "ngo.subtitle": "Coordinate relief operations",
+  "ngo.loadFailed": "Failed to load data",
+  "ngo.myPledges": "My Pledges",
+  "ngo.cancelledNeedPledges": "Pledges for needs the camp has cancelled",
+  "ngo.noNeeds": "No urgent needs at the moment",
+  "ngo.provideAssistance": "Provide Assistance",
+  "ngo.substituteHint": "You can pick a substitute from the same category",
+  "ngo.equivalentHint": "Pick a catalogue item if you are sending something equivalent",
+  "ngo.quantityToProvide": "Quantity to Provide",
+  "ngo.remainingNeeded": "Remaining needed: {count}",
+  "ngo.notes": "Notes (Optional)",
+  "ngo.notesPlaceholder": "Delivery details, timeline, etc.",
+  "ngo.pledge": "Pledge Assistance",
+  "ngo.pledged": "Assistance pledged successfully!",
+  "ngo.pledgeFailed": "Failed to provide assistance",
+
+  "ngoVerification.pendingBody": "A district official is reviewing your organisation. You can pledge once it is verified.",
+  "ngoVerification.rejectedBody": "Your verification was not approved. Please check your details and resubmit.",
+  "ngoVerification.unsubmittedBody": "Submit your organisation's registration details to start pledging assistance.",
+  "ngoVerification.organizationName": "Organisation Name",
+  "ngoVerification.registrationLabel": "NGO Darpan ID / Registration Number",
+  "ngoVerification.submit": "Submit for Verification",
+  "ngoVerification.submitted": "Submitted for verification",
+  "ngoVerification.submitFailed": "Failed to submit verification",
+
+  "catalogue.search": "Search items…",
+  "catalogue.searchPlaceholder": "Rice, അരി, soap…",
+  "catalogue.useCustom": "Use “{name}”",
+  "catalogue.noMatches": "No matching items",
+  "catalogue.packSize": "{size} {unit} pack",
+  "catalogue.perUnit": "per {unit}",
+
+  "pledgeForm.quantityRequired": "Enter how many you are pledging",
+  "pledgeForm.wholeNumber": "Pledge a whole number",
+  "pledgeForm.positive": "Pledge at least 1",
+  "pledgeForm.overRemaining": "Only {count} still needed. Pledge the rest as surplus or lower the quantity.",
+  "pledgeForm.surplusOption": "Send the extra {count} as surplus. The camp can accept or decline it.",
+  "pledgeForm.notesTooLong": "Keep notes under 500 characters",
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,609 @@
+import type { Messages } from "./en";
+
+export const ml: Messages = {
+  "app.name": "കേരള റിലീഫ് ഹബ്",
+  "app.tagline": "ദുരിതാശ്വാസ ഏകോപന സംവിധാനം",
+
+  "common.loading": "ലോഡ് ചെയ്യുന്നു...",
+  "common.signOut": "സൈൻ ഔട്ട്",
+  "common.language": "ഭാഷ",
+  "common.item": "സാധനം",
+  "common.camp": "ക്യാമ്പ്",
+  "common.map": "മാപ്പ്",
+  "common.campNeeds": "ക്യാമ്പിലെ ആവശ്യങ്ങൾ",
+  "common.allCamps": "എല്ലാ ക്യാമ്പുകളും",
+  "common.seatsAvailable": "സ്ഥലം ലഭ്യമാണ്",
+  "common.received": "ലഭിച്ചു",
+  "common.pledgedCount": "{count} വാഗ്ദാനം ചെയ്തു",
+  "common.languageSaveFailed": "ഭാഷാ മുൻഗണന സേവ് ചെയ്യാനായില്ല",
+  "common.retry": "വീണ്ടും ശ്രമിക്കുക",
+  "common.save": "സേവ് ചെയ്യുക",
+  "common.accept": "സ്വീകരിക്കുക",
+  "common.decline": "നിരസിക്കുക",
+  "common.years": "{count} വയസ്സ്",
+  "common.fullName": "മുഴുവൻ പേര്",
+  "common.gender": "ലിംഗം",
+  "common.selectGender": "ലിംഗം തിരഞ്ഞെടുക്കുക",
+  "common.villagePlaceholder": "ഗ്രാമം അല്ലെങ്കിൽ വാർഡ്",
+
+  "urgency.low": "കുറവ്",
+  "urgency.medium": "ഇടത്തരം",
+  "urgency.high": "ഉയർന്നത്",
+  "urgency.critical": "അതീവ ഗുരുതരം",
+
+  "needStatus.pending": "തുറന്നത്",
+  "needStatus.partial": "ഭാഗികമായി ലഭിച്ചു",
+  "needStatus.fulfilled": "പൂർത്തിയായി",
+  "needStatus.expired": "കാലാവധി കഴിഞ്ഞു",
+  "needStatus.closed": "അടച്ചു",
+  "needStatus.cancelled": "റദ്ദാക്കി",
+
+  "campAvailability.available": "ലഭ്യമാണ്",
+  "campAvailability.full": "നിറഞ്ഞു",
+
+  "campStatus.active": "പ്രവർത്തനത്തിൽ",
+  "campStatus.full": "നിറഞ്ഞു",
+  "campStatus.inactive": "താൽക്കാലികമായി നിർത്തി",
+  "campStatus.closed": "അടച്ചു",
+
+  "verification.unsubmitted": "സമർപ്പിച്ചിട്ടില്ല",
+  "verification.pending": "പരിശോധന കാത്തിരിക്കുന്നു",
+  "verification.verified": "പരിശോധിച്ചു",
+  "verification.rejected": "നിരസിച്ചു",
+
+  "campRole.owner": "ഉടമ",
+  "campRole.manager": "മാനേജർ",
+  "campRole.registrar": "രജിസ്ട്രാർ",
+  "campRole.storekeeper": "സ്റ്റോർകീപ്പർ",
+
+  "appRole.user": "പൗരൻ",
+  "appRole.camp": "ക്യാമ്പ്",
+  "appRole.ngo": "സന്നദ്ധ സംഘടന",
+  "appRole.admin": "അഡ്മിനിസ്ട്രേറ്റർ",
+
+  "campRoleHint.owner": "ക്യാമ്പ് ടീം ഉൾപ്പെടെ എല്ലാ അധികാരവും",
+  "campRoleHint.manager": "ക്യാമ്പ് വിവരങ്ങൾ, ആവശ്യങ്ങൾ, വിതരണം, സ്റ്റോക്ക്, ദുരിതബാധിതർ, ജീവനക്കാരെ ക്ഷണിക്കൽ",
+  "campRoleHint.registrar": "ദുരിതബാധിതരുടെ രജിസ്റ്ററും കുടുംബ പുനഃസമാഗമവും",
+  "campRoleHint.storekeeper": "ആവശ്യങ്ങൾ, വരുന്ന വിതരണങ്ങൾ, സ്റ്റോക്ക്",
+
+  "gender.female": "സ്ത്രീ",
+  "gender.male": "പുരുഷൻ",
+  "gender.other": "മറ്റുള്ളവർ",
+
+  "deliveryStatus.pledged": "വാഗ്ദാനം ചെയ്തു",
+  "deliveryStatus.in_transit": "വഴിയിലാണ്",
+  "deliveryStatus.delivered": "എത്തിച്ചു",
+  "deliveryStatus.cancelled": "റദ്ദാക്കി",
+
+  "movementType.delivery": "എൻജിഒ വിതരണം",
+  "movementType.stock_in": "സ്റ്റോക്ക് ചേർത്തു",
+  "movementType.distribution": "വിതരണം ചെയ്തു",
+  "movementType.stock_out": "സ്റ്റോക്ക് കുറച്ചു",
+
+  "matchStatus.pending": "തീരുമാനം കാത്തിരിക്കുന്നു",
+  "matchStatus.approved": "സ്ഥിരീകരിച്ചു",
+  "matchStatus.rejected": "തള്ളി",
+
+  "reportStatus.open": "തുറന്നത്",
+  "reportStatus.matched": "പൊരുത്തം കണ്ടെത്തി",
+  "reportStatus.closed": "അവസാനിപ്പിച്ചു",
+
+  "catalogueCategory.food": "ഭക്ഷണം",
+  "catalogueCategory.water": "കുടിവെള്ളം",
+  "catalogueCategory.hygiene": "ശുചിത്വം",
+  "catalogueCategory.medical": "മരുന്നുകൾ",
+  "catalogueCategory.clothing": "വസ്ത്രം",
+  "catalogueCategory.bedding": "കിടക്ക",
+  "catalogueCategory.baby_care": "ശിശുപരിചരണം",
+  "catalogueCategory.household": "വീട്ടുസാധനങ്ങൾ",
+
+  "index.intro": "കേരളത്തിലുടനീളമുള്ള ദുരിതാശ്വാസ പ്രവർത്തനങ്ങൾ ഏകോപിപ്പിക്കുന്നു. പ്രതിസന്ധി ഘട്ടങ്ങളിൽ ക്യാമ്പുകളെയും സന്നദ്ധപ്രവർത്തകരെയും സന്നദ്ധ സംഘടനകളെയും ബന്ധിപ്പിക്കുന്നു.",
+  "index.citizensTitle": "പൊതുജനങ്ങൾക്ക്",
+  "index.citizensBody": "അടുത്തുള്ള ദുരിതാശ്വാസ ക്യാമ്പുകൾ കണ്ടെത്തുക, സന്നദ്ധപ്രവർത്തകനായി രജിസ്റ്റർ ചെയ്യുക, ദുരന്തസമയത്ത് നിങ്ങളുടെ സമൂഹത്തെ സഹായിക്കുക.",
+  "index.campsTitle": "ക്യാമ്പുകൾക്ക്",
+  "index.campsBody": "ക്യാമ്പിന്റെ ശേഷി കൈകാര്യം ചെയ്യുക, അടിയന്തര ആവശ്യങ്ങൾ രേഖപ്പെടുത്തുക, സന്നദ്ധപ്രവർത്തകരുമായും സംഘടനകളുമായും ഏകോപിപ്പിക്കുക.",
+  "index.ngosTitle": "സന്നദ്ധ സംഘടനകൾക്ക്",
+  "index.ngosBody": "ക്യാമ്പുകളുടെ ആവശ്യങ്ങൾ കാണുക, സാധനങ്ങൾ എത്തിക്കുക, ദുരിതാശ്വാസ പ്രവർത്തനങ്ങൾ കാര്യക്ഷമമായി ഏകോപിപ്പിക്കുക.",
+  "index.getStarted": "തുടങ്ങാം",
+
+  "auth.signIn": "സൈൻ ഇൻ",
+  "auth.signUp": "സൈൻ അപ്പ്",
+  "auth.email": "ഇമെയിൽ",
+  "auth.password": "പാസ്‌വേഡ്",
+  "auth.signingIn": "സൈൻ ഇൻ ചെയ്യുന്നു...",
+  "auth.fullName": "പൂർണ്ണ നാമം",
+  "auth.fullNamePlaceholder": "നിങ്ങളുടെ പേര്",
+  "auth.phone": "ഫോൺ നമ്പർ",
+  "auth.accountType": "അക്കൗണ്ട് തരം",
+  "auth.roleUser": "ഉപയോക്താവ്",
+  "auth.roleUserHint": "ക്യാമ്പുകൾ തിരയുക, സന്നദ്ധസേവനം ചെയ്യുക",
+  "auth.roleCamp": "ക്യാമ്പ്",
+  "auth.roleCampHint": "ദുരിതാശ്വാസ ക്യാമ്പ് നടത്തുക",
+  "auth.roleNgo": "സന്നദ്ധ സംഘടന",
+  "auth.roleNgoHint": "സഹായം എത്തിക്കുക",
+  "auth.creatingAccount": "അക്കൗണ്ട് സൃഷ്ടിക്കുന്നു...",
+  "auth.createAccount": "അക്കൗണ്ട് സൃഷ്ടിക്കുക",
+  "auth.accountCreated": "അക്കൗണ്ട് വിജയകരമായി സൃഷ്ടിച്ചു!",
+  "auth.createFailed": "അക്കൗണ്ട് സൃഷ്ടിക്കാനായില്ല",
+  "auth.signedIn": "വിജയകരമായി സൈൻ ഇൻ ചെയ്തു!",
+  "auth.signInFailed": "സൈൻ ഇൻ ചെയ്യാനായില്ല",
+  "auth.phoneTab": "ഫോൺ",
+  "auth.phoneHint": "ഈ നമ്പറിലേക്ക് {length} അക്ക കോഡ് SMS ആയി അയയ്ക്കും.",
+  "auth.firstTimeOnly": "ഈ നമ്പർ ആദ്യമായി ഉപയോഗിക്കുമ്പോൾ മാത്രം മതി",
+  "auth.sendCode": "കോഡ് അയയ്ക്കുക",
+  "auth.sendingCode": "കോഡ് അയയ്ക്കുന്നു...",
+  "auth.codeSent": "{phone} എന്ന നമ്പറിലേക്ക് അയച്ച കോഡ് നൽകുക",
+  "auth.verifyCode": "സ്ഥിരീകരിക്കുക",
+  "auth.verifying": "സ്ഥിരീകരിക്കുന്നു...",
+  "auth.resendCode": "കോഡ് വീണ്ടും അയയ്ക്കുക",
+  "auth.changeNumber": "മറ്റൊരു നമ്പർ ഉപയോഗിക്കുക",
+  "auth.invalidPhone": "ശരിയായ മൊബൈൽ നമ്പർ നൽകുക",
+  "auth.sendCodeFailed": "കോഡ് അയയ്ക്കാനായില്ല",
+  "auth.verifyFailed": "കോഡ് തെറ്റാണ് അല്ലെങ്കിൽ കാലഹരണപ്പെട്ടു",
+  "auth.roleNeedsApproval": "ക്യാമ്പ്, സന്നദ്ധ സംഘടന അക്കൗണ്ടുകൾക്ക് ഒരു അവലോകകൻ അംഗീകരിക്കുന്നതുവരെ പൗരന്റെ ആക്സസ് മാത്രമേ ഉണ്ടാകൂ.",
+  "auth.accessRequested": "നിങ്ങളുടെ {role} ആക്സസ് അപേക്ഷ അവലോകനത്തിനായി അയച്ചു.",
+
+  "account.linkPhone": "ഫോൺ സൈൻ ഇൻ ചേർക്കുക",
+  "account.linkPhoneTitle": "ഫോൺ ഉപയോഗിച്ച് സൈൻ ഇൻ ചെയ്യുക",
+  "account.linkPhoneBody": "പാസ്‌വേഡ് ഇല്ലാതെ ഒറ്റത്തവണ കോഡ് ഉപയോഗിച്ച് ഇതേ അക്കൗണ്ടിൽ സൈൻ ഇൻ ചെയ്യാൻ നിങ്ങളുടെ മൊബൈൽ നമ്പർ സ്ഥിരീകരിക്കുക.",
+  "account.phoneLinked": "ഫോൺ നമ്പർ സ്ഥിരീകരിച്ചു. ഇനി ഇത് ഉപയോഗിച്ച് സൈൻ ഇൻ ചെയ്യാം.",
+  "account.linkPhoneFailed": "ഫോൺ നമ്പർ സ്ഥിരീകരിക്കാനായില്ല",
+
+  "roleRequest.title": "ക്യാമ്പോ സന്നദ്ധ സംഘടനയോ നടത്തുന്നുണ്ടോ?",
+  "roleRequest.body": "ക്യാമ്പ് അല്ലെങ്കിൽ സന്നദ്ധ സംഘടന ആക്സസിനായി അപേക്ഷിക്കുക. ഓരോ അപേക്ഷയും ഒരു അഡ്മിനിസ്ട്രേറ്ററോ സ്ഥിരീകരിച്ച സംഘടനയോ അവലോകനം ചെയ്യും.",
+  "roleRequest.request": "ആക്സസിനായി അപേക്ഷിക്കുക",
+  "roleRequest.dialogTitle": "ക്യാമ്പ് അല്ലെങ്കിൽ സന്നദ്ധ സംഘടന ആക്സസിനായി അപേക്ഷിക്കുക",
+  "roleRequest.organization": "ക്യാമ്പിന്റെയോ സംഘടനയുടെയോ പേര്",
+  "roleRequest.message": "അവലോകകനുള്ള സന്ദേശം",
+  "roleRequest.messagePlaceholder": "നിങ്ങൾ ആരാണെന്നും എന്തിനാണ് ആക്സസ് വേണ്ടതെന്നും",
+  "roleRequest.submit": "അപേക്ഷ അയയ്ക്കുക",
+  "roleRequest.submitFailed": "അപേക്ഷ അയയ്ക്കാനായില്ല",
+  "roleRequest.pendingTitle": "ആക്സസ് അപേക്ഷ തീർപ്പാക്കാനുണ്ട്",
+  "roleRequest.pendingBody": "{date} ന് നിങ്ങൾ {role} ആക്സസിനായി അപേക്ഷിച്ചു. അവലോകനം കഴിയുന്നതുവരെ പൗരന്റെ ആക്സസ് തുടരും.",
+  "roleRequest.rejectedTitle": "ആക്സസ് അപേക്ഷ നിരസിച്ചു",
+  "roleRequest.rejectedBody": "നിങ്ങളുടെ {role} ആക്സസ് അപേക്ഷ നിരസിച്ചു.",
+  "roleRequest.queueTitle": "ആക്സസ് അപേക്ഷകൾ",
+  "roleRequest.none": "അവലോകനത്തിനായി ആക്സസ് അപേക്ഷകളൊന്നുമില്ല",
+  "roleRequest.requestedBy": "{name} {role} ആക്സസിനായി അപേക്ഷിച്ചു",
+  "roleRequest.reviewNotes": "അപേക്ഷകനുള്ള കുറിപ്പ് (ഐച്ഛികം)",
+  "roleRequest.approve": "അംഗീകരിക്കുക",
+  "roleRequest.reject": "നിരസിക്കുക",
+  "roleRequest.approved": "ആക്സസ് അനുവദിച്ചു",
+  "roleRequest.rejected": "അപേക്ഷ നിരസിച്ചു",
+  "roleRequest.reviewFailed": "അപേക്ഷ അവലോകനം ചെയ്യാനായില്ല",
+
+  "guard.profileFailed": "നിങ്ങളുടെ പ്രൊഫൈൽ ലോഡ് ചെയ്യാനായില്ല. കണക്ഷൻ പരിശോധിച്ച് വീണ്ടും ശ്രമിക്കുക.",
+
+  "onboarding.title": "അക്കൗണ്ട് സജ്ജീകരണം പൂർത്തിയാക്കുക",
+  "onboarding.subtitle": "നിങ്ങളുടെ അക്കൗണ്ടിന് ഇതുവരെ ഒരു തരം നിശ്ചയിച്ചിട്ടില്ല. ശരിയായ ഡാഷ്‌ബോർഡ് തുറക്കാൻ നിങ്ങൾ പ്ലാറ്റ്‌ഫോം എങ്ങനെ ഉപയോഗിക്കുമെന്ന് തിരഞ്ഞെടുക്കുക.",
+  "onboarding.continue": "തുടരുക",
+  "onboarding.saving": "സേവ് ചെയ്യുന്നു...",
+  "onboarding.saveFailed": "അക്കൗണ്ട് വിവരങ്ങൾ സേവ് ചെയ്യാനായില്ല",
+
+  "user.title": "ദുരിതാശ്വാസ ക്യാമ്പുകൾ",
+  "user.subtitle": "അടുത്തുള്ള ക്യാമ്പുകൾ കണ്ടെത്തുക, സന്നദ്ധസേവനം ചെയ്യുക",
+  "user.findCamps": "ക്യാമ്പുകൾ കണ്ടെത്തുക",
+  "user.missingPersons": "കാണാതായവർ",
+  "user.searchPlaceholder": "ക്യാമ്പിന്റെ പേരോ സ്ഥലമോ ഉപയോഗിച്ച് തിരയുക...",
+  "user.placePlaceholder": "അടുത്തുള്ള ക്യാമ്പ് കണ്ടെത്താൻ പിൻ കോഡ് അല്ലെങ്കിൽ ഗ്രാമം...",
+  "user.findNearest": "അടുത്തുള്ളത് കണ്ടെത്തുക",
+  "user.locating": "സ്ഥാനം കണ്ടെത്തുന്നു...",
+  "user.nearMe": "എന്റെ അടുത്ത്",
+  "user.yourLocation": "നിങ്ങളുടെ സ്ഥാനം",
+  "user.showingNearest": "{place}-ന് ഏറ്റവും അടുത്തുള്ള, ഒഴിവുള്ള ക്യാമ്പുകൾ കാണിക്കുന്നു",
+  "user.clear": "മായ്ക്കുക",
+  "user.loadingCamps": "ക്യാമ്പുകൾ ലോഡ് ചെയ്യുന്നു...",
+  "user.noCamps": "ക്യാമ്പുകളൊന്നും കണ്ടെത്തിയില്ല",
+  "user.contact": "ബന്ധപ്പെടുക:",
+  "user.directions": "വഴി",
+  "user.distanceUnknown": "ദൂരം അറിയില്ല: ക്യാമ്പിന് മാപ്പിൽ സ്ഥാനമില്ല",
+  "user.registerVolunteer": "സന്നദ്ധപ്രവർത്തകനായി രജിസ്റ്റർ ചെയ്യുക",
+  "user.loadFailed": "ക്യാമ്പുകൾ ലോഡ് ചെയ്യാനായില്ല",
+  "user.volunteerRegistered": "സന്നദ്ധപ്രവർത്തകനായി രജിസ്റ്റർ ചെയ്തു!",
+  "user.alreadyVolunteer": "ഈ ക്യാമ്പിൽ നിങ്ങൾ ഇതിനകം രജിസ്റ്റർ ചെയ്തിട്ടുണ്ട്",
+  "user.volunteerFailed": "സന്നദ്ധപ്രവർത്തകനായി രജിസ്റ്റർ ചെയ്യാനായില്ല",
+  "user.locationUnavailable": "ഈ ഉപകരണത്തിൽ ലൊക്കേഷൻ ലഭ്യമല്ല",
+  "user.locationFailed": "നിങ്ങളുടെ സ്ഥാനം കണ്ടെത്താനായില്ല. പകരം പിൻ കോഡോ ഗ്രാമമോ നൽകുക.",
+  "user.placeNotFound": "ആ പിൻ കോഡോ സ്ഥലമോ കണ്ടെത്താനായില്ല",
+
+  "geo.metres": "{distance} മീ.",
+  "geo.kilometres": "{distance} കി.മീ.",
+  "geo.direction.north": "വടക്ക്",
+  "geo.direction.north_east": "വടക്കുകിഴക്ക്",
+  "geo.direction.east": "കിഴക്ക്",
+  "geo.direction.south_east": "തെക്കുകിഴക്ക്",
+  "geo.direction.south": "തെക്ക്",
+  "geo.direction.south_west": "തെക്കുപടിഞ്ഞാറ്",
+  "geo.direction.west": "പടിഞ്ഞാറ്",
+  "geo.direction.north_west": "വടക്കുപടിഞ്ഞാറ്",
+
+  "missing.intro": "ബന്ധുവിനെ തിരയുകയാണോ? റിപ്പോർട്ട് നൽകിയാൽ എല്ലാ ക്യാമ്പുകളിലെയും ദുരിതബാധിതരുമായി ഒത്തുനോക്കും.",
+  "missing.report": "കാണാതായ ആളെക്കുറിച്ച് അറിയിക്കുക",
+  "missing.dialogTitle": "ഞാൻ തിരയുന്നത്",
+  "missing.age": "ഏകദേശ പ്രായം",
+  "missing.homeVillage": "സ്വന്തം ഗ്രാമം",
+  "missing.description": "വിവരണം (ഐച്ഛികം)",
+  "missing.descriptionPlaceholder": "അവസാനം കണ്ടത്, വസ്ത്രം, നിങ്ങളുമായുള്ള ബന്ധം",
+  "missing.contactPhone": "നിങ്ങളുടെ ഫോൺ നമ്പർ",
+  "missing.file": "റിപ്പോർട്ട് നൽകുക",
+  "missing.none": "നിങ്ങൾ ഇതുവരെ തിരച്ചിൽ റിപ്പോർട്ടുകളൊന്നും നൽകിയിട്ടില്ല",
+  "missing.noMatches": "ഇതുവരെ പൊരുത്തമില്ല. എല്ലാ ക്യാമ്പുകളിലെയും പുതിയ ചെക്ക് ഇന്നുകൾ സ്വയം പരിശോധിക്കും.",
+  "missing.confirmedAt": "{camp} ക്യാമ്പിൽ സ്ഥിരീകരിച്ചു",
+  "missing.possibleAt": "{camp} ക്യാമ്പിൽ സാധ്യതയുള്ള പൊരുത്തം",
+  "missing.awaitingCamp": "വിവരങ്ങൾ പങ്കുവെക്കുന്നതിനു മുമ്പ് ക്യാമ്പിന്റെ സ്ഥിരീകരണം കാത്തിരിക്കുന്നു",
+  "missing.close": "റിപ്പോർട്ട് അവസാനിപ്പിക്കുക",
+  "missing.filed": "തിരച്ചിൽ റിപ്പോർട്ട് നൽകി. എല്ലാ ക്യാമ്പുകളിലും പൊരുത്തം പരിശോധിക്കും.",
+  "missing.fileFailed": "റിപ്പോർട്ട് നൽകാനായില്ല",
+  "missing.closed": "റിപ്പോർട്ട് അവസാനിപ്പിച്ചു",
+  "missing.closeFailed": "റിപ്പോർട്ട് അവസാനിപ്പിക്കാനായില്ല",
+  "missing.loadFailed": "നിങ്ങളുടെ തിരച്ചിൽ റിപ്പോർട്ടുകൾ ലോഡ് ചെയ്യാനായില്ല",
+
+  "map.seatsAvailable": "{count} / {total} സീറ്റുകൾ ഒഴിവുണ്ട്",
+  "map.criticalNeeds": "{count} അതീവ ഗുരുതര ആവശ്യങ്ങൾ ബാക്കി",
+  "map.contact": "ഫോൺ: {phone}",
+  "map.legendAvailable": "സീറ്റുകൾ ഒഴിവുണ്ട്",
+  "map.legendNearlyFull": "ഏകദേശം നിറഞ്ഞു",
+  "map.legendFull": "നിറഞ്ഞു",
+  "map.legendCritical": "അതീവ ഗുരുതര ആവശ്യങ്ങൾ",
+  "map.unmapped": "സ്ഥാനം രേഖപ്പെടുത്താത്ത {count} ക്യാമ്പുകൾ",
+  "map.tapToMark": "ക്യാമ്പിന്റെ സ്ഥാനം അടയാളപ്പെടുത്താൻ മാപ്പിൽ തൊടുക",
+  "map.useMyLocation": "എന്റെ സ്ഥാനം ഉപയോഗിക്കുക",
+  "map.locationUnavailable": "ഈ ഉപകരണത്തിൽ ലൊക്കേഷൻ ലഭ്യമല്ല",
+  "map.locationFailed": "നിങ്ങളുടെ ഇപ്പോഴത്തെ സ്ഥാനം കണ്ടെത്താനായില്ല",
+
+  "camp.title": "ക്യാമ്പ് മാനേജ്മെന്റ്",
+  "camp.loadFailed": "ക്യാമ്പ് വിവരങ്ങൾ ലോഡ് ചെയ്യാനായില്ല",
+  "camp.noCampTitle": "ക്യാമ്പ് രജിസ്റ്റർ ചെയ്തിട്ടില്ല",
+  "camp.noCampBody": "ശേഷിയും ആവശ്യങ്ങളും കൈകാര്യം ചെയ്യാൻ നിങ്ങളുടെ ദുരിതാശ്വാസ ക്യാമ്പ് സൃഷ്ടിക്കുക, അല്ലെങ്കിൽ നിങ്ങളെ ക്ഷണിക്കാൻ ഒരു ക്യാമ്പ് ഉടമയോട് ആവശ്യപ്പെടുക",
+  "camp.createCamp": "ക്യാമ്പ് സൃഷ്ടിക്കുക",
+  "camp.addCamp": "ക്യാമ്പ് ചേർക്കുക",
+  "camp.summaryAcross": "നിങ്ങൾ കൈകാര്യം ചെയ്യുന്ന {count} ക്യാമ്പുകളുടെ സംഗ്രഹം",
+  "camp.rejectedDefault": "നിങ്ങളുടെ ക്യാമ്പ് രജിസ്ട്രേഷൻ അംഗീകരിച്ചില്ല.",
+  "camp.hiddenUntilVerified": "ഒരു ജില്ലാ ഉദ്യോഗസ്ഥൻ പരിശോധിക്കുന്നതുവരെ നിങ്ങളുടെ ക്യാമ്പും ആവശ്യങ്ങളും സംഘടനകൾക്കും പൊതുജനങ്ങൾക്കും ദൃശ്യമാകില്ല.",
+  "camp.resubmit": "വീണ്ടും സമർപ്പിക്കുക",
+  "camp.resubmitTitle": "പരിശോധനയ്ക്കായി വീണ്ടും സമർപ്പിക്കുക",
+  "camp.registrationLabel": "സർക്കാർ ഉത്തരവ് / രജിസ്ട്രേഷൻ നമ്പർ",
+  "camp.resubmitted": "പരിശോധനയ്ക്കായി വീണ്ടും സമർപ്പിച്ചു",
+  "camp.resubmitFailed": "വീണ്ടും സമർപ്പിക്കാനായില്ല",
+  "camp.totalCapacity": "ആകെ ശേഷി",
+  "camp.occupied": "താമസക്കാർ",
+  "camp.available": "ഒഴിവ്",
+  "camp.deliveries": "വിതരണങ്ങൾ",
+  "camp.inventory": "സ്റ്റോക്ക്",
+  "camp.evacuees": "അഭയാർത്ഥി രജിസ്റ്റർ",
+  "camp.reunification": "കുടുംബ പുനഃസമാഗമം",
+  "camp.team": "ടീം",
+  "camp.addNeed": "ആവശ്യം ചേർക്കുക",
+  "camp.addNeedTitle": "സാധന ആവശ്യം ചേർക്കുക",
+  "camp.quantityNeeded": "ആവശ്യമായ അളവ്",
+  "camp.urgencyLevel": "അടിയന്തര നില",
+  "camp.selectUrgency": "അടിയന്തര നില തിരഞ്ഞെടുക്കുക",
+  "camp.noNeeds": "ഇതുവരെ ആവശ്യങ്ങളൊന്നും ചേർത്തിട്ടില്ല",
+  "camp.raisedFromLowStock": "സ്റ്റോക്ക് കുറഞ്ഞതിനാൽ ചേർത്തത്",
+  "camp.chooseItem": "ഒരു സാധനം തിരഞ്ഞെടുക്കുക",
+  "camp.needAdded": "ആവശ്യം വിജയകരമായി ചേർത്തു!",
+  "camp.addNeedFailed": "ആവശ്യം ചേർക്കാനായില്ല",
+  "camp.neededUntil": "ആവശ്യമുള്ള സമയം വരെ (ഓപ്ഷണൽ)",
+  "camp.neededUntilHint": "ഈ സമയം കഴിഞ്ഞും തുറന്നിരുന്നാൽ ആവശ്യം കാലഹരണപ്പെടും",
+  "camp.expires": "{time} കാലാവധി തീരും",
+
+  "needs.escalated": "അടിയന്തരത കൂട്ടി",
+  "needs.unansweredFor": "{hours} മണിക്കൂറായി പ്രതികരണമില്ല",
+  "needs.tranche": "ഘട്ടം",
+  "needs.dueFrom": "{time} മുതൽ ആവശ്യം",
+  "needs.cancelledBecause": "റദ്ദാക്കി: {reason}",
+
+  "needActions.edit": "ആവശ്യം തിരുത്തുക",
+  "needActions.save": "മാറ്റങ്ങൾ സേവ് ചെയ്യുക",
+  "needActions.discard": "മാറ്റങ്ങൾ ഉപേക്ഷിക്കുക",
+  "needActions.saved": "ആവശ്യം പുതുക്കി",
+  "needActions.saveFailed": "ആവശ്യം പുതുക്കാനായില്ല",
+  "needActions.splitNeed": "ഘട്ടങ്ങളായി വിഭജിക്കുക",
+  "needActions.splitTitle": "{item} വിഭജിക്കുക",
+  "needActions.splitBody": "ഇനിയും വാഗ്ദാനം ചെയ്യാത്ത {count} ഘട്ടങ്ങളിലായി വിഭജിക്കും. ലഭിച്ചതും വാഗ്ദാനം ചെയ്തതും ആദ്യ ഘട്ടത്തിൽ തുടരും.",
+  "needActions.tranches": "ഘട്ടങ്ങൾ",
+  "needActions.intervalHours": "ഘട്ടങ്ങൾക്കിടയിലെ മണിക്കൂർ",
+  "needActions.perTranche": "ഓരോ ഘട്ടത്തിലും ഏകദേശം {count}",
+  "needActions.splitDone": "ആവശ്യം {count} ഘട്ടങ്ങളായി വിഭജിച്ചു",
+  "needActions.splitFailed": "ആവശ്യം വിഭജിക്കാനായില്ല",
+  "needActions.cancelNeed": "ആവശ്യം റദ്ദാക്കുക",
+  "needActions.cancelTitle": "{item} റദ്ദാക്കുക",
+  "needActions.cancelBody": "NGO-കൾ കാണുന്ന പട്ടികയിൽ നിന്ന് ഈ ആവശ്യം നീക്കും.",
+  "needActions.cancelBodyPledged": "ഈ ആവശ്യത്തിന് NGO-കൾ ഇപ്പോഴും {count} വാഗ്ദാനം ചെയ്തിട്ടുണ്ട്. അവരുടെ വാഗ്ദാനങ്ങൾക്കൊപ്പം നിങ്ങളുടെ കാരണം അവർ കാണും.",
+  "needActions.reason": "കാരണം",
+  "needActions.reasonPlaceholder": "ഉദാ. ജില്ലാ ഓഫീസ് എത്തിച്ചുനൽകി",
+  "needActions.cancelled": "ആവശ്യം റദ്ദാക്കി",
+  "needActions.cancelFailed": "ആവശ്യം റദ്ദാക്കാനായില്ല",
+
+  "campEdit.edit": "ക്യാമ്പ് തിരുത്തുക",
+  "campEdit.title": "ക്യാമ്പ് വിവരങ്ങൾ തിരുത്തുക",
+  "campEdit.name": "ക്യാമ്പിന്റെ പേര്",
+  "campEdit.location": "സ്ഥലം",
+  "campEdit.mapLocation": "മാപ്പിലെ സ്ഥാനം",
+  "campEdit.capacityHint": "{count} പേർ ചെക്ക് ഇൻ ചെയ്തിട്ടുണ്ട്. എല്ലാ സീറ്റുകളും നിറയുമ്പോൾ ക്യാമ്പ് നിറഞ്ഞതായി കാണിക്കും.",
+  "campEdit.phone": "ബന്ധപ്പെടാനുള്ള ഫോൺ",
+  "campEdit.email": "ബന്ധപ്പെടാനുള്ള ഇമെയിൽ (ഓപ്ഷണൽ)",
+  "campEdit.save": "മാറ്റങ്ങൾ സേവ് ചെയ്യുക",
+  "campEdit.saving": "സേവ് ചെയ്യുന്നു...",
+  "campEdit.saved": "ക്യാമ്പ് വിവരങ്ങൾ പുതുക്കി",
+  "campEdit.saveFailed": "ക്യാമ്പ് പുതുക്കാനായില്ല",
+
+  "createCamp.title": "ദുരിതാശ്വാസ ക്യാമ്പ് സൃഷ്ടിക്കുക",
+  "createCamp.capacityHint": "താമസക്കാരുടെ എണ്ണം ചെക്ക് ഇന്നുകളിൽ നിന്ന് കണക്കാക്കും",
+  "createCamp.created": "ക്യാമ്പ് സൃഷ്ടിച്ചു! പരിശോധിച്ചു കഴിഞ്ഞാൽ മറ്റുള്ളവർക്ക് കാണാം.",
+  "createCamp.failed": "ക്യാമ്പ് സൃഷ്ടിക്കാനായില്ല",
+
+  "verificationForm.registrationNumber": "രജിസ്ട്രേഷൻ നമ്പർ",
+  "verificationForm.document": "അനുബന്ധ രേഖ",
+  "verificationForm.documentHint": "സർക്കാർ ഉത്തരവ്, രജിസ്ട്രേഷൻ സർട്ടിഫിക്കറ്റ് അല്ലെങ്കിൽ അധികാരപത്രം",
+
+  "campsSummary.title": "ക്യാമ്പുകളുടെ അവലോകനം",
+  "campsSummary.camps": "ക്യാമ്പുകൾ",
+  "campsSummary.openNeeds": "തുറന്ന ആവശ്യങ്ങൾ",
+  "campsSummary.critical": "{count} അതീവ ഗുരുതരം",
+  "campsSummary.openNeedsCount": "{count} തുറന്ന ആവശ്യങ്ങൾ",
+
+  "campTeam.title": "ക്യാമ്പ് ടീം",
+  "campTeam.subtitle": "ഷിഫ്റ്റിലുള്ള എല്ലാവരും സ്വന്തം അക്കൗണ്ടിൽ പ്രവേശിക്കുന്നു",
+  "campTeam.invite": "ജീവനക്കാരെ ക്ഷണിക്കുക",
+  "campTeam.inviteTitle": "ജീവനക്കാരനെ ക്ഷണിക്കുക",
+  "campTeam.role": "ചുമതല",
+  "campTeam.selectRole": "ചുമതല തിരഞ്ഞെടുക്കുക",
+  "campTeam.sendInvite": "ക്ഷണം അയയ്ക്കുക",
+  "campTeam.you": "(നിങ്ങൾ)",
+  "campTeam.leave": "വിട്ടുപോകുക",
+  "campTeam.pendingInvites": "മറുപടി കിട്ടാത്ത ക്ഷണങ്ങൾ",
+  "campTeam.revoke": "പിൻവലിക്കുക",
+  "campTeam.inviteSent": "ക്ഷണം അയച്ചു. ആ ഇമെയിലിൽ പ്രവേശിക്കുമ്പോൾ അവർക്ക് കാണാം.",
+  "campTeam.inviteFailed": "ക്ഷണം അയയ്ക്കാനായില്ല",
+  "campTeam.inviteRevoked": "ക്ഷണം പിൻവലിച്ചു",
+  "campTeam.revokeFailed": "ക്ഷണം പിൻവലിക്കാനായില്ല",
+  "campTeam.roleUpdated": "ചുമതല മാറ്റി",
+  "campTeam.roleFailed": "ചുമതല മാറ്റാനായില്ല",
+  "campTeam.left": "നിങ്ങൾ ഈ ക്യാമ്പ് വിട്ടു",
+  "campTeam.removed": "അംഗത്തെ നീക്കി",
+  "campTeam.removeFailed": "അംഗത്തെ നീക്കാനായില്ല",
+
+  "campInvites.title": "ക്യാമ്പ് ക്ഷണങ്ങൾ",
+  "campInvites.invitedBy": "{name} ക്ഷണിച്ചു",
+  "campInvites.joined": "നിങ്ങൾ ക്യാമ്പ് ടീമിൽ ചേർന്നു",
+  "campInvites.declined": "ക്ഷണം നിരസിച്ചു",
+  "campInvites.respondFailed": "ക്ഷണത്തിന് മറുപടി നൽകാനായില്ല",
+
+  "evacuees.checkedInCount": "{count} പേർ ഇപ്പോൾ ക്യാമ്പിലുണ്ട്",
+  "evacuees.waitingCount": "{count} സിങ്കിനായി കാത്തിരിക്കുന്നു",
+  "evacuees.checkIn": "ചെക്ക് ഇൻ",
+  "evacuees.checkInTitle": "ദുരിതബാധിതരെ ചെക്ക് ഇൻ ചെയ്യുക",
+  "evacuees.age": "പ്രായം",
+  "evacuees.familyGroup": "കുടുംബം (ഐച്ഛികം)",
+  "evacuees.familyGroupPlaceholder": "ഉദാ. തോമസ് കുടുംബം, വീട്ടുനമ്പർ 12",
+  "evacuees.homeVillage": "സ്വന്തം ഗ്രാമം (ഐച്ഛികം)",
+  "evacuees.specialNeeds": "പ്രത്യേക ആവശ്യങ്ങൾ (ഐച്ഛികം)",
+  "evacuees.specialNeedsPlaceholder": "മരുന്ന്, ചലനശേഷി, ശിശുപരിചരണം തുടങ്ങിയവ",
+  "evacuees.searchPlaceholder": "പേര് അല്ലെങ്കിൽ കുടുംബം വെച്ച് തിരയുക...",
+  "evacuees.showCheckedOut": "ക്യാമ്പ് വിട്ടവരെ കാണിക്കുക",
+  "evacuees.hideCheckedOut": "ക്യാമ്പ് വിട്ടവരെ മറയ്ക്കുക",
+  "evacuees.none": "ദുരിതബാധിതരെ കണ്ടെത്തിയില്ല",
+  "evacuees.inCamp": "ക്യാമ്പിലുണ്ട്",
+  "evacuees.checkedOut": "ക്യാമ്പ് വിട്ടു",
+  "evacuees.checkOut": "ചെക്ക് ഔട്ട്",
+  "evacuees.checkedInToast": "ചെക്ക് ഇൻ ചെയ്തു",
+  "evacuees.checkInFailed": "ചെക്ക് ഇൻ ചെയ്യാനായില്ല",
+  "evacuees.checkedOutName": "{name} ചെക്ക് ഔട്ട് ചെയ്തു",
+  "evacuees.checkedInAgainName": "{name} വീണ്ടും ചെക്ക് ഇൻ ചെയ്തു",
+  "evacuees.updateFailed": "വിവരങ്ങൾ പുതുക്കാനായില്ല",
+  "evacuees.loadFailed": "രജിസ്റ്റർ ലോഡ് ചെയ്യാനായില്ല",
+
+  "reunification.title": "കുടുംബ പുനഃസമാഗമം",
+  "reunification.subtitle": "ഈ ക്യാമ്പിലുണ്ടാകാവുന്ന ആളെ തിരയുന്ന കുടുംബങ്ങൾ. നിങ്ങൾ സ്ഥിരീകരിച്ച ശേഷമേ വിവരങ്ങൾ പങ്കുവെക്കൂ.",
+  "reunification.none": "ഇപ്പോൾ സാധ്യതയുള്ള പൊരുത്തങ്ങളൊന്നുമില്ല",
+  "reunification.lookingFor": "കുടുംബം തിരയുന്നത്",
+  "reunification.registeredHere": "ഈ ക്യാമ്പിൽ രജിസ്റ്റർ ചെയ്തത്",
+  "reunification.familyContact": "കുടുംബത്തിന്റെ ഫോൺ:",
+  "reunification.notMatch": "ഇത് അവരല്ല",
+  "reunification.confirm": "പൊരുത്തം സ്ഥിരീകരിക്കുക",
+  "reunification.confirmed": "പൊരുത്തം കുടുംബത്തെ അറിയിച്ചു",
+  "reunification.dismissed": "പൊരുത്തം തള്ളി",
+  "reunification.reviewFailed": "പൊരുത്തം പരിശോധിക്കാനായില്ല",
+
+  "deliveries.none": "ഇതുവരെ വാഗ്ദാനങ്ങളോ വിതരണങ്ങളോ ഇല്ല",
+  "deliveries.expected": "പ്രതീക്ഷിക്കുന്നവ",
+  "deliveries.received": "ലഭിച്ചവ",
+  "deliveries.cancelledByNgo": "എൻജിഒ റദ്ദാക്കിയവ",
+  "deliveries.from": "{name} അയച്ചത്",
+  "deliveries.receivedCount": "{count} ലഭിച്ചു",
+  "deliveries.receivedOfPledged": "{count} ലഭിച്ചു ({pledged} വാഗ്ദാനം ചെയ്തിരുന്നു)",
+  "deliveries.receiptWaiting": "രസീത് സിങ്കിനായി കാത്തിരിക്കുന്നു",
+  "deliveries.confirmReceipt": "ലഭിച്ചത് സ്ഥിരീകരിക്കുക",
+  "deliveries.quantityReceived": "ലഭിച്ച അളവ്",
+  "deliveries.pledgedHint": "വാഗ്ദാനം: {count}. യഥാർത്ഥത്തിൽ എത്തിയത് രേഖപ്പെടുത്തുക.",
+  "deliveries.notes": "കുറിപ്പുകൾ (ഐച്ഛികം)",
+  "deliveries.notesPlaceholder": "കേടായ സാധനങ്ങൾ, കുറവ് തുടങ്ങിയവ",
+  "deliveries.confirmed": "ലഭിച്ചത് സ്ഥിരീകരിച്ചു",
+  "deliveries.confirmFailed": "ലഭിച്ചത് സ്ഥിരീകരിക്കാനായില്ല",
+  "deliveries.surplusPending": "ആവശ്യപ്പെട്ടതിലും {count} അധികം ഉൾപ്പെടുന്നു",
+  "deliveries.surplusAccepted": "നിങ്ങൾ സ്വീകരിച്ച {count} അധികം ഉൾപ്പെടുന്നു",
+  "deliveries.surplusDeclined": "{count} അധികം നിങ്ങൾ നിരസിച്ചു",
+  "deliveries.acceptSurplus": "അധികം സ്വീകരിക്കുക",
+  "deliveries.declineSurplus": "അധികം നിരസിക്കുക",
+  "deliveries.surplusAcceptedToast": "അധികം സ്വീകരിച്ചു",
+  "deliveries.surplusDeclinedToast": "അധികം നിരസിച്ചു",
+  "deliveries.surplusDecisionFailed": "നിങ്ങളുടെ തീരുമാനം രേഖപ്പെടുത്താനായില്ല",
+
+  "deliveryTracker.none": "ഇതുവരെ വാഗ്ദാനങ്ങളൊന്നുമില്ല",
+  "deliveryTracker.loadFailed": "വിതരണങ്ങൾ ലോഡ് ചെയ്യാനായില്ല",
+  "deliveryTracker.status": "നില",
+  "deliveryTracker.allStatuses": "എല്ലാ നിലകളും",
+  "deliveryTracker.pledgedFrom": "വാഗ്ദാനം ചെയ്തത് (മുതൽ)",
+  "deliveryTracker.pledgedUntil": "വാഗ്ദാനം ചെയ്തത് (വരെ)",
+  "deliveryTracker.clearFilters": "ഫിൽട്ടറുകൾ മായ്ക്കുക",
+  "deliveryTracker.noMatches": "ഈ ഫിൽട്ടറുകൾക്ക് യോജിക്കുന്ന വാഗ്ദാനങ്ങളില്ല",
+  "deliveryTracker.needCancelled": "ക്യാമ്പ് ഈ ആവശ്യം റദ്ദാക്കി",
+  "deliveryTracker.needCancelledReason": "ക്യാമ്പ് ഈ ആവശ്യം റദ്ദാക്കി: {reason}",
+  "deliveryTracker.pledged": "വാഗ്ദാനം ചെയ്തു",
+  "deliveryTracker.receivedByCamp": "ക്യാമ്പിന് ലഭിച്ചു",
+  "deliveryTracker.pledgedAt": "വാഗ്ദാനം ചെയ്തത് {time}",
+  "deliveryTracker.dispatchedAt": "അയച്ചത് {time}",
+  "deliveryTracker.receivedAt": "ലഭിച്ചത് {time}",
+  "deliveryTracker.cancelledAt": "റദ്ദാക്കിയത് {time}",
+  "deliveryTracker.trackingNote": "ട്രാക്കിംഗ് കുറിപ്പ്",
+  "deliveryTracker.trackingNotePlaceholder": "ക്യാമ്പിനായി ഒരു ട്രാക്കിംഗ് കുറിപ്പ് ചേർക്കുക",
+  "deliveryTracker.addNote": "ചേർക്കുക",
+  "deliveryTracker.noteFailed": "കുറിപ്പ് ചേർക്കാനായില്ല",
+  "deliveryTracker.markDispatched": "അയച്ചതായി രേഖപ്പെടുത്തുക",
+  "deliveryTracker.dispatchTitle": "അയയ്ക്കൽ വിവരങ്ങൾ",
+  "deliveryTracker.vehicleNumber": "വാഹന നമ്പർ",
+  "deliveryTracker.driverName": "ഡ്രൈവറുടെ പേര്",
+  "deliveryTracker.driverPhone": "ഡ്രൈവറുടെ ഫോൺ",
+  "deliveryTracker.confirmDispatch": "അയയ്ക്കൽ സ്ഥിരീകരിക്കുക",
+  "deliveryTracker.dispatched": "അയച്ചതായി രേഖപ്പെടുത്തി",
+  "deliveryTracker.dispatchFailed": "വിതരണം അപ്ഡേറ്റ് ചെയ്യാനായില്ല",
+  "deliveryTracker.cancelPledge": "വാഗ്ദാനം റദ്ദാക്കുക",
+  "deliveryTracker.cancelBody": "നിങ്ങളുടെ കാരണം ക്യാമ്പ് കാണും. ഈ അളവ് മറ്റ് എൻജിഒകൾക്ക് വാഗ്ദാനം ചെയ്യാനായി ആവശ്യത്തിലേക്ക് തിരികെ ചേർക്കും.",
+  "deliveryTracker.reason": "കാരണം",
+  "deliveryTracker.reasonPlaceholder": "സ്റ്റോക്ക് തീർന്നു, വാഹനം ലഭ്യമല്ല, തുടങ്ങിയവ",
+  "deliveryTracker.cancelled": "വാഗ്ദാനം റദ്ദാക്കി",
+  "deliveryTracker.cancelFailed": "വാഗ്ദാനം റദ്ദാക്കാനായില്ല",
+  "deliveryTracker.surplusPending": "{count} അധികം ക്യാമ്പ് സ്വീകരിക്കാൻ കാത്തിരിക്കുന്നു",
+  "deliveryTracker.surplusAccepted": "{count} അധികം ക്യാമ്പ് സ്വീകരിച്ചു",
+  "deliveryTracker.surplusDeclined": "{count} അധികം ക്യാമ്പ് നിരസിച്ചു",
+
+  "inventory.subtitle": "സ്ഥിരീകരിച്ച വിതരണങ്ങൾ സ്വയം ചേർക്കപ്പെടും",
+  "inventory.addItem": "സാധനം ചേർക്കുക",
+  "inventory.addItemTitle": "സ്റ്റോക്കിൽ സാധനം ചേർക്കുക",
+  "inventory.none": "ഇതുവരെ സ്റ്റോക്ക് രേഖപ്പെടുത്തിയിട്ടില്ല",
+  "inventory.lowStock": "സ്റ്റോക്ക് കുറവ്",
+  "inventory.expired": "കാലാവധി കഴിഞ്ഞു",
+  "inventory.expires": "{date}-ന് കാലാവധി തീരും",
+  "inventory.onHand": "{count} {unit} കൈവശമുണ്ട്",
+  "inventory.thresholdValue": "പരിധി {count}",
+  "inventory.stockIn": "സ്റ്റോക്ക് ചേർക്കുക",
+  "inventory.issue": "നൽകുക",
+  "inventory.stockInTitle": "സ്റ്റോക്ക് ചേർക്കുക: {item}",
+  "inventory.issueTitle": "സ്റ്റോക്ക് നൽകുക: {item}",
+  "inventory.levelsTitle": "സ്റ്റോക്ക് നിലകൾ: {item}",
+  "inventory.ledgerTitle": "സ്റ്റോക്ക് രജിസ്റ്റർ: {item}",
+  "inventory.unit": "അളവുകോൽ",
+  "inventory.unitPlaceholder": "കിലോ, പാക്കറ്റ്, ലിറ്റർ…",
+  "inventory.threshold": "കുറഞ്ഞ സ്റ്റോക്ക് പരിധി",
+  "inventory.restockTo": "നിറയ്ക്കേണ്ട അളവ്",
+  "inventory.thresholdHint": "സ്റ്റോക്ക് പരിധിയിലേക്ക് താഴുമ്പോൾ കുറവിനുള്ള ആവശ്യം സ്വയം ഉന്നയിക്കും",
+  "inventory.reason": "കാരണം",
+  "inventory.distributionOption": "ദുരിതബാധിതർക്ക് വിതരണം",
+  "inventory.otherOption": "മറ്റുള്ളവ (കാലാവധി കഴിഞ്ഞത്, കേടായത്, കൈമാറിയത്)",
+  "inventory.evacuee": "ദുരിതബാധിതർ",
+  "inventory.selectEvacuee": "ദുരിതബാധിതരെ തിരഞ്ഞെടുക്കുക",
+  "inventory.batch": "ബാച്ച്",
+  "inventory.earliestExpiry": "ആദ്യം കാലാവധി തീരുന്നത് ആദ്യം",
+  "inventory.unbatched": "ബാച്ചില്ലാത്തത്",
+  "inventory.batchExpiry": "കാലാവധി {date}",
+  "inventory.batchLeft": "{count} ബാക്കി",
+  "inventory.quantity": "അളവ് ({unit})",
+  "inventory.batchNumber": "ബാച്ച് നമ്പർ (ഐച്ഛികം)",
+  "inventory.expiryDate": "കാലാവധി തീയതി (ഐച്ഛികം)",
+  "inventory.notes": "കുറിപ്പുകൾ (ഐച്ഛികം)",
+  "inventory.noMovements": "ഇതുവരെ നീക്കങ്ങളില്ല",
+  "inventory.batchRef": "ബാച്ച് {batch}",
+  "inventory.balance": "ബാക്കി {count}",
+  "inventory.itemAdded": "സാധനം സ്റ്റോക്കിൽ ചേർത്തു",
+  "inventory.addFailed": "സാധനം ചേർക്കാനായില്ല",
+  "inventory.levelsUpdated": "സ്റ്റോക്ക് നിലകൾ പുതുക്കി",
+  "inventory.updateFailed": "സാധനം പുതുക്കാനായില്ല",
+  "inventory.stockUpdated": "സ്റ്റോക്ക് പുതുക്കി",
+  "inventory.movementFailed": "സ്റ്റോക്ക് നീക്കം രേഖപ്പെടുത്താനായില്ല",
+  "inventory.loadFailed": "സ്റ്റോക്ക് ലോഡ് ചെയ്യാനായില്ല",
+
+  "campLifecycle.title": "ക്യാമ്പിന്റെ നില",
+  "campLifecycle.activeHint": "ആളുകളെ സ്വീകരിക്കുന്നു",
+  "campLifecycle.fullHint": "സീറ്റുകൾ ഒഴിവില്ല; ആരെങ്കിലും ചെക്ക് ഔട്ട് ചെയ്യുമ്പോൾ വീണ്ടും തുറക്കും",
+  "campLifecycle.inactiveHint": "താൽക്കാലികമായി നിർത്തി",
+  "campLifecycle.closedHint": "അടച്ചു",
+  "campLifecycle.since": "{date} മുതൽ",
+  "campLifecycle.to_active": "വീണ്ടും തുറക്കുക",
+  "campLifecycle.to_full": "നിറഞ്ഞതായി അടയാളപ്പെടുത്തുക",
+  "campLifecycle.to_inactive": "താൽക്കാലികമായി നിർത്തുക",
+  "campLifecycle.to_closed": "ക്യാമ്പ് അടയ്ക്കുക",
+  "campLifecycle.statusChanged": "ക്യാമ്പ് ഇപ്പോൾ: {status}",
+  "campLifecycle.statusFailed": "ക്യാമ്പിന്റെ നില മാറ്റാനായില്ല",
+  "campLifecycle.reason": "കാരണം",
+  "campLifecycle.suspendTitle": "ക്യാമ്പ് താൽക്കാലികമായി നിർത്തുക",
+  "campLifecycle.suspendBody": "വീണ്ടും തുറക്കുന്നതുവരെ ക്യാമ്പ് പുതിയ ആളുകളെ സ്വീകരിക്കില്ല.",
+  "campLifecycle.suspendReasonPlaceholder": "വഴിയിൽ വെള്ളക്കെട്ട്, അറ്റകുറ്റപ്പണി, ...",
+  "campLifecycle.closeTitle": "ക്യാമ്പ് അടയ്ക്കുക",
+  "campLifecycle.closeBody": "അടച്ചാൽ പിന്നീട് തുറക്കാനാവില്ല. ആദ്യം എല്ലാവരെയും മറ്റൊരു ക്യാമ്പിലേക്ക് മാറ്റുകയോ ചെക്ക് ഔട്ട് ചെയ്യുകയോ വേണം.",
+  "campLifecycle.closeReasonPlaceholder": "വെള്ളം ഇറങ്ങി, ആളുകളെ ... ലേക്ക് മാറ്റി",
+  "campLifecycle.evacueesCleared": "ആരും ചെക്ക് ഇൻ ചെയ്തിട്ടില്ല",
+  "campLifecycle.evacueesRemaining": "{count} പേർ ഇപ്പോഴും ചെക്ക് ഇൻ ചെയ്തിട്ടുണ്ട്",
+  "campLifecycle.openRegistry": "രജിസ്റ്റർ തുറക്കുക",
+  "campLifecycle.deliveriesCleared": "വഴിയിലുള്ള ഡെലിവറികളൊന്നുമില്ല",
+  "campLifecycle.deliveriesRemaining": "{count} ഡെലിവറികൾ വാഗ്ദാനം ചെയ്തതോ വഴിയിലോ ആണ്; NGO-കളെ അറിയിക്കുക",
+  "campLifecycle.needsCleared": "തുറന്ന ആവശ്യങ്ങളൊന്നുമില്ല",
+  "campLifecycle.needsRemaining": "{count} ആവശ്യങ്ങൾ ഇപ്പോഴും തുറന്നിരിക്കുന്നു; ക്യാമ്പിനൊപ്പം അവയും അടയ്ക്കും",
+  "campLifecycle.transferConfirm": "ഓരോരുത്തരും പോയ ക്യാമ്പോ വീട്ടുവിലാസമോ രേഖപ്പെടുത്തിയിട്ടുണ്ട്, അവരെ തിരയുന്ന കുടുംബങ്ങളെ ഇപ്പോഴും അറിയിക്കാം",
+
+  "offline.offline": "നിങ്ങൾ ഓഫ്‌ലൈനാണ്",
+  "offline.backOnline": "വീണ്ടും ഓൺലൈനായി",
+  "offline.needsAttention": "ചില ഓഫ്‌ലൈൻ മാറ്റങ്ങൾ ശ്രദ്ധിക്കേണ്ടതുണ്ട്",
+  "offline.savedLocally": "നിങ്ങൾ വരുത്തുന്ന മാറ്റങ്ങൾ ഈ ഉപകരണത്തിൽ സൂക്ഷിക്കും, കണക്ഷൻ തിരിച്ചെത്തുമ്പോൾ സിങ്ക് ചെയ്യും.",
+  "offline.pendingCount": "{count} മാറ്റം(ങ്ങൾ) സിങ്ക് ചെയ്യാൻ കാത്തിരിക്കുന്നു",
+  "offline.conflictsHelp": "സെർവർ ഈ മാറ്റങ്ങൾ നിരസിച്ചു. വീണ്ടും ശ്രമിക്കുക അല്ലെങ്കിൽ ഉപേക്ഷിക്കുക.",
+  "offline.syncNow": "ഇപ്പോൾ സിങ്ക് ചെയ്യുക",
+  "offline.syncing": "സിങ്ക് ചെയ്യുന്നു...",
+  "offline.synced": "{count} ഓഫ്‌ലൈൻ മാറ്റം(ങ്ങൾ) സിങ്ക് ചെയ്തു",
+  "offline.conflictsFound": "{count} ഓഫ്‌ലൈൻ മാറ്റം(ങ്ങൾ) സിങ്ക് ചെയ്യാനായില്ല",
+  "offline.stillRejected": "സെർവർ മാറ്റം വീണ്ടും നിരസിച്ചു",
+  "offline.retry": "വീണ്ടും ശ്രമിക്കുക",
+  "offline.discard": "ഉപേക്ഷിക്കുക",
+  "offline.recordedAt": "{time}-ന് രേഖപ്പെടുത്തിയത്",
+  "offline.registerEvacuee": "{name} പ്രവേശിപ്പിക്കുക",
+  "offline.addNeed": "ആവശ്യം ചേർക്കുക: {item} ({count})",
+  "offline.confirmDelivery": "വിതരണം ലഭിച്ചതായി സ്ഥിരീകരിക്കുക ({count} ലഭിച്ചു)",
+  "offline.waitingToSync": "സിങ്കിനായി കാത്തിരിക്കുന്നു",
+  "offline.savedOffline": "ഓഫ്‌ലൈനായി സൂക്ഷിച്ചു. കണക്ഷൻ തിരിച്ചെത്തുമ്പോൾ സിങ്ക് ചെയ്യും.",
+
+  "live.updatedJustNow": "ഇപ്പോൾ പുതുക്കി",
+  "live.updatedAgo": "{time} പുതുക്കി",
+  "live.connected": "തത്സമയ അപ്‌ഡേറ്റുകൾ ഓണാണ്",
+  "live.disconnected": "തത്സമയ അപ്‌ഡേറ്റുകൾ നിലച്ചു; അവസാനം ലോഡ് ചെയ്ത വിവരങ്ങൾ കാണിക്കുന്നു",
+  "live.newlyCritical": "പുതുതായി ഗുരുതരം",
+
+  "ngo.title": "സംഘടനാ ഡാഷ്ബോർഡ്",
+  "ngo.subtitle": "ദുരിതാശ്വാസ പ്രവർത്തനങ്ങൾ ഏകോപിപ്പിക്കുക",
+  "ngo.loadFailed": "വിവരങ്ങൾ ലോഡ് ചെയ്യാനായില്ല",
+  "ngo.myPledges": "എന്റെ വാഗ്ദാനങ്ങൾ",
+  "ngo.cancelledNeedPledges": "ക്യാമ്പ് റദ്ദാക്കിയ ആവശ്യങ്ങൾക്കുള്ള വാഗ്ദാനങ്ങൾ",
+  "ngo.noNeeds": "ഇപ്പോൾ അടിയന്തര ആവശ്യങ്ങളൊന്നുമില്ല",
+  "ngo.provideAssistance": "സഹായം നൽകുക",
+  "ngo.substituteHint": "ഇതേ വിഭാഗത്തിൽ നിന്ന് പകരമുള്ള സാധനം തിരഞ്ഞെടുക്കാം",
+  "ngo.equivalentHint": "തത്തുല്യമായ സാധനമാണ് അയയ്ക്കുന്നതെങ്കിൽ കാറ്റലോഗിൽ നിന്ന് തിരഞ്ഞെടുക്കുക",
+  "ngo.quantityToProvide": "നൽകുന്ന അളവ്",
+  "ngo.remainingNeeded": "ഇനി ആവശ്യമുള്ളത്: {count}",
+  "ngo.notes": "കുറിപ്പുകൾ (ഐച്ഛികം)",
+  "ngo.notesPlaceholder": "വിതരണ വിവരങ്ങൾ, സമയക്രമം മുതലായവ",
+  "ngo.pledge": "സഹായം വാഗ്ദാനം ചെയ്യുക",
+  "ngo.pledged": "സഹായം വിജയകരമായി വാഗ്ദാനം ചെയ്തു!",
+  "ngo.pledgeFailed": "സഹായം നൽകാനായില്ല",
+
+  "ngoVerification.pendingBody": "ജില്ലാ ഉദ്യോഗസ്ഥൻ നിങ്ങളുടെ സംഘടന പരിശോധിക്കുകയാണ്. പരിശോധന കഴിഞ്ഞാൽ വാഗ്ദാനം ചെയ്യാം.",
+  "ngoVerification.rejectedBody": "നിങ്ങളുടെ പരിശോധന അംഗീകരിച്ചില്ല. വിവരങ്ങൾ പരിശോധിച്ച് വീണ്ടും സമർപ്പിക്കുക.",
+  "ngoVerification.unsubmittedBody": "സഹായം വാഗ്ദാനം ചെയ്തു തുടങ്ങാൻ സംഘടനയുടെ രജിസ്ട്രേഷൻ വിവരങ്ങൾ സമർപ്പിക്കുക.",
+  "ngoVerification.organizationName": "സംഘടനയുടെ പേര്",
+  "ngoVerification.registrationLabel": "എൻജിഒ ദർപ്പൺ ഐഡി / രജിസ്ട്രേഷൻ നമ്പർ",
+  "ngoVerification.submit": "പരിശോധനയ്ക്ക് സമർപ്പിക്കുക",
+  "ngoVerification.submitted": "പരിശോധനയ്ക്കായി സമർപ്പിച്ചു",
+  "ngoVerification.submitFailed": "പരിശോധനയ്ക്ക് സമർപ്പിക്കാനായില്ല",
+
+  "catalogue.search": "സാധനങ്ങൾ തിരയുക…",
+  "catalogue.searchPlaceholder": "അരി, Rice, സോപ്പ്…",
+  "catalogue.useCustom": "“{name}” ഉപയോഗിക്കുക",
+  "catalogue.noMatches": "പൊരുത്തമുള്ള സാധനങ്ങളില്ല",
+  "catalogue.packSize": "{size} {unit} പാക്ക്",
+  "catalogue.perUnit": "ഓരോ {unit}",
+
+  "pledgeForm.quantityRequired": "എത്രയെണ്ണം വാഗ്ദാനം ചെയ്യുന്നുവെന്ന് നൽകുക",
+  "pledgeForm.wholeNumber": "പൂർണ്ണസംഖ്യ നൽകുക",
+  "pledgeForm.positive": "കുറഞ്ഞത് 1 എങ്കിലും വാഗ്ദാനം ചെയ്യുക",
+  "pledgeForm.overRemaining": "ഇനി {count} മാത്രമേ ആവശ്യമുള്ളൂ. ബാക്കി അധികമായി വാഗ്ദാനം ചെയ്യുക അല്ലെങ്കിൽ എണ്ണം കുറയ്ക്കുക.",
+  "pledgeForm.surplusOption": "അധികമുള്ള {count} മിച്ചമായി അയയ്ക്കുക. ക്യാമ്പിന് അത് സ്വീകരിക്കുകയോ നിരസിക്കുകയോ ചെയ്യാം.",
+  "pledgeForm.notesTooLong": "കുറിപ്പുകൾ 500 അക്ഷരങ്ങളിൽ താഴെയാക്കുക",
+};
@@ -14,36 +14,205 @@ export type Database = {
   }
   public: {
     Tables: {
+      assistance_tracking_notes: {
+        Row: {
+          assistance_id: string
+          author_id: string
+          created_at: string
+          id: string
+          note: string
+        }
+        Insert: {
+          assistance_id: string
+          author_id?: string
+          created_at?: string
+          id?: string
+          note: string
+        }
+        Update: {
+          assistance_id?: string
+          author_id?: string
+          created_at?: string
+          id?: string
+          note?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assistance_tracking_notes_assistance_id_fkey"
+            columns: ["assistance_id"]
+            isOneToOne: false
+            referencedRelation: "ngo_assistance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assistance_tracking_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camp_invites: {
+        Row: {
+          camp_id: string
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string | null
+          responded_at: string | null
+          role: string
+          status: string
+        }
+        Insert: {
+          camp_id: string
+          created_at?: string | null
+          email: string
+          id?: string
+          invited_by?: string | null
+          responded_at?: string | null
+          role: string
+          status?: string
+        }
+        Update: {
+          camp_id?: string
+          created_at?: string | null
+          email?: string
+          id?: string
+          invited_by?: string | null
+          responded_at?: string | null
+          role?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camp_invites_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camp_members: {
+        Row: {
+          camp_id: string
+          created_at: string | null
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          camp_id: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          camp_id?: string
+          created_at?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camp_members_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_members_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       camp_needs: {
         Row: {
           camp_id: string
+          catalogue_item_id: string | null
+          closed_at: string | null
+          closed_reason: string | null
           created_at: string | null
+          escalated_at: string | null
+          expires_at: string | null
           id: string
+          inventory_item_id: string | null
           item_name: string
+          needed_from: string | null
+          parent_need_id: string | null
           quantity_fulfilled: number | null
           quantity_needed: number
+          quantity_pledged: number
           status: string | null
-          urgency: string | null
+          unanswered_since: string | null
+          urgency: Database["public"]["Enums"]["need_urgency"]
+          urgency_changed_at: string
         }
         Insert: {
           camp_id: string
+          catalogue_item_id?: string | null
+          closed_at?: string | null
+          closed_reason?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          expires_at?: string | null
           id?: string
+          inventory_item_id?: string | null
           item_name: string
+          needed_from?: string | null
+          parent_need_id?: string | null
           quantity_fulfilled?: number | null
           quantity_needed: number
+          quantity_pledged?: number
           status?: string | null
-          urgency?: string | null
+          unanswered_since?: string | null
+          urgency?: Database["public"]["Enums"]["need_urgency"]
+          urgency_changed_at?: string
         }
         Update: {
           camp_id?: string
+          catalogue_item_id?: string | null
+          closed_at?: string | null
+          closed_reason?: string | null
           created_at?: string | null
+          escalated_at?: string | null
+          expires_at?: string | null
           id?: string
+          inventory_item_id?: string | null
           item_name?: string
+          needed_from?: string | null
+          parent_need_id?: string | null
           quantity_fulfilled?: number | null
           quantity_needed?: number
+          quantity_pledged?: number
           status?: string | null
-          urgency?: string | null
+          unanswered_since?: string | null
+          urgency?: Database["public"]["Enums"]["need_urgency"]
+          urgency_changed_at?: string
         }
         Relationships: [
           {
@@ -53,53 +222,101 @@ export type Database = {
             referencedRelation: "camps"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "camp_needs_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_needs_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_needs_parent_need_id_fkey"
+            columns: ["parent_need_id"]
+            isOneToOne: false
+            referencedRelation: "camp_needs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       camps: {
         Row: {
           camp_admin_id: string
+          closed_at: string | null
           contact_email: string | null
           contact_phone: string
           created_at: string | null
+          document_path: string | null
           id: string
           latitude: number | null
           location: string
           longitude: number | null
           name: string
           occupied_seats: number
+          registration_number: string | null
           status: string | null
+          status_changed_at: string | null
+          status_reason: string | null
           total_capacity: number
           updated_at: string | null
+          verification_notes: string | null
+          verification_status: string
+          verified_at: string | null
+          verified_by: string | null
         }
         Insert: {
           camp_admin_id: string
+          closed_at?: string | null
           contact_email?: string | null
           contact_phone: string
           created_at?: string | null
+          document_path?: string | null
           id?: string
           latitude?: number | null
           location: string
           longitude?: number | null
           name: string
           occupied_seats?: number
+          registration_number?: string | null
           status?: string | null
+          status_changed_at?: string | null
+          status_reason?: string | null
           total_capacity?: number
           updated_at?: string | null
+          verification_notes?: string | null
+          verification_status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Update: {
           camp_admin_id?: string
+          closed_at?: string | null
           contact_email?: string | null
           contact_phone?: string
           created_at?: string | null
+          document_path?: string | null
           id?: string
           latitude?: number | null
           location?: string
           longitude?: number | null
           name?: string
           occupied_seats?: number
+          registration_number?: string | null
           status?: string | null
+          status_changed_at?: string | null
+          status_reason?: string | null
           total_capacity?: number
           updated_at?: string | null
+          verification_notes?: string | null
+          verification_status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Relationships: [
           {
@@ -109,41 +326,425 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "camps_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      catalogue_items: {
+        Row: {
+          aliases: string[]
+          category: string
+          created_at: string | null
+          id: string
+          name: string
+          name_ml: string | null
+          pack_size: number | null
+          unit: string
+        }
+        Insert: {
+          aliases?: string[]
+          category: string
+          created_at?: string | null
+          id?: string
+          name: string
+          name_ml?: string | null
+          pack_size?: number | null
+          unit: string
+        }
+        Update: {
+          aliases?: string[]
+          category?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          name_ml?: string | null
+          pack_size?: number | null
+          unit?: string
+        }
+        Relationships: []
+      }
+      evacuees: {
+        Row: {
+          age: number | null
+          camp_id: string
+          checked_in_at: string
+          checked_out_at: string | null
+          created_at: string | null
+          family_group: string | null
+          full_name: string
+          gender: string | null
+          home_village: string | null
+          id: string
+          registered_by: string | null
+          special_needs: string | null
+          status: string
+        }
+        Insert: {
+          age?: number | null
+          camp_id: string
+          checked_in_at?: string
+          checked_out_at?: string | null
+          created_at?: string | null
+          family_group?: string | null
+          full_name: string
+          gender?: string | null
+          home_village?: string | null
+          id?: string
+          registered_by?: string | null
+          special_needs?: string | null
+          status?: string
+        }
+        Update: {
+          age?: number | null
+          camp_id?: string
+          checked_in_at?: string
+          checked_out_at?: string | null
+          created_at?: string | null
+          family_group?: string | null
+          full_name?: string
+          gender?: string | null
+          home_village?: string | null
+          id?: string
+          registered_by?: string | null
+          special_needs?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evacuees_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evacuees_registered_by_fkey"
+            columns: ["registered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      inventory_batches: {
+        Row: {
+          batch_number: string | null
+          created_at: string | null
+          expiry_date: string | null
+          id: string
+          item_id: string
+          quantity_on_hand: number
+        }
+        Insert: {
+          batch_number?: string | null
+          created_at?: string | null
+          expiry_date?: string | null
+          id?: string
+          item_id: string
+          quantity_on_hand?: number
+        }
+        Update: {
+          batch_number?: string | null
+          created_at?: string | null
+          expiry_date?: string | null
+          id?: string
+          item_id?: string
+          quantity_on_hand?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_batches_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_items: {
+        Row: {
+          camp_id: string
+          catalogue_item_id: string | null
+          created_at: string | null
+          id: string
+          low_stock_threshold: number | null
+          name: string
+          reorder_quantity: number | null
+          unit: string
+        }
+        Insert: {
+          camp_id: string
+          catalogue_item_id?: string | null
+          created_at?: string | null
+          id?: string
+          low_stock_threshold?: number | null
+          name: string
+          reorder_quantity?: number | null
+          unit?: string
+        }
+        Update: {
+          camp_id?: string
+          catalogue_item_id?: string | null
+          created_at?: string | null
+          id?: string
+          low_stock_threshold?: number | null
+          name?: string
+          reorder_quantity?: number | null
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_items_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_items_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_movements: {
+        Row: {
+          assistance_id: string | null
+          balance_after: number
+          batch_id: string | null
+          camp_id: string
+          created_at: string | null
+          evacuee_id: string | null
+          id: string
+          item_id: string
+          movement_type: string
+          notes: string | null
+          quantity: number
+          recorded_by: string | null
+        }
+        Insert: {
+          assistance_id?: string | null
+          balance_after: number
+          batch_id?: string | null
+          camp_id: string
+          created_at?: string | null
+          evacuee_id?: string | null
+          id?: string
+          item_id: string
+          movement_type: string
+          notes?: string | null
+          quantity: number
+          recorded_by?: string | null
+        }
+        Update: {
+          assistance_id?: string | null
+          balance_after?: number
+          batch_id?: string | null
+          camp_id?: string
+          created_at?: string | null
+          evacuee_id?: string | null
+          id?: string
+          item_id?: string
+          movement_type?: string
+          notes?: string | null
+          quantity?: number
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_assistance_id_fkey"
+            columns: ["assistance_id"]
+            isOneToOne: false
+            referencedRelation: "ngo_assistance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_evacuee_id_fkey"
+            columns: ["evacuee_id"]
+            isOneToOne: false
+            referencedRelation: "evacuees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      missing_person_reports: {
+        Row: {
+          age: number | null
+          contact_phone: string
+          created_at: string | null
+          description: string | null
+          full_name: string
+          gender: string | null
+          home_village: string | null
+          id: string
+          reporter_id: string
+          status: string
+        }
+        Insert: {
+          age?: number | null
+          contact_phone: string
+          created_at?: string | null
+          description?: string | null
+          full_name: string
+          gender?: string | null
+          home_village?: string | null
+          id?: string
+          reporter_id: string
+          status?: string
+        }
+        Update: {
+          age?: number | null
+          contact_phone?: string
+          created_at?: string | null
+          description?: string | null
+          full_name?: string
+          gender?: string | null
+          home_village?: string | null
+          id?: string
+          reporter_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "missing_person_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      need_escalation_rules: {
+        Row: {
+          escalate_after_hours: number
+          updated_at: string
+          urgency: Database["public"]["Enums"]["need_urgency"]
+        }
+        Insert: {
+          escalate_after_hours: number
+          updated_at?: string
+          urgency: Database["public"]["Enums"]["need_urgency"]
+        }
+        Update: {
+          escalate_after_hours?: number
+          updated_at?: string
+          urgency?: Database["public"]["Enums"]["need_urgency"]
+        }
+        Relationships: []
+      }
       ngo_assistance: {
         Row: {
           camp_id: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          catalogue_item_id: string | null
           created_at: string | null
           delivery_status: string | null
+          dispatched_at: string | null
+          driver_name: string | null
+          driver_phone: string | null
           id: string
           items_provided: string
           need_id: string | null
           ngo_id: string
           notes: string | null
           quantity: number
+          quantity_received: number | null
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          surplus_decided_at: string | null
+          surplus_decided_by: string | null
+          surplus_quantity: number
+          surplus_status: string | null
+          vehicle_number: string | null
         }
         Insert: {
           camp_id: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          catalogue_item_id?: string | null
           created_at?: string | null
           delivery_status?: string | null
+          dispatched_at?: string | null
+          driver_name?: string | null
+          driver_phone?: string | null
           id?: string
           items_provided: string
           need_id?: string | null
           ngo_id: string
           notes?: string | null
           quantity: number
+          quantity_received?: number | null
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          surplus_decided_at?: string | null
+          surplus_decided_by?: string | null
+          surplus_quantity?: number
+          surplus_status?: string | null
+          vehicle_number?: string | null
         }
         Update: {
           camp_id?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          catalogue_item_id?: string | null
           created_at?: string | null
           delivery_status?: string | null
+          dispatched_at?: string | null
+          driver_name?: string | null
+          driver_phone?: string | null
           id?: string
           items_provided?: string
           need_id?: string | null
           ngo_id?: string
           notes?: string | null
           quantity?: number
+          quantity_received?: number | null
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          surplus_decided_at?: string | null
+          surplus_decided_by?: string | null
+          surplus_quantity?: number
+          surplus_status?: string | null
+          vehicle_number?: string | null
         }
         Relationships: [
           {
@@ -153,6 +754,13 @@ export type Database = {
             referencedRelation: "camps"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ngo_assistance_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ngo_assistance_need_id_fkey"
             columns: ["need_id"]
@@ -167,31 +775,196 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ngo_assistance_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ngo_assistance_surplus_decided_by_fkey"
+            columns: ["surplus_decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
         Row: {
           created_at: string | null
+          document_path: string | null
           full_name: string
           id: string
+          organization_name: string | null
           phone: string | null
+          preferred_language: string | null
+          registration_number: string | null
           role: Database["public"]["Enums"]["app_role"]
+          verification_notes: string | null
+          verification_status: string
+          verified_at: string | null
+          verified_by: string | null
         }
         Insert: {
           created_at?: string | null
+          document_path?: string | null
           full_name: string
           id: string
+          organization_name?: string | null
           phone?: string | null
+          preferred_language?: string | null
+          registration_number?: string | null
           role: Database["public"]["Enums"]["app_role"]
+          verification_notes?: string | null
+          verification_status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
         Update: {
           created_at?: string | null
+          document_path?: string | null
           full_name?: string
           id?: string
+          organization_name?: string | null
           phone?: string | null
+          preferred_language?: string | null
+          registration_number?: string | null
           role?: Database["public"]["Enums"]["app_role"]
+          verification_notes?: string | null
+          verification_status?: string
+          verified_at?: string | null
+          verified_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_verified_by_fkey"
+            columns: ["verified_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reunification_matches: {
+        Row: {
+          camp_id: string
+          created_at: string | null
+          evacuee_id: string
+          id: string
+          report_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          score: number
+          status: string
+        }
+        Insert: {
+          camp_id: string
+          created_at?: string | null
+          evacuee_id: string
+          id?: string
+          report_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          score: number
+          status?: string
+        }
+        Update: {
+          camp_id?: string
+          created_at?: string | null
+          evacuee_id?: string
+          id?: string
+          report_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          score?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reunification_matches_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reunification_matches_evacuee_id_fkey"
+            columns: ["evacuee_id"]
+            isOneToOne: false
+            referencedRelation: "evacuees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reunification_matches_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "missing_person_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reunification_matches_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_requests: {
+        Row: {
+          created_at: string
+          id: string
+          message: string | null
+          organization_name: string | null
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          organization_name?: string | null
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          organization_name?: string | null
+          requested_role?: Database["public"]["Enums"]["app_role"]
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       volunteers: {
         Row: {
@@ -243,13 +1016,352 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      camp_needs_prioritized: {
+        Row: {
+          camp_id: string | null
+          catalogue_item_id: string | null
+          closed_at: string | null
+          closed_reason: string | null
+          created_at: string | null
+          escalated_at: string | null
+          expires_at: string | null
+          id: string | null
+          inventory_item_id: string | null
+          item_name: string | null
+          needed_from: string | null
+          parent_need_id: string | null
+          priority_score: number | null
+          quantity_fulfilled: number | null
+          quantity_needed: number | null
+          quantity_pledged: number | null
+          status: string | null
+          unanswered_since: string | null
+          urgency: Database["public"]["Enums"]["need_urgency"] | null
+          urgency_changed_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camp_needs_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "camps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_needs_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_needs_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "camp_needs_parent_need_id_fkey"
+            columns: ["parent_need_id"]
+            isOneToOne: false
+            referencedRelation: "camp_needs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      apply_stock_movement: {
+        Args: {
+          _assistance_id?: string
+          _batch_id?: string
+          _batch_number?: string
+          _evacuee_id?: string
+          _expiry_date?: string
+          _item_id: string
+          _movement_type: string
+          _notes?: string
+          _quantity: number
+        }
+        Returns: undefined
+      }
+      can_review_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      confirm_delivery_receipt: {
+        Args: { _assistance_id: string; _notes?: string; _quantity_received: number }
+        Returns: {
+          camp_id: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          catalogue_item_id: string | null
+          created_at: string | null
+          delivery_status: string | null
+          dispatched_at: string | null
+          driver_name: string | null
+          driver_phone: string | null
+          id: string
+          items_provided: string
+          need_id: string | null
+          ngo_id: string
+          notes: string | null
+          quantity: number
+          quantity_received: number | null
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          surplus_decided_at: string | null
+          surplus_decided_by: string | null
+          surplus_quantity: number
+          surplus_status: string | null
+          vehicle_number: string | null
+        }
+      }
+      decide_pledge_surplus: {
+        Args: { _accept: boolean; _assistance_id: string }
+        Returns: {
+          camp_id: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          catalogue_item_id: string | null
+          created_at: string | null
+          delivery_status: string | null
+          dispatched_at: string | null
+          driver_name: string | null
+          driver_phone: string | null
+          id: string
+          items_provided: string
+          need_id: string | null
+          ngo_id: string
+          notes: string | null
+          quantity: number
+          quantity_received: number | null
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          surplus_decided_at: string | null
+          surplus_decided_by: string | null
+          surplus_quantity: number
+          surplus_status: string | null
+          vehicle_number: string | null
+        }
+      }
+      escalate_stale_needs: {
+        Args: never
+        Returns: number
+      }
+      expire_needs: {
+        Args: never
+        Returns: number
+      }
+      format_auth_phone: {
+        Args: { _phone: string }
+        Returns: string
+      }
+      get_my_camp_invites: {
+        Args: never
+        Returns: {
+          camp_id: string
+          camp_location: string
+          camp_name: string
+          created_at: string
+          invite_id: string
+          invited_by_name: string
+          role: string
+        }[]
+      }
+      get_my_report_matches: {
+        Args: never
+        Returns: {
+          camp_location: string
+          camp_name: string
+          contact_phone: string
+          created_at: string
+          evacuee_age: number
+          evacuee_name: string
+          family_group: string
+          match_id: string
+          report_id: string
+          status: string
+        }[]
+      }
+      has_assisted_camp: {
+        Args: { _camp_id: string }
+        Returns: boolean
+      }
+      has_camp_role: {
+        Args: { _camp_id: string; _roles?: string[] }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: never
+        Returns: boolean
+      }
+      is_ngo: {
+        Args: never
+        Returns: boolean
+      }
+      match_catalogue_item: {
+        Args: { _text: string }
+        Returns: string
+      }
+      match_missing_persons: {
+        Args: { _evacuee_id: string; _report_id: string }
+        Returns: undefined
+      }
+      need_priority_score: {
+        Args: {
+          _created_at: string
+          _occupied_seats: number
+          _quantity_fulfilled: number
+          _quantity_needed: number
+          _total_capacity: number
+          _urgency: Database["public"]["Enums"]["need_urgency"]
+        }
+        Returns: number
+      }
+      pledge_assistance: {
+        Args: {
+          _allow_surplus?: boolean
+          _catalogue_item_id?: string
+          _need_id: string
+          _notes?: string
+          _quantity: number
+        }
+        Returns: {
+          camp_id: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          catalogue_item_id: string | null
+          created_at: string | null
+          delivery_status: string | null
+          dispatched_at: string | null
+          driver_name: string | null
+          driver_phone: string | null
+          id: string
+          items_provided: string
+          need_id: string | null
+          ngo_id: string
+          notes: string | null
+          quantity: number
+          quantity_received: number | null
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          surplus_decided_at: string | null
+          surplus_decided_by: string | null
+          surplus_quantity: number
+          surplus_status: string | null
+          vehicle_number: string | null
+        }
+      }
+      raise_low_stock_need: {
+        Args: { _item_id: string }
+        Returns: undefined
+      }
+      recalculate_need_fulfilment: {
+        Args: { _need_id: string }
+        Returns: undefined
+      }
+      record_stock_movement: {
+        Args: {
+          _batch_id?: string
+          _batch_number?: string
+          _evacuee_id?: string
+          _expiry_date?: string
+          _item_id: string
+          _movement_type: string
+          _notes?: string
+          _quantity: number
+        }
+        Returns: undefined
+      }
+      respond_to_camp_invite: {
+        Args: { _accept: boolean; _invite_id: string }
+        Returns: {
+          camp_id: string
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string | null
+          responded_at: string | null
+          role: string
+          status: string
+        }
+      }
+      review_role_request: {
+        Args: { _approve: boolean; _notes?: string; _request_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          message: string | null
+          organization_name: string | null
+          requested_role: Database["public"]["Enums"]["app_role"]
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+      }
+      revoke_camp_invite: {
+        Args: { _invite_id: string }
+        Returns: {
+          camp_id: string
+          created_at: string | null
+          email: string
+          id: string
+          invited_by: string | null
+          responded_at: string | null
+          role: string
+          status: string
+        }
+      }
+      set_camp_member_role: {
+        Args: { _camp_id: string; _role: string; _user_id: string }
+        Returns: {
+          camp_id: string
+          created_at: string | null
+          id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+      }
+      split_need: {
+        Args: { _interval_hours: number; _need_id: string; _tranches: number }
+        Returns: {
+          camp_id: string
+          catalogue_item_id: string | null
+          closed_at: string | null
+          closed_reason: string | null
+          created_at: string | null
+          escalated_at: string | null
+          expires_at: string | null
+          id: string
+          inventory_item_id: string | null
+          item_name: string
+          needed_from: string | null
+          parent_need_id: string | null
+          quantity_fulfilled: number | null
+          quantity_needed: number
+          quantity_pledged: number
+          status: string | null
+          unanswered_since: string | null
+          urgency: Database["public"]["Enums"]["need_urgency"]
+          urgency_changed_at: string
+        }[]
+      }
+      sync_camp_occupancy: {
+        Args: { _camp_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "user" | "camp" | "ngo"
+      app_role: "user" | "camp" | "ngo" | "admin"
+      need_urgency: "low" | "medium" | "high" | "critical"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -377,7 +1489,8 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["user", "camp", "ngo"],
+      app_role: ["user", "camp", "ngo", "admin"],
+      need_urgency: ["low", "medium", "high", "critical"],
     },
   },
 } as const
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { I18nContextValue } from "@/i18n/context";
+
+type PledgeAssistanceFn = Database["public"]["Functions"]["pledge_assistance"];
+
+export type Pledge = PledgeAssistanceFn["Returns"];
+
+// Pledges that still count against their need; delivered and cancelled ones are settled
+export const OUTSTANDING_DELIVERY_STATUSES = ["pledged", "in_transit"];
+
+// An outstanding pledge whose need the camp has since cancelled
+export function isPledgeForCancelledNeed(pledge: {
+  delivery_status: string | null;
+  camp_needs: { status: string | null } | null;
+}): boolean {
+  return OUTSTANDING_DELIVERY_STATUSES.includes(pledge.delivery_status) && pledge.camp_needs?.status === "cancelled";
+}
+
+export interface PledgeAssistanceInput {
+  needId: string;
+  quantity: number;
+  notes?: string;
+  // A substitute from the same catalogue category; defaults to the requested item
+  catalogueItemId?: string;
+  // Lets the quantity go over what the need still has open; the camp accepts or declines the extra
+  allowSurplus?: boolean;
+}
+
+/**
+ * Validates the Provide Assistance form against what the need still has open.
+ * Mirrors the checks pledge_assistance() makes on the server. Issue messages
+ * come out translated, ready for the form to show next to each field.
+ */
+export function pledgeFormSchema(remaining: number, t: I18nContextValue["t"]) {
+  return z
+    .object({
+      // An empty input would otherwise coerce to 0 and read as "pledge at least 1"
+      quantity: z.preprocess(
+        (value) => (value === "" ? undefined : value),
+        z.coerce
+          .number({
+            required_error: t("pledgeForm.quantityRequired"),
+            invalid_type_error: t("pledgeForm.quantityRequired"),
+          })
+          .int(t("pledgeForm.wholeNumber"))
+          .positive(t("pledgeForm.positive"))
+      ),
+      allowSurplus: z.boolean(),
+      notes: z.string().trim().max(500, t("pledgeForm.notesTooLong")),
+      catalogueItemId: z.string().optional(),
+    })
+    .refine((pledge) => pledge.allowSurplus || pledge.quantity <= remaining, {
+      path: ["quantity"],
+      message: t("pledgeForm.overRemaining", { count: remaining }),
+    });
+}
+
+export type PledgeFormValues = z.infer<ReturnType<typeof pledgeFormSchema>>;
+
+// Records a pledge and updates the need's fulfilment atomically on the server
+export async function pledgeAssistance({
+  needId,
+  quantity,
+  notes,
+  catalogueItemId,
+  allowSurplus,
+}: PledgeAssistanceInput): Promise<Pledge> {
+  const args: PledgeAssistanceFn["Args"] = { _need_id: needId, _quantity: quantity };
+  if (notes) args._notes = notes;
+  if (catalogueItemId) args._catalogue_item_id = catalogueItemId;
+  if (allowSurplus) args._allow_surplus = true;
+
+  const { data, error } = await supabase.rpc("pledge_assistance", args);
+
+  if (error) throw error;
+  return data;
+}
+
+export interface DispatchDetails {
+  vehicleNumber: string;
+  driverName: string;
+  driverPhone: string;
+}
+
+export async function dispatchAssistance(assistanceId: string, details: DispatchDetails): Promise<void> {
+  const { error } = await supabase
+    .from("ngo_assistance")
+    .update({
+      delivery_status: "in_transit",
+      vehicle_number: details.vehicleNumber,
+      driver_name: details.driverName,
+      driver_phone: details.driverPhone,
+    })
+    .eq("id", assistanceId);
+
+  if (error) throw error;
+}
+
+// Any pledge that has not been delivered can be cancelled; the need takes the quantity back
+export async function cancelAssistance(assistanceId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from("ngo_assistance")
+    .update({ delivery_status: "cancelled", cancellation_reason: reason })
+    .eq("id", assistanceId);
+
+  if (error) throw error;
+}
+
+export async function addTrackingNote(assistanceId: string, note: string): Promise<void> {
+  const { error } = await supabase
+    .from("assistance_tracking_notes")
+    .insert({ assistance_id: assistanceId, note });
+
+  if (error) throw error;
+}
+
+// The receiving camp's answer to surplus on a pledge; declining trims the pledge back
+export async function decidePledgeSurplus(assistanceId: string, accept: boolean): Promise<Pledge> {
+  const { data, error } = await supabase.rpc("decide_pledge_surplus", {
+    _assistance_id: assistanceId,
+    _accept: accept,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export interface ConfirmReceiptInput {
+  assistanceId: string;
+  quantityReceived: number;
+  notes?: string;
+}
+
+// Only confirmed receipts count towards a need's quantity_fulfilled
+export async function confirmDeliveryReceipt({
+  assistanceId,
+  quantityReceived,
+  notes,
+}: ConfirmReceiptInput): Promise<Pledge> {
+  const args: Database["public"]["Functions"]["confirm_delivery_receipt"]["Args"] = {
+    _assistance_id: assistanceId,
+    _quantity_received: quantityReceived,
+  };
+  if (notes) args._notes = notes;
+
+  const { data, error } = await supabase.rpc("confirm_delivery_receipt", args);
+
+  if (error) throw error;
+  return data;
+}
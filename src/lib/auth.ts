@@ -0,0 +1,13 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Reads the stored session rather than asking the auth server, so it also works offline
+export async function currentUserId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+}
+
+export async function requireUserId(): Promise<string> {
+  const userId = await currentUserId();
+  if (!userId) throw new Error("Not authenticated");
+  return userId;
+}
@@ -0,0 +1,27 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Mirrors camps_status_check and the apply_camp_status() trigger:
+// active and full follow occupancy, inactive and closed are set by staff with a reason
+export type CampStatus = "active" | "full" | "inactive" | "closed";
+
+export function campStatus(camp: Pick<Tables<"camps">, "status">): CampStatus {
+  return (camp.status as CampStatus | null) ?? "active";
+}
+
+// Status changes staff can make from each state; only administrators reopen a closed camp
+export function campStatusActions(status: CampStatus): CampStatus[] {
+  switch (status) {
+    case "active":
+      return ["full", "inactive", "closed"];
+    case "full":
+      return ["active", "inactive", "closed"];
+    case "inactive":
+      return ["active", "closed"];
+    case "closed":
+      return [];
+  }
+}
+
+export function requiresReason(status: CampStatus): boolean {
+  return status === "inactive" || status === "closed";
+}
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CampRole = "owner" | "manager" | "registrar" | "storekeeper";
+
+export const CAMP_ROLES: CampRole[] = ["owner", "manager", "registrar", "storekeeper"];
+
+// Mirrors the has_camp_role() checks in the database policies
+const campPermissions = {
+  manageCamp: ["owner", "manager"],
+  manageNeeds: ["owner", "manager", "storekeeper"],
+  receiveDeliveries: ["owner", "manager", "storekeeper"],
+  manageInventory: ["owner", "manager", "storekeeper"],
+  manageEvacuees: ["owner", "manager", "registrar"],
+  inviteStaff: ["owner", "manager"],
+  manageTeam: ["owner"],
+} satisfies Record<string, CampRole[]>;
+
+export type CampPermission = keyof typeof campPermissions;
+
+export function canCamp(role: CampRole | null | undefined, permission: CampPermission): boolean {
+  return !!role && (campPermissions[permission] as CampRole[]).includes(role);
+}
+
+export type CampInvite = Database["public"]["Functions"]["get_my_camp_invites"]["Returns"][number];
+
+export interface InviteCampMemberInput {
+  campId: string;
+  email: string;
+  role: CampRole;
+}
+
+export async function inviteCampMember({ campId, email, role }: InviteCampMemberInput): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("camp_invites").insert({
+    camp_id: campId,
+    email: email.trim().toLowerCase(),
+    role,
+    invited_by: user.id,
+  });
+
+  if (error) throw error;
+}
+
+export async function getMyCampInvites(): Promise<CampInvite[]> {
+  const { data, error } = await supabase.rpc("get_my_camp_invites");
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Accepting adds the signed-in account to the camp team with the invited role
+export async function respondToCampInvite(inviteId: string, accept: boolean): Promise<void> {
+  const { error } = await supabase.rpc("respond_to_camp_invite", {
+    _invite_id: inviteId,
+    _accept: accept,
+  });
+
+  if (error) throw error;
+}
+
+export async function revokeCampInvite(inviteId: string): Promise<void> {
+  const { error } = await supabase.rpc("revoke_camp_invite", { _invite_id: inviteId });
+
+  if (error) throw error;
+}
+
+export interface SetCampMemberRoleInput {
+  campId: string;
+  userId: string;
+  role: CampRole;
+}
+
+// Owners only; the database refuses to demote a camp's last owner
+export async function setCampMemberRole({ campId, userId, role }: SetCampMemberRoleInput): Promise<void> {
+  const { error } = await supabase.rpc("set_camp_member_role", {
+    _camp_id: campId,
+    _user_id: userId,
+    _role: role,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CatalogueItem = Tables<"catalogue_items">;
+
+export const CATALOGUE_CATEGORIES = [
+  "food",
+  "water",
+  "hygiene",
+  "medical",
+  "clothing",
+  "bedding",
+  "baby_care",
+  "household",
+] as const;
+
+export type CatalogueCategory = (typeof CATALOGUE_CATEGORIES)[number];
+
+export const categoryLabels: Record<CatalogueCategory, string> = {
+  food: "Food",
+  water: "Water",
+  hygiene: "Hygiene",
+  medical: "Medical",
+  clothing: "Clothing",
+  bedding: "Bedding",
+  baby_care: "Baby Care",
+  household: "Household",
+};
+
+let cataloguePromise: Promise<CatalogueItem[]> | null = null;
+
+// The catalogue rarely changes, so it is fetched once per session
+export function fetchCatalogue(): Promise<CatalogueItem[]> {
+  if (!cataloguePromise) {
+    cataloguePromise = (async () => {
+      const { data, error } = await supabase
+        .from("catalogue_items")
+        .select("*")
+        .order("name", { ascending: true });
+
+      if (error) {
+        cataloguePromise = null;
+        throw error;
+      }
+      return data || [];
+    })();
+  }
+  return cataloguePromise;
+}
+
+export function invalidateCatalogue() {
+  cataloguePromise = null;
+}
+
+export function describePackSize(item: Pick<CatalogueItem, "unit" | "pack_size">): string | null {
+  return item.pack_size ? `${item.pack_size} ${item.unit} pack` : null;
+}
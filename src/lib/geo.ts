@@ -0,0 +1,123 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NamedPlace extends GeoPoint {
+  name: string;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in kilometres
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+const COMPASS_POINTS = [
+  "north",
+  "north_east",
+  "east",
+  "south_east",
+  "south",
+  "south_west",
+  "west",
+  "north_west",
+] as const;
+
+export type CompassPoint = (typeof COMPASS_POINTS)[number];
+
+export function compassDirection(from: GeoPoint, to: GeoPoint): CompassPoint {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  const bearing = (Math.atan2(y, x) * 180) / Math.PI;
+  return COMPASS_POINTS[Math.round(((bearing + 360) % 360) / 45) % 8];
+}
+
+export interface RoundedDistance {
+  value: number;
+  unit: "m" | "km";
+}
+
+// Metres under a kilometre, then kilometres to one decimal place under ten
+export function roundDistance(km: number): RoundedDistance {
+  if (km < 1) return { value: Math.round(km * 1000), unit: "m" };
+  return { value: Number(km.toFixed(km < 10 ? 1 : 0)), unit: "km" };
+}
+
+export function directionsUrl(from: GeoPoint, to: GeoPoint): string {
+  return `https://www.google.com/maps/dir/?api=1&origin=${from.latitude},${from.longitude}&destination=${to.latitude},${to.longitude}`;
+}
+
+// Approximate centres of Kerala PIN code sorting districts, keyed by the first three digits
+const KERALA_PIN_PREFIXES: Record<string, NamedPlace> = {
+  "670": { name: "Kannur", latitude: 11.8745, longitude: 75.3704 },
+  "671": { name: "Kasaragod", latitude: 12.4996, longitude: 74.9869 },
+  "673": { name: "Kozhikode", latitude: 11.2588, longitude: 75.7804 },
+  "676": { name: "Malappuram", latitude: 11.051, longitude: 76.0711 },
+  "678": { name: "Palakkad", latitude: 10.7867, longitude: 76.6548 },
+  "679": { name: "Ottapalam", latitude: 10.7705, longitude: 76.3775 },
+  "680": { name: "Thrissur", latitude: 10.5276, longitude: 76.2144 },
+  "682": { name: "Kochi", latitude: 9.9312, longitude: 76.2673 },
+  "683": { name: "Aluva", latitude: 10.1004, longitude: 76.3570 },
+  "685": { name: "Idukki", latitude: 9.8494, longitude: 76.9710 },
+  "686": { name: "Kottayam", latitude: 9.5916, longitude: 76.5222 },
+  "688": { name: "Alappuzha", latitude: 9.4981, longitude: 76.3388 },
+  "689": { name: "Pathanamthitta", latitude: 9.2648, longitude: 76.787 },
+  "690": { name: "Kayamkulam", latitude: 9.1748, longitude: 76.5013 },
+  "691": { name: "Kollam", latitude: 8.8932, longitude: 76.6141 },
+  "695": { name: "Thiruvananthapuram", latitude: 8.5241, longitude: 76.9366 },
+};
+
+const KERALA_PLACES: NamedPlace[] = [
+  { name: "Thiruvananthapuram", latitude: 8.5241, longitude: 76.9366 },
+  { name: "Kollam", latitude: 8.8932, longitude: 76.6141 },
+  { name: "Pathanamthitta", latitude: 9.2648, longitude: 76.787 },
+  { name: "Alappuzha", latitude: 9.4981, longitude: 76.3388 },
+  { name: "Kottayam", latitude: 9.5916, longitude: 76.5222 },
+  { name: "Idukki", latitude: 9.8494, longitude: 76.971 },
+  { name: "Ernakulam", latitude: 9.9816, longitude: 76.2999 },
+  { name: "Kochi", latitude: 9.9312, longitude: 76.2673 },
+  { name: "Aluva", latitude: 10.1004, longitude: 76.357 },
+  { name: "Thrissur", latitude: 10.5276, longitude: 76.2144 },
+  { name: "Chalakudy", latitude: 10.3073, longitude: 76.3338 },
+  { name: "Palakkad", latitude: 10.7867, longitude: 76.6548 },
+  { name: "Malappuram", latitude: 11.051, longitude: 76.0711 },
+  { name: "Nilambur", latitude: 11.2769, longitude: 76.2254 },
+  { name: "Kozhikode", latitude: 11.2588, longitude: 75.7804 },
+  { name: "Wayanad", latitude: 11.6854, longitude: 76.132 },
+  { name: "Kalpetta", latitude: 11.6085, longitude: 76.0837 },
+  { name: "Kannur", latitude: 11.8745, longitude: 75.3704 },
+  { name: "Kasaragod", latitude: 12.4996, longitude: 74.9869 },
+];
+
+/**
+ * Resolves a typed PIN code or village/town name to coordinates without a network
+ * geocoder. Known camp locations are tried as well, since evacuees often know the
+ * name of a nearby camp's village.
+ */
+export function resolvePlace(query: string, extraPlaces: NamedPlace[] = []): NamedPlace | null {
+  const trimmed = query.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  if (/^\d{6}$/.test(trimmed)) {
+    return KERALA_PIN_PREFIXES[trimmed.slice(0, 3)] || null;
+  }
+
+  const places = [...KERALA_PLACES, ...extraPlaces];
+  return (
+    places.find((place) => place.name.toLowerCase() === trimmed) ||
+    places.find((place) => place.name.toLowerCase().includes(trimmed)) ||
+    null
+  );
+}
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type StockMovementType = "delivery" | "stock_in" | "distribution" | "stock_out";
+
+// Deliveries are booked automatically when a camp confirms receipt
+export type ManualMovementType = Exclude<StockMovementType, "delivery">;
+
+export interface StockBatch {
+  id: string;
+  batch_number: string | null;
+  expiry_date: string | null;
+  quantity_on_hand: number;
+}
+
+export function stockOnHand(batches: StockBatch[]): number {
+  return batches.reduce((sum, batch) => sum + batch.quantity_on_hand, 0);
+}
+
+// Earliest expiry among batches that still hold stock
+export function nextExpiry(batches: StockBatch[]): string | null {
+  return batches
+    .filter((batch) => batch.quantity_on_hand > 0 && batch.expiry_date)
+    .map((batch) => batch.expiry_date as string)
+    .sort()[0] ?? null;
+}
+
+export interface StockMovementInput {
+  itemId: string;
+  movementType: ManualMovementType;
+  quantity: number;
+  batchId?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  evacueeId?: string;
+  notes?: string;
+}
+
+// Outgoing stock without a batch is taken from the earliest-expiring batches first
+export async function recordStockMovement({
+  itemId,
+  movementType,
+  quantity,
+  batchId,
+  batchNumber,
+  expiryDate,
+  evacueeId,
+  notes,
+}: StockMovementInput): Promise<void> {
+  const args: Database["public"]["Functions"]["record_stock_movement"]["Args"] = {
+    _item_id: itemId,
+    _movement_type: movementType,
+    _quantity: quantity,
+  };
+  if (batchId) args._batch_id = batchId;
+  if (batchNumber) args._batch_number = batchNumber;
+  if (expiryDate) args._expiry_date = expiryDate;
+  if (evacueeId) args._evacuee_id = evacueeId;
+  if (notes) args._notes = notes;
+
+  const { error } = await supabase.rpc("record_stock_movement", args);
+
+  if (error) throw error;
+}
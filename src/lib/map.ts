@@ -0,0 +1,29 @@
+import type { LatLngTuple } from "leaflet";
+
+// Tiles come from VITE_MAP_TILE_URL when set, so a self-hosted or offline
+// tile server (e.g. http://localhost:8081/tiles/{z}/{x}/{y}.png) can replace OSM.
+export const MAP_TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const KERALA_CENTER: LatLngTuple = [10.5, 76.3];
+export const KERALA_ZOOM = 7;
+
+export type SeatAvailability = "available" | "limited" | "full";
+
+export function seatAvailability(totalCapacity: number, occupiedSeats: number): SeatAvailability {
+  const available = totalCapacity - occupiedSeats;
+  if (available <= 0) return "full";
+  if (totalCapacity > 0 && available / totalCapacity < 0.2) return "limited";
+  return "available";
+}
+
+// SVG markers can't read CSS variables, so these mirror --success/--warning/--destructive
+export const AVAILABILITY_COLORS: Record<SeatAvailability, string> = {
+  available: "hsl(142, 71%, 45%)",
+  limited: "hsl(38, 92%, 50%)",
+  full: "hsl(0, 85%, 60%)",
+};
@@ -0,0 +1,29 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Mirrors camp_needs_status_check: expired, closed and cancelled needs no longer take pledges
+export const OPEN_NEED_STATUSES = ["pending", "partial"];
+
+// NGOs see a need flagged once it has gone this long without an outstanding pledge
+export const UNANSWERED_FLAG_HOURS = 4;
+
+// Whether the need is a later tranche that has not fallen due yet
+export function isUpcomingNeed(need: Pick<Tables<"camp_needs">, "needed_from">, now = Date.now()): boolean {
+  return !!need.needed_from && new Date(need.needed_from).getTime() > now;
+}
+
+export function isOpenNeed(need: Pick<Tables<"camp_needs">, "status">): boolean {
+  return OPEN_NEED_STATUSES.includes(need.status ?? "pending");
+}
+
+// Whole hours the need has been waiting for a pledge, or null if someone has answered it
+export function unansweredHours(need: Pick<Tables<"camp_needs">, "unanswered_since">, now = Date.now()): number | null {
+  if (!need.unanswered_since) return null;
+  return Math.floor((now - new Date(need.unanswered_since).getTime()) / 3_600_000);
+}
+
+// What a need still has open to pledge: pledges already on their way count against it
+export function remainingQuantity(
+  need: Pick<Tables<"camp_needs">, "quantity_needed" | "quantity_fulfilled" | "quantity_pledged">
+): number {
+  return Math.max(need.quantity_needed - (need.quantity_fulfilled ?? 0) - need.quantity_pledged, 0);
+}
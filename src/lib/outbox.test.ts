@@ -0,0 +1,207 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  discardOutboxEntry,
+  listOutbox,
+  onOutboxSynced,
+  performMutation,
+  retryOutboxEntry,
+  syncOutbox,
+  type OutboxMutation,
+} from "@/lib/outbox";
+
+// Stands in for PostgREST: the ids of the rows it has accepted, in order, and
+// the errors it answers particular rows with
+const server = vi.hoisted(() => ({
+  reachable: true,
+  received: [] as string[],
+  errors: new Map<string, { code: string; message: string }>(),
+}));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const respond = (table: string, id: string) => {
+    // supabase-js reports a failed fetch as an error without a Postgres code
+    if (!server.reachable) return { data: null, error: { code: "", message: "TypeError: Failed to fetch" } };
+
+    const error = server.errors.get(id);
+    if (error) return { data: null, error };
+
+    if (server.received.includes(id)) {
+      return {
+        data: null,
+        error: { code: "23505", message: `duplicate key value violates unique constraint "${table}_pkey"` },
+      };
+    }
+
+    server.received.push(id);
+    return { data: null, error: null };
+  };
+
+  return {
+    supabase: {
+      auth: {
+        getSession: async () => ({ data: { session: { user: { id: "registrar" } } } }),
+      },
+      from: (table: string) => ({
+        insert: async (row: { id: string }) => respond(table, row.id),
+      }),
+      rpc: async (_fn: string, args: { _assistance_id: string }) => respond("ngo_assistance", args._assistance_id),
+    },
+  };
+});
+
+const CAMP_ID = "camp";
+
+const evacuee = (id: string): OutboxMutation => ({
+  kind: "register_evacuee",
+  payload: { id, camp_id: CAMP_ID, full_name: `Evacuee ${id}` },
+});
+
+const need = (id: string): OutboxMutation => ({
+  kind: "add_need",
+  payload: { id, camp_id: CAMP_ID, item_name: "Rice", quantity_needed: 50 },
+});
+
+const receipt = (assistanceId: string): OutboxMutation => ({
+  kind: "confirm_delivery",
+  payload: { assistanceId, quantityReceived: 20 },
+});
+
+function setOnline(online: boolean) {
+  server.reachable = online;
+  vi.stubGlobal("navigator", { onLine: online });
+}
+
+// Entries replay in createdAt order, so each one is recorded a second after the last
+async function record(mutation: OutboxMutation) {
+  vi.setSystemTime(Date.now() + 1000);
+  return performMutation(CAMP_ID, mutation);
+}
+
+const queuedPayloads = async () => (await listOutbox()).map((entry) => entry.mutation.payload);
+
+describe("outbox", () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(async () => {
+    setOnline(true);
+    server.received = [];
+    server.errors.clear();
+    for (const entry of await listOutbox()) {
+      await discardOutboxEntry(entry.id);
+    }
+  });
+
+  it("sends changes straight away while online", async () => {
+    await expect(record(evacuee("e1"))).resolves.toBe("applied");
+
+    expect(server.received).toEqual(["e1"]);
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("queues changes while offline and replays them in order once back online", async () => {
+    setOnline(false);
+    await expect(record(evacuee("e1"))).resolves.toBe("queued");
+    await expect(record(need("n1"))).resolves.toBe("queued");
+    await expect(record(receipt("d1"))).resolves.toBe("queued");
+
+    expect(server.received).toEqual([]);
+    expect((await listOutbox()).map((entry) => entry.status)).toEqual(["pending", "pending", "pending"]);
+
+    const synced = vi.fn();
+    const unsubscribe = onOutboxSynced(synced);
+    setOnline(true);
+
+    await expect(syncOutbox()).resolves.toEqual({ applied: 3, conflicts: 0, remaining: 0 });
+    unsubscribe();
+
+    expect(server.received).toEqual(["e1", "n1", "d1"]);
+    expect(await listOutbox()).toEqual([]);
+    expect(synced).toHaveBeenCalledTimes(1);
+    expect(synced.mock.calls[0][0]).toHaveLength(3);
+  });
+
+  it("treats a replayed insert the server already has as applied", async () => {
+    setOnline(false);
+    await record(evacuee("e1"));
+
+    // The insert landed but its response was lost
+    server.received.push("e1");
+    setOnline(true);
+
+    await expect(syncOutbox()).resolves.toEqual({ applied: 1, conflicts: 0, remaining: 0 });
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("keeps a conflicting change for review and carries on with the rest", async () => {
+    setOnline(false);
+    await record(receipt("d1"));
+    await record(evacuee("e1"));
+
+    server.errors.set("d1", { code: "23514", message: "Only pledges that have not been delivered can be confirmed" });
+    setOnline(true);
+
+    await expect(syncOutbox()).resolves.toEqual({ applied: 1, conflicts: 1, remaining: 0 });
+    expect(server.received).toEqual(["e1"]);
+
+    const [conflict] = await listOutbox();
+    expect(conflict).toMatchObject({
+      status: "conflict",
+      error: "Only pledges that have not been delivered can be confirmed",
+      mutation: receipt("d1"),
+    });
+
+    // Once the camp has sorted it out, retrying sends it again
+    server.errors.delete("d1");
+    await expect(retryOutboxEntry(conflict)).resolves.toEqual({ applied: 1, conflicts: 0, remaining: 0 });
+    expect(server.received).toEqual(["e1", "d1"]);
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("does not replay a change the server refused until it is retried or discarded", async () => {
+    setOnline(false);
+    await record(need("n1"));
+
+    server.errors.set("n1", {
+      code: "42501",
+      message: 'new row violates row-level security policy for table "camp_needs"',
+    });
+    setOnline(true);
+
+    await expect(syncOutbox()).resolves.toEqual({ applied: 0, conflicts: 1, remaining: 0 });
+    await expect(syncOutbox()).resolves.toEqual({ applied: 0, conflicts: 0, remaining: 0 });
+    expect(server.received).toEqual([]);
+
+    const [refused] = await listOutbox();
+    expect(refused.status).toBe("conflict");
+
+    await discardOutboxEntry(refused.id);
+    expect(await listOutbox()).toEqual([]);
+  });
+
+  it("stops replaying when the connection drops again and keeps the rest in order", async () => {
+    setOnline(false);
+    await record(evacuee("e1"));
+    await record(evacuee("e2"));
+    await record(need("n1"));
+
+    setOnline(true);
+    server.errors.set("e2", { code: "", message: "TypeError: Failed to fetch" });
+
+    await expect(syncOutbox()).resolves.toEqual({ applied: 1, conflicts: 0, remaining: 2 });
+    expect(server.received).toEqual(["e1"]);
+    expect(await queuedPayloads()).toEqual([evacuee("e2").payload, need("n1").payload]);
+    expect((await listOutbox()).map((entry) => entry.status)).toEqual(["pending", "pending"]);
+
+    server.errors.clear();
+    await expect(syncOutbox()).resolves.toEqual({ applied: 2, conflicts: 0, remaining: 0 });
+    expect(server.received).toEqual(["e1", "e2", "n1"]);
+  });
+});
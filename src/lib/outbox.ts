@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { confirmDeliveryReceipt, type ConfirmReceiptInput } from "@/lib/assistance";
+import { currentUserId, requireUserId } from "@/lib/auth";
+
+// Camp mutations that can be recorded without a connection and replayed later.
+// Inserts carry a client-generated id so a replay after a lost response is harmless.
+export type OutboxMutation =
+  | { kind: "register_evacuee"; payload: TablesInsert<"evacuees"> & { id: string } }
+  | { kind: "add_need"; payload: TablesInsert<"camp_needs"> & { id: string } }
+  | { kind: "confirm_delivery"; payload: ConfirmReceiptInput };
+
+export type OutboxStatus = "pending" | "conflict";
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  campId: string;
+  mutation: OutboxMutation;
+  status: OutboxStatus;
+  // Server's reason for rejecting the change when it was replayed
+  error: string | null;
+  createdAt: string;
+}
+
+export type MutationResult = "applied" | "queued";
+
+const DB_NAME = "relief-hub-offline";
+const STORE = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const changeListeners = new Set<() => void>();
+const syncListeners = new Set<(applied: OutboxEntry[]) => void>();
+
+function notifyChange() {
+  changeListeners.forEach((listener) => listener());
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+// Lets lists that show server data refetch once queued changes have landed
+export function onOutboxSynced(listener: (applied: OutboxEntry[]) => void): () => void {
+  syncListeners.add(listener);
+  return () => syncListeners.delete(listener);
+}
+
+// Entries are per account so a shared camp device never replays someone else's changes
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const userId = await currentUserId();
+  if (!userId) return [];
+
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.index("createdAt").getAll());
+  return entries.filter((entry) => entry.userId === userId);
+}
+
+interface ServerError {
+  message?: string;
+  code?: string;
+}
+
+export function isNetworkError(error: ServerError | null | undefined): boolean {
+  if (!navigator.onLine) return true;
+  // supabase-js reports a failed fetch as an error without a Postgres code
+  return !!error && !error.code && /failed to fetch|network|load failed/i.test(error.message || "");
+}
+
+function isDuplicateInsert(error: ServerError, table: string): boolean {
+  return error.code === "23505" && (error.message || "").includes(`${table}_pkey`);
+}
+
+async function execute(mutation: OutboxMutation): Promise<void> {
+  switch (mutation.kind) {
+    case "register_evacuee": {
+      const { error } = await supabase.from("evacuees").insert(mutation.payload);
+      if (error && !isDuplicateInsert(error, "evacuees")) throw error;
+      return;
+    }
+    case "add_need": {
+      const { error } = await supabase.from("camp_needs").insert(mutation.payload);
+      if (error && !isDuplicateInsert(error, "camp_needs")) throw error;
+      return;
+    }
+    case "confirm_delivery":
+      await confirmDeliveryReceipt(mutation.payload);
+      return;
+  }
+}
+
+async function enqueue(campId: string, mutation: OutboxMutation): Promise<void> {
+  const userId = await requireUserId();
+
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    campId,
+    mutation,
+    status: "pending",
+    error: null,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore("readwrite", (store) => store.put(entry));
+  notifyChange();
+}
+
+// Sends the change straight away when possible and queues it when the
+// connection is down. Errors from the server itself are still thrown.
+export async function performMutation(campId: string, mutation: OutboxMutation): Promise<MutationResult> {
+  if (navigator.onLine) {
+    try {
+      await execute(mutation);
+      return "applied";
+    } catch (error) {
+      if (!isNetworkError(error as ServerError)) throw error;
+    }
+  }
+
+  await enqueue(campId, mutation);
+  return "queued";
+}
+
+export interface SyncResult {
+  applied: number;
+  conflicts: number;
+  remaining: number;
+}
+
+let syncPromise: Promise<SyncResult> | null = null;
+
+async function replayPending(): Promise<SyncResult> {
+  const entries = await listOutbox();
+  const applied: OutboxEntry[] = [];
+  let conflicts = 0;
+  let remaining = 0;
+  let offline = false;
+
+  // Replayed in the order they were recorded; once the connection drops again the rest wait
+  for (const entry of entries) {
+    if (entry.status !== "pending") continue;
+    if (offline) {
+      remaining++;
+      continue;
+    }
+
+    try {
+      await execute(entry.mutation);
+      await withStore("readwrite", (store) => store.delete(entry.id));
+      applied.push(entry);
+    } catch (caught) {
+      const error = caught as ServerError;
+      if (isNetworkError(error)) {
+        offline = true;
+        remaining++;
+      } else {
+        conflicts++;
+        await withStore("readwrite", (store) =>
+          store.put({ ...entry, status: "conflict", error: error.message || "Rejected by the server" })
+        );
+      }
+    }
+  }
+
+  notifyChange();
+  if (applied.length > 0) {
+    syncListeners.forEach((listener) => listener(applied));
+  }
+  return { applied: applied.length, conflicts, remaining };
+}
+
+export function syncOutbox(): Promise<SyncResult> {
+  if (!syncPromise) {
+    syncPromise = replayPending().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<SyncResult> {
+  await withStore("readwrite", (store) => store.put({ ...entry, status: "pending", error: null }));
+  return syncOutbox();
+}
+
+export async function discardOutboxEntry(entryId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(entryId));
+  notifyChange();
+}
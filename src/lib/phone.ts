@@ -0,0 +1,17 @@
+// Turns what people type ("98765 43210", "091-9876543210", "+91 98765 43210")
+// into the E.164 form phone auth expects. Bare ten-digit numbers are taken as Indian mobiles.
+export function normalizePhone(input: string): string | null {
+  const trimmed = input.trim();
+  const digits = trimmed.replace(/\D/g, "");
+
+  if (trimmed.startsWith("+")) {
+    return /^\d{8,15}$/.test(digits) ? `+${digits}` : null;
+  }
+
+  const local = digits.replace(/^0+/, "");
+  if (/^[6-9]\d{9}$/.test(local)) return `+91${local}`;
+  if (/^91[6-9]\d{9}$/.test(local)) return `+${local}`;
+  return null;
+}
+
+export const OTP_LENGTH = 6;
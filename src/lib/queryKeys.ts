@@ -0,0 +1,27 @@
+// Keys are hierarchical so invalidating a prefix such as queryKeys.needs.all
+// refreshes every filtered variant of that data
+export const queryKeys = {
+  camps: {
+    all: ["camps"] as const,
+    list: (filters: { statuses?: string[] }) => ["camps", "list", filters] as const,
+    mine: () => ["camps", "mine"] as const,
+  },
+  needs: {
+    all: ["camp-needs"] as const,
+    list: (filters: { campId?: string; openOnly?: boolean }) => ["camp-needs", "list", filters] as const,
+    criticalCounts: () => ["camp-needs", "critical-counts"] as const,
+  },
+  pledges: {
+    all: ["pledges"] as const,
+    mine: () => ["pledges", "mine"] as const,
+    forCamp: (campId: string) => ["pledges", "camp", campId] as const,
+  },
+  profile: {
+    mine: () => ["profile", "mine"] as const,
+  },
+  roleRequests: {
+    all: ["role-requests"] as const,
+    mine: () => ["role-requests", "mine"] as const,
+    queue: () => ["role-requests", "queue"] as const,
+  },
+};
@@ -0,0 +1,51 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { requireUserId } from "@/lib/auth";
+import type { AppRole } from "@/lib/roles";
+
+export type RoleRequest = Tables<"role_requests">;
+
+// Citizen is where everyone starts; these are the roles that need approval
+export type RequestableRole = Extract<AppRole, "camp" | "ngo">;
+
+export function isRequestableRole(role: string): role is RequestableRole {
+  return role === "camp" || role === "ngo";
+}
+
+export interface RoleRequestInput {
+  role: RequestableRole;
+  organizationName?: string;
+  message?: string;
+}
+
+export async function requestRole({ role, organizationName, message }: RoleRequestInput): Promise<RoleRequest> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("role_requests")
+    .insert({
+      user_id: userId,
+      requested_role: role,
+      organization_name: organizationName || null,
+      message: message || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Approving also switches the applicant's profile to the requested role
+export async function reviewRoleRequest(requestId: string, approve: boolean, notes?: string): Promise<RoleRequest> {
+  const args: Database["public"]["Functions"]["review_role_request"]["Args"] = {
+    _request_id: requestId,
+    _approve: approve,
+  };
+  if (notes) args._notes = notes;
+
+  const { data, error } = await supabase.rpc("review_role_request", args);
+
+  if (error) throw error;
+  return data;
+}
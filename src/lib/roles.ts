@@ -0,0 +1,18 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Roles people can pick for themselves; admins are promoted in the database
+export type SelfServiceRole = Exclude<AppRole, "admin">;
+
+const ROLE_HOME: Record<AppRole, string> = {
+  user: "/citizen",
+  camp: "/camp",
+  ngo: "/ngo",
+  admin: "/admin",
+};
+
+// Where a signed-in user lands; without a role they still have onboarding to finish
+export function homeFor(role: AppRole | null | undefined): string {
+  return role ? ROLE_HOME[role] : "/onboarding";
+}
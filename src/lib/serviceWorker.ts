@@ -0,0 +1,15 @@
+// Only production builds register the worker; in development it would serve stale modules
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Error registering service worker:", error);
+    });
+  });
+}
+
+// Drops cached Supabase reads so the next account on a shared device never sees them
+export function clearOfflineDataCache() {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-data-cache" });
+}
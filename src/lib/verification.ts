@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const VERIFICATION_BUCKET = "verification-documents";
+
+// Documents are stored under the uploader's id so storage policies can scope access
+export async function uploadVerificationDocument(userId: string, file: File): Promise<string> {
+  const path = `${userId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+
+  const { error } = await supabase.storage.from(VERIFICATION_BUCKET).upload(path, file);
+
+  if (error) throw error;
+  return path;
+}
+
+export async function getVerificationDocumentUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(VERIFICATION_BUCKET).createSignedUrl(path, 60 * 10);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -1,21 +1,34 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import RoleOptions from "@/components/auth/RoleOptions";
+import PhoneSignIn from "@/components/auth/PhoneSignIn";
+import LanguageSwitcher from "@/components/i18n/LanguageSwitcher";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSession } from "@/hooks/use-session";
+import type { SelfServiceRole } from "@/lib/roles";
+import { errorMessage } from "@/lib/utils";
 import { toast } from "sonner";
-import { Shield, Home, Building2 } from "lucide-react";
-
-type UserRole = "user" | "camp" | "ngo";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { t, label } = useI18n();
+  const { session } = useSession();
   const [loading, setLoading] = useState(false);
-  const [selectedRole, setSelectedRole] = useState<UserRole>("user");
+  const [selectedRole, setSelectedRole] = useState<SelfServiceRole>("user");
+
+  // Deep links that required signing in are returned to afterwards
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -43,10 +56,14 @@ const Auth = () => {
 
       if (error) throw error;
 
-      toast.success("Account created successfully!");
+      toast.success(t("auth.accountCreated"));
+      // The database files the request; the account itself starts as a citizen
+      if (selectedRole !== "user") {
+        toast.info(t("auth.accessRequested", { role: label("appRole", selectedRole) }));
+      }
       navigate("/");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to create account");
+    } catch (error) {
+      toast.error(errorMessage(error, t("auth.createFailed")));
     } finally {
       setLoading(false);
     }
@@ -68,35 +85,39 @@ const Auth = () => {
 
       if (error) throw error;
 
-      toast.success("Signed in successfully!");
-      navigate("/");
-    } catch (error: any) {
-      toast.error(error.message || "Failed to sign in");
+      toast.success(t("auth.signedIn"));
+      navigate(from, { replace: true });
+    } catch (error) {
+      toast.error(errorMessage(error, t("auth.signInFailed")));
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-secondary/20 to-accent/10 p-4">
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gradient-to-br from-background via-secondary/20 to-accent/10 p-4">
+      <div className="w-full max-w-md flex justify-end">
+        <LanguageSwitcher />
+      </div>
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold">Kerala Relief Hub</CardTitle>
+          <CardTitle className="text-2xl font-bold">{t("app.name")}</CardTitle>
           <CardDescription>
-            Disaster relief coordination platform
+            {t("app.tagline")}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="signin">Sign In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="signin">{t("auth.signIn")}</TabsTrigger>
+              <TabsTrigger value="signup">{t("auth.signUp")}</TabsTrigger>
+              <TabsTrigger value="phone">{t("auth.phoneTab")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="signin">
               <form onSubmit={handleSignIn} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="signin-email">Email</Label>
+                  <Label htmlFor="signin-email">{t("auth.email")}</Label>
                   <Input
                     id="signin-email"
                     name="email"
@@ -106,7 +127,7 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="signin-password">Password</Label>
+                  <Label htmlFor="signin-password">{t("auth.password")}</Label>
                   <Input
                     id="signin-password"
                     name="password"
@@ -115,7 +136,7 @@ const Auth = () => {
                   />
                 </div>
                 <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Signing in..." : "Sign In"}
+                  {loading ? t("auth.signingIn") : t("auth.signIn")}
                 </Button>
               </form>
             </TabsContent>
@@ -123,17 +144,17 @@ const Auth = () => {
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="fullName">Full Name</Label>
+                  <Label htmlFor="fullName">{t("auth.fullName")}</Label>
                   <Input
                     id="fullName"
                     name="fullName"
                     type="text"
-                    placeholder="Your name"
+                    placeholder={t("auth.fullNamePlaceholder")}
                     required
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="phone">Phone Number</Label>
+                  <Label htmlFor="phone">{t("auth.phone")}</Label>
                   <Input
                     id="phone"
                     name="phone"
@@ -142,7 +163,7 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
+                  <Label htmlFor="signup-email">{t("auth.email")}</Label>
                   <Input
                     id="signup-email"
                     name="email"
@@ -152,7 +173,7 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
+                  <Label htmlFor="signup-password">{t("auth.password")}</Label>
                   <Input
                     id="signup-password"
                     name="password"
@@ -161,48 +182,19 @@ const Auth = () => {
                   />
                 </div>
                 <div className="space-y-3">
-                  <Label>Account Type</Label>
-                  <RadioGroup
-                    value={selectedRole}
-                    onValueChange={(value) => setSelectedRole(value as UserRole)}
-                  >
-                    <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-colors">
-                      <RadioGroupItem value="user" id="user" />
-                      <Label htmlFor="user" className="flex items-center gap-2 cursor-pointer flex-1">
-                        <Shield className="w-4 h-4" />
-                        <div>
-                          <div className="font-medium">User</div>
-                          <div className="text-xs text-muted-foreground">Search camps & volunteer</div>
-                        </div>
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-colors">
-                      <RadioGroupItem value="camp" id="camp" />
-                      <Label htmlFor="camp" className="flex items-center gap-2 cursor-pointer flex-1">
-                        <Home className="w-4 h-4" />
-                        <div>
-                          <div className="font-medium">Camp</div>
-                          <div className="text-xs text-muted-foreground">Manage relief camp</div>
-                        </div>
-                      </Label>
-                    </div>
-                    <div className="flex items-center space-x-2 p-3 border rounded-lg hover:bg-secondary/50 transition-colors">
-                      <RadioGroupItem value="ngo" id="ngo" />
-                      <Label htmlFor="ngo" className="flex items-center gap-2 cursor-pointer flex-1">
-                        <Building2 className="w-4 h-4" />
-                        <div>
-                          <div className="font-medium">NGO</div>
-                          <div className="text-xs text-muted-foreground">Provide assistance</div>
-                        </div>
-                      </Label>
-                    </div>
-                  </RadioGroup>
+                  <Label>{t("auth.accountType")}</Label>
+                  <RoleOptions value={selectedRole} onChange={setSelectedRole} />
+                  <p className="text-xs text-muted-foreground">{t("auth.roleNeedsApproval")}</p>
                 </div>
                 <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Creating account..." : "Create Account"}
+                  {loading ? t("auth.creatingAccount") : t("auth.createAccount")}
                 </Button>
               </form>
             </TabsContent>
+
+            <TabsContent value="phone">
+              <PhoneSignIn />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import RoleOptions from "@/components/auth/RoleOptions";
+import LanguageSwitcher from "@/components/i18n/LanguageSwitcher";
+import { useI18n } from "@/hooks/use-i18n";
+import { useMyProfile } from "@/hooks/use-profile";
+import { useSession, useSignOut } from "@/hooks/use-session";
+import { queryKeys } from "@/lib/queryKeys";
+import { homeFor, type SelfServiceRole } from "@/lib/roles";
+import { isRequestableRole, requestRole } from "@/lib/roleRequests";
+import { errorMessage } from "@/lib/utils";
+import { LogOut } from "lucide-react";
+import { toast } from "sonner";
+
+// Shown to accounts without a profile, e.g. when the signup trigger didn't create one
+const Onboarding = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { t, label } = useI18n();
+  const { session } = useSession();
+  const { data: profile } = useMyProfile();
+  const signOut = useSignOut();
+  const [selectedRole, setSelectedRole] = useState<SelfServiceRole>("user");
+  const [saving, setSaving] = useState(false);
+
+  if (profile) {
+    return <Navigate to={homeFor(profile.role)} replace />;
+  }
+
+  const metadata = session?.user.user_metadata ?? {};
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!session) return;
+    setSaving(true);
+
+    const formData = new FormData(e.currentTarget);
+
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .insert({
+          id: session.user.id,
+          full_name: formData.get("fullName") as string,
+          phone: (formData.get("phone") as string) || null,
+          role: "user",
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Camp and NGO access starts out as a request, just like at signup
+      if (isRequestableRole(selectedRole)) {
+        await requestRole({ role: selectedRole });
+        toast.success(t("auth.accessRequested", { role: label("appRole", selectedRole) }));
+      }
+
+      queryClient.setQueryData(queryKeys.profile.mine(), data);
+      navigate(homeFor(data.role), { replace: true });
+    } catch (error) {
+      toast.error(errorMessage(error, t("onboarding.saveFailed")));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gradient-to-br from-background via-secondary/20 to-accent/10 p-4">
+      <div className="w-full max-w-md flex justify-end gap-2">
+        <LanguageSwitcher />
+        <Button variant="outline" onClick={signOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          {t("common.signOut")}
+        </Button>
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">{t("onboarding.title")}</CardTitle>
+          <CardDescription>{t("onboarding.subtitle")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="fullName">{t("auth.fullName")}</Label>
+              <Input
+                id="fullName"
+                name="fullName"
+                defaultValue={metadata.full_name ?? ""}
+                placeholder={t("auth.fullNamePlaceholder")}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="phone">{t("auth.phone")}</Label>
+              <Input
+                id="phone"
+                name="phone"
+                type="tel"
+                defaultValue={metadata.phone ?? session?.user.phone ?? ""}
+                placeholder="+91 XXXXX XXXXX"
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>{t("auth.accountType")}</Label>
+              <RoleOptions value={selectedRole} onChange={setSelectedRole} />
+              <p className="text-xs text-muted-foreground">{t("auth.roleNeedsApproval")}</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving ? t("onboarding.saving") : t("onboarding.continue")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Onboarding;
@@ -0,0 +1,119 @@
+-- Create evacuees table
+CREATE TABLE public.evacuees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  age INTEGER CHECK (age >= 0 AND age <= 130),
+  gender TEXT CHECK (gender IN ('male', 'female', 'other')),
+  family_group TEXT,
+  special_needs TEXT,
+  status TEXT NOT NULL DEFAULT 'checked_in' CHECK (status IN ('checked_in', 'checked_out')),
+  checked_in_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  checked_out_at TIMESTAMPTZ,
+  registered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX evacuees_camp_id_status_idx ON public.evacuees (camp_id, status);
+
+ALTER TABLE public.evacuees ENABLE ROW LEVEL SECURITY;
+
+-- Evacuee records are personal data, so only the camp's own admin can see them
+CREATE POLICY "Camp admins can manage own evacuees"
+  ON public.evacuees FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.camps
+      WHERE camps.id = camp_id AND camps.camp_admin_id = auth.uid()
+    )
+  );
+
+-- Keep camps.occupied_seats in sync with active check-ins
+CREATE OR REPLACE FUNCTION public.sync_camp_occupancy(_camp_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.syncing_camp_occupancy', 'on', true);
+
+  UPDATE public.camps
+  SET occupied_seats = (
+    SELECT COUNT(*) FROM public.evacuees
+    WHERE camp_id = _camp_id AND status = 'checked_in'
+  )
+  WHERE id = _camp_id;
+
+  PERFORM set_config('app.syncing_camp_occupancy', 'off', true);
+END;
+$$;
+
+-- Only called from the evacuee triggers below
+REVOKE EXECUTE ON FUNCTION public.sync_camp_occupancy(UUID) FROM PUBLIC, anon, authenticated;
+
+-- occupied_seats is derived from check-ins, so new camps start empty and edits
+-- to the camp itself leave it alone
+CREATE OR REPLACE FUNCTION public.keep_camp_occupancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.occupied_seats = 0;
+  ELSIF current_setting('app.syncing_camp_occupancy', true) IS DISTINCT FROM 'on' THEN
+    NEW.occupied_seats = OLD.occupied_seats;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before any other BEFORE trigger on camps reads occupied_seats
+CREATE TRIGGER a_keep_camp_occupancy
+  BEFORE INSERT OR UPDATE ON public.camps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_camp_occupancy();
+
+CREATE OR REPLACE FUNCTION public.handle_evacuee_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = 'checked_out' AND OLD.status = 'checked_in' THEN
+    NEW.checked_out_at = COALESCE(NEW.checked_out_at, now());
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'checked_in' AND OLD.status = 'checked_out' THEN
+    NEW.checked_in_at = now();
+    NEW.checked_out_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_evacuee_timestamps
+  BEFORE UPDATE ON public.evacuees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_evacuee_change();
+
+CREATE OR REPLACE FUNCTION public.handle_evacuee_occupancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE'
+    OR (TG_OP = 'UPDATE' AND (NEW.camp_id <> OLD.camp_id OR NEW.status <> OLD.status)) THEN
+    PERFORM public.sync_camp_occupancy(OLD.camp_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.camp_id <> OLD.camp_id) THEN
+    PERFORM public.sync_camp_occupancy(NEW.camp_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_occupancy_on_evacuee_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.evacuees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_evacuee_occupancy();
+
+-- Seat counts entered by hand before check-ins were tracked give way to the real count
+SELECT public.sync_camp_occupancy(id) FROM public.camps;
@@ -0,0 +1,215 @@
+-- Fuzzy name matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Home village helps tell apart people with common names
+ALTER TABLE public.evacuees ADD COLUMN home_village TEXT;
+
+-- Create missing person reports table
+CREATE TABLE public.missing_person_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  age INTEGER CHECK (age >= 0 AND age <= 130),
+  gender TEXT CHECK (gender IN ('male', 'female', 'other')),
+  home_village TEXT,
+  description TEXT,
+  contact_phone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'matched', 'closed')),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.missing_person_reports ENABLE ROW LEVEL SECURITY;
+
+-- Create reunification matches table
+CREATE TABLE public.reunification_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES public.missing_person_reports(id) ON DELETE CASCADE,
+  evacuee_id UUID NOT NULL REFERENCES public.evacuees(id) ON DELETE CASCADE,
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  score REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(report_id, evacuee_id)
+);
+
+ALTER TABLE public.reunification_matches ENABLE ROW LEVEL SECURITY;
+
+-- Missing person report policies
+CREATE POLICY "Users can view own reports"
+  ON public.missing_person_reports FOR SELECT
+  USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Camp admins can view reports matched to their camps"
+  ON public.missing_person_reports FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.reunification_matches
+      JOIN public.camps ON camps.id = reunification_matches.camp_id
+      WHERE reunification_matches.report_id = missing_person_reports.id
+        AND camps.camp_admin_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can file reports"
+  ON public.missing_person_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id AND
+    EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'user')
+  );
+
+CREATE POLICY "Users can update own reports"
+  ON public.missing_person_reports FOR UPDATE
+  USING (auth.uid() = reporter_id);
+
+-- Reunification match policies. Reporters never read this table directly;
+-- they go through get_my_report_matches() so evacuee details stay hidden
+-- until the camp admin approves.
+CREATE POLICY "Camp admins can view matches for own camps"
+  ON public.reunification_matches FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.camps
+      WHERE camps.id = camp_id AND camps.camp_admin_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Camp admins can review matches for own camps"
+  ON public.reunification_matches FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.camps
+      WHERE camps.id = camp_id AND camps.camp_admin_id = auth.uid()
+    )
+  );
+
+-- Match open reports against evacuee records in every camp.
+-- Either argument may be NULL to match against everything on that side.
+CREATE OR REPLACE FUNCTION public.match_missing_persons(_report_id UUID, _evacuee_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public, extensions
+AS $$
+BEGIN
+  INSERT INTO public.reunification_matches (report_id, evacuee_id, camp_id, score)
+  SELECT report_id, evacuee_id, camp_id, score
+  FROM (
+    SELECT
+      r.id AS report_id,
+      e.id AS evacuee_id,
+      e.camp_id,
+      similarity(lower(r.full_name), lower(e.full_name)) AS name_score,
+      similarity(lower(r.full_name), lower(e.full_name)) * 0.7
+        + COALESCE(similarity(lower(r.home_village), lower(e.home_village)), 0) * 0.2
+        + CASE WHEN abs(r.age - e.age) <= 3 THEN 0.1 ELSE 0 END AS score
+    FROM public.missing_person_reports r
+    CROSS JOIN public.evacuees e
+    WHERE r.status = 'open'
+      AND (_report_id IS NULL OR r.id = _report_id)
+      AND (_evacuee_id IS NULL OR e.id = _evacuee_id)
+      AND (r.age IS NULL OR e.age IS NULL OR abs(r.age - e.age) <= 10)
+      AND (r.gender IS NULL OR e.gender IS NULL OR r.gender = e.gender)
+  ) candidates
+  WHERE name_score >= 0.35 AND score >= 0.4
+  ON CONFLICT (report_id, evacuee_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_missing_persons(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_missing_person_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.match_missing_persons(NEW.id, NULL);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER match_on_missing_person_report
+  AFTER INSERT ON public.missing_person_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_missing_person_report();
+
+CREATE OR REPLACE FUNCTION public.handle_new_evacuee_match()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.match_missing_persons(NULL, NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER match_on_evacuee_check_in
+  AFTER INSERT ON public.evacuees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_evacuee_match();
+
+-- Stamp reviews and mark the report as matched once a camp confirms
+CREATE OR REPLACE FUNCTION public.handle_match_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> OLD.status THEN
+    NEW.reviewed_by = auth.uid();
+    NEW.reviewed_at = now();
+
+    IF NEW.status = 'approved' THEN
+      UPDATE public.missing_person_reports
+      SET status = 'matched'
+      WHERE id = NEW.report_id AND status = 'open';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER review_reunification_match
+  BEFORE UPDATE ON public.reunification_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_match_review();
+
+-- Reporter-facing view of matches: presence and camp only until approved
+CREATE OR REPLACE FUNCTION public.get_my_report_matches()
+RETURNS TABLE (
+  match_id UUID,
+  report_id UUID,
+  status TEXT,
+  camp_name TEXT,
+  camp_location TEXT,
+  contact_phone TEXT,
+  evacuee_name TEXT,
+  evacuee_age INTEGER,
+  family_group TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.report_id,
+    m.status,
+    c.name,
+    c.location,
+    c.contact_phone,
+    CASE WHEN m.status = 'approved' THEN e.full_name END,
+    CASE WHEN m.status = 'approved' THEN e.age END,
+    CASE WHEN m.status = 'approved' THEN e.family_group END,
+    m.created_at
+  FROM public.reunification_matches m
+  JOIN public.missing_person_reports r ON r.id = m.report_id
+  JOIN public.camps c ON c.id = m.camp_id
+  JOIN public.evacuees e ON e.id = m.evacuee_id
+  WHERE r.reporter_id = auth.uid()
+    AND m.status <> 'rejected'
+  ORDER BY m.score DESC;
+$$;
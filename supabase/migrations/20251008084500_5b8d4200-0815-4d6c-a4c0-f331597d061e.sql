@@ -0,0 +1,49 @@
+-- Record an NGO pledge and update the need in one transaction.
+-- The need row is locked so concurrent pledges are applied one after another,
+-- and SECURITY DEFINER lets NGOs update camp_needs without a broad RLS policy.
+CREATE OR REPLACE FUNCTION public.pledge_assistance(
+  _need_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _pledge public.ngo_assistance;
+  _fulfilled INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo') THEN
+    RAISE EXCEPTION 'Only NGO accounts can pledge assistance' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.ngo_assistance (ngo_id, camp_id, need_id, items_provided, quantity, notes)
+  VALUES (auth.uid(), _need.camp_id, _need.id, _need.item_name, _quantity, _notes)
+  RETURNING * INTO _pledge;
+
+  _fulfilled := COALESCE(_need.quantity_fulfilled, 0) + _quantity;
+
+  UPDATE public.camp_needs
+  SET
+    quantity_fulfilled = _fulfilled,
+    status = CASE WHEN _fulfilled >= _need.quantity_needed THEN 'fulfilled' ELSE 'partial' END
+  WHERE id = _need.id;
+
+  RETURN _pledge;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,191 @@
+-- Dispatch and receipt details for NGO assistance
+ALTER TABLE public.ngo_assistance
+  ADD COLUMN vehicle_number TEXT,
+  ADD COLUMN driver_name TEXT,
+  ADD COLUMN driver_phone TEXT,
+  ADD COLUMN dispatched_at TIMESTAMPTZ,
+  ADD COLUMN quantity_received INTEGER CHECK (quantity_received >= 0),
+  ADD COLUMN received_at TIMESTAMPTZ,
+  ADD COLUMN received_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN receipt_notes TEXT;
+
+-- Outstanding (not yet delivered) pledges are tracked separately from
+-- quantity_fulfilled, which now only counts confirmed deliveries
+ALTER TABLE public.camp_needs ADD COLUMN quantity_pledged INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.recalculate_need_fulfilment(_need_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.camp_needs
+  SET
+    quantity_pledged = totals.pledged,
+    quantity_fulfilled = totals.received,
+    status = CASE
+      WHEN totals.received >= camp_needs.quantity_needed THEN 'fulfilled'
+      WHEN totals.received > 0 THEN 'partial'
+      ELSE 'pending'
+    END
+  FROM (
+    SELECT
+      COALESCE(SUM(quantity) FILTER (WHERE delivery_status IN ('pledged', 'in_transit')), 0) AS pledged,
+      COALESCE(SUM(quantity_received) FILTER (WHERE delivery_status = 'delivered'), 0) AS received
+    FROM public.ngo_assistance
+    WHERE need_id = _need_id
+  ) totals
+  WHERE camp_needs.id = _need_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_need_fulfilment(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_assistance_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.need_id IS NOT NULL THEN
+    PERFORM public.recalculate_need_fulfilment(OLD.need_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.need_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.need_id IS DISTINCT FROM OLD.need_id) THEN
+    PERFORM public.recalculate_need_fulfilment(NEW.need_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_need_on_assistance_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_assistance_change();
+
+-- Only the receiving camp may mark a delivery as received, and delivered
+-- assistance is final. NGOs keep their update policy for dispatch details.
+CREATE OR REPLACE FUNCTION public.guard_assistance_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the need a pledge was for unlinks it (ON DELETE SET NULL), which
+  -- is allowed whatever state the pledge is in
+  IF NEW.need_id IS NULL AND to_jsonb(NEW) - 'need_id' = to_jsonb(OLD) - 'need_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.delivery_status = 'delivered' THEN
+    RAISE EXCEPTION 'Delivered assistance can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF (NEW.delivery_status = 'delivered' OR NEW.quantity_received IS DISTINCT FROM OLD.quantity_received)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.camps WHERE id = NEW.camp_id AND camp_admin_id = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'Only the receiving camp can confirm delivery' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.delivery_status = 'in_transit' AND OLD.delivery_status = 'pledged' THEN
+    NEW.dispatched_at = COALESCE(NEW.dispatched_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assistance_delivery
+  BEFORE UPDATE ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_assistance_delivery();
+
+-- Camp admins confirm what actually arrived, which may differ from the pledge
+CREATE OR REPLACE FUNCTION public.confirm_delivery_receipt(
+  _assistance_id UUID,
+  _quantity_received INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _assistance public.ngo_assistance;
+BEGIN
+  SELECT * INTO _assistance FROM public.ngo_assistance WHERE id = _assistance_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assistance not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.camps WHERE id = _assistance.camp_id AND camp_admin_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the receiving camp can confirm delivery' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity_received IS NULL OR _quantity_received < 0 THEN
+    RAISE EXCEPTION 'Received quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF _assistance.need_id IS NOT NULL THEN
+    PERFORM 1 FROM public.camp_needs WHERE id = _assistance.need_id FOR UPDATE;
+  END IF;
+
+  UPDATE public.ngo_assistance
+  SET
+    delivery_status = 'delivered',
+    quantity_received = _quantity_received,
+    received_at = now(),
+    received_by = auth.uid(),
+    receipt_notes = _notes
+  WHERE id = _assistance_id
+  RETURNING * INTO _assistance;
+
+  RETURN _assistance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_delivery_receipt(UUID, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_delivery_receipt(UUID, INTEGER, TEXT) TO authenticated;
+
+-- Pledges no longer count towards fulfilment; the trigger above keeps the need in sync
+CREATE OR REPLACE FUNCTION public.pledge_assistance(
+  _need_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _pledge public.ngo_assistance;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo') THEN
+    RAISE EXCEPTION 'Only NGO accounts can pledge assistance' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.ngo_assistance (ngo_id, camp_id, need_id, items_provided, quantity, notes)
+  VALUES (auth.uid(), _need.camp_id, _need.id, _need.item_name, _quantity, _notes)
+  RETURNING * INTO _pledge;
+
+  RETURN _pledge;
+END;
+$$;
+
+-- Existing quantity_fulfilled values were pledge totals; rebuild them from deliveries
+SELECT public.recalculate_need_fulfilment(id) FROM public.camp_needs;
@@ -0,0 +1,4 @@
+-- Platform administrators (district officials) who verify camps and NGOs.
+-- Added in its own migration because a new enum value can't be used in the
+-- transaction that creates it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,230 @@
+-- Admin accounts are never self-assigned at signup. Promote an official with:
+--   UPDATE public.profiles SET role = 'admin' WHERE id = '<user id>';
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+-- Verification details for camps. Camps that were already live are grandfathered in.
+ALTER TABLE public.camps
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'verified'
+    CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  ADD COLUMN registration_number TEXT,
+  ADD COLUMN document_path TEXT,
+  ADD COLUMN verification_notes TEXT,
+  ADD COLUMN verified_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN verified_at TIMESTAMPTZ;
+
+ALTER TABLE public.camps ALTER COLUMN verification_status SET DEFAULT 'pending';
+
+-- Verification details for NGOs live on their profile. Existing accounts are
+-- grandfathered in; new NGOs start unsubmitted.
+ALTER TABLE public.profiles
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'verified'
+    CHECK (verification_status IN ('unsubmitted', 'pending', 'verified', 'rejected')),
+  ADD COLUMN organization_name TEXT,
+  ADD COLUMN registration_number TEXT,
+  ADD COLUMN document_path TEXT,
+  ADD COLUMN verification_notes TEXT,
+  ADD COLUMN verified_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN verified_at TIMESTAMPTZ;
+
+ALTER TABLE public.profiles ALTER COLUMN verification_status SET DEFAULT 'unsubmitted';
+
+-- Only admins may change verification fields; everything else still goes
+-- through the existing owner policies
+CREATE OR REPLACE FUNCTION public.guard_verification_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF public.is_admin() THEN
+    IF NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+      NEW.verified_by = auth.uid();
+      NEW.verified_at = now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.verification_notes IS DISTINCT FROM OLD.verification_notes THEN
+    RAISE EXCEPTION 'Only administrators can review verification' USING ERRCODE = '42501';
+  END IF;
+
+  -- Owners may (re)submit for review, but never approve themselves
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+    AND NEW.verification_status <> 'pending' THEN
+    RAISE EXCEPTION 'Only administrators can review verification' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_camp_verification
+  BEFORE UPDATE ON public.camps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_verification_fields();
+
+CREATE TRIGGER guard_profile_verification
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_verification_fields();
+
+CREATE OR REPLACE FUNCTION public.handle_new_camp_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    NEW.verification_status = 'pending';
+    NEW.verification_notes = NULL;
+    NEW.verified_by = NULL;
+    NEW.verified_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_new_camp_verification
+  BEFORE INSERT ON public.camps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_camp_verification();
+
+-- Only verified camps are visible to others
+DROP POLICY "Anyone can view active camps" ON public.camps;
+
+CREATE POLICY "Anyone can view active verified camps"
+  ON public.camps FOR SELECT
+  USING (status = 'active' AND verification_status = 'verified');
+
+CREATE POLICY "Camp admins can view own camps"
+  ON public.camps FOR SELECT
+  USING (auth.uid() = camp_admin_id);
+
+CREATE POLICY "Admins can view all camps"
+  ON public.camps FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can review camps"
+  ON public.camps FOR UPDATE
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can review profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.is_admin());
+
+DROP POLICY "Anyone can view camp needs" ON public.camp_needs;
+
+CREATE POLICY "Anyone can view needs of verified camps"
+  ON public.camp_needs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.camps
+      WHERE camps.id = camp_id
+        AND (camps.verification_status = 'verified' OR camps.camp_admin_id = auth.uid() OR public.is_admin())
+    )
+  );
+
+-- Only verified NGOs can pledge
+DROP POLICY "NGOs can provide assistance" ON public.ngo_assistance;
+
+CREATE POLICY "Verified NGOs can provide assistance"
+  ON public.ngo_assistance FOR INSERT
+  WITH CHECK (
+    auth.uid() = ngo_id AND
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'ngo' AND verification_status = 'verified'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.pledge_assistance(
+  _need_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _pledge public.ngo_assistance;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo') THEN
+    RAISE EXCEPTION 'Only NGO accounts can pledge assistance' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND verification_status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Your organisation must be verified before pledging' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.ngo_assistance (ngo_id, camp_id, need_id, items_provided, quantity, notes)
+  VALUES (auth.uid(), _need.camp_id, _need.id, _need.item_name, _quantity, _notes)
+  RETURNING * INTO _pledge;
+
+  RETURN _pledge;
+END;
+$$;
+
+-- Never let signup metadata create an admin
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, role, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    CASE
+      WHEN NEW.raw_user_meta_data->>'role' IN ('user', 'camp', 'ngo')
+        THEN (NEW.raw_user_meta_data->>'role')::app_role
+      ELSE 'user'
+    END,
+    NEW.raw_user_meta_data->>'phone'
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Registration documents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('verification-documents', 'verification-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own verification documents"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'verification-documents' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Owners and admins can read verification documents"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'verification-documents' AND
+    ((storage.foldername(name))[1] = auth.uid()::text OR public.is_admin())
+  );
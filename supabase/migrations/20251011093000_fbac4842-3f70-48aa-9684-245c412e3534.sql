@@ -0,0 +1,402 @@
+-- Camp staff. camps.camp_admin_id stays as the account that registered the
+-- camp; day-to-day permissions come from membership roles:
+--   owner       everything, including the team
+--   manager     camp details, needs, deliveries, evacuees, inviting staff
+--   registrar   evacuee registry and reunification
+--   storekeeper needs and deliveries
+CREATE TABLE public.camp_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'registrar', 'storekeeper')),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(camp_id, user_id)
+);
+
+CREATE INDEX camp_members_user_id_idx ON public.camp_members(user_id);
+
+ALTER TABLE public.camp_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.camp_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'registrar', 'storekeeper')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  responded_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX camp_invites_pending_email_idx
+  ON public.camp_invites(camp_id, email)
+  WHERE status = 'pending';
+
+ALTER TABLE public.camp_invites ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so policies on camp_members can call it without recursing
+CREATE OR REPLACE FUNCTION public.has_camp_role(
+  _camp_id UUID,
+  _roles TEXT[] DEFAULT ARRAY['owner', 'manager', 'registrar', 'storekeeper']
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.camp_members
+    WHERE camp_id = _camp_id AND user_id = auth.uid() AND role = ANY(_roles)
+  );
+$$;
+
+-- Existing camp admins become owners, and whoever registers a camp owns it
+INSERT INTO public.camp_members (camp_id, user_id, role)
+SELECT id, camp_admin_id, 'owner' FROM public.camps
+ON CONFLICT (camp_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_camp_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.camp_members (camp_id, user_id, role)
+  VALUES (NEW.id, NEW.camp_admin_id, 'owner')
+  ON CONFLICT (camp_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_camp_owner
+  AFTER INSERT ON public.camps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_camp_owner();
+
+-- A camp must always keep at least one owner
+CREATE OR REPLACE FUNCTION public.guard_last_camp_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.camps WHERE id = OLD.camp_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.camp_members
+      WHERE camp_id = OLD.camp_id AND role = 'owner' AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'A camp must have at least one owner' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_last_camp_owner
+  BEFORE UPDATE OR DELETE ON public.camp_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_last_camp_owner();
+
+-- Membership policies. New members only join through respond_to_camp_invite()
+-- and roles only change through set_camp_member_role().
+CREATE POLICY "Camp members can view their team"
+  ON public.camp_members FOR SELECT
+  USING (public.has_camp_role(camp_id));
+
+CREATE POLICY "Camp owners can remove members and members can leave"
+  ON public.camp_members FOR DELETE
+  USING (public.has_camp_role(camp_id, ARRAY['owner']) OR auth.uid() = user_id);
+
+-- Managers can invite staff but only owners can invite another owner
+CREATE POLICY "Camp owners and managers can view invites"
+  ON public.camp_invites FOR SELECT
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager']));
+
+CREATE POLICY "Camp owners and managers can invite staff"
+  ON public.camp_invites FOR INSERT
+  WITH CHECK (
+    auth.uid() = invited_by AND
+    status = 'pending' AND
+    (
+      public.has_camp_role(camp_id, ARRAY['owner']) OR
+      (role <> 'owner' AND public.has_camp_role(camp_id, ARRAY['manager']))
+    )
+  );
+
+
+-- Invitees cannot see the camp yet, so they read their invites through here
+CREATE OR REPLACE FUNCTION public.get_my_camp_invites()
+RETURNS TABLE (
+  invite_id UUID,
+  camp_id UUID,
+  camp_name TEXT,
+  camp_location TEXT,
+  role TEXT,
+  invited_by_name TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    c.id,
+    c.name,
+    c.location,
+    i.role,
+    p.full_name,
+    i.created_at
+  FROM public.camp_invites i
+  JOIN public.camps c ON c.id = i.camp_id
+  LEFT JOIN public.profiles p ON p.id = i.invited_by
+  WHERE i.status = 'pending'
+    AND i.email = lower(auth.jwt() ->> 'email')
+  ORDER BY i.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_camp_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_camp_invites() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.respond_to_camp_invite(_invite_id UUID, _accept BOOLEAN)
+RETURNS public.camp_invites
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _invite public.camp_invites;
+BEGIN
+  SELECT * INTO _invite FROM public.camp_invites WHERE id = _invite_id FOR UPDATE;
+
+  IF NOT FOUND OR _invite.email <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invite is no longer valid' USING ERRCODE = '22023';
+  END IF;
+
+  IF _accept THEN
+    INSERT INTO public.camp_members (camp_id, user_id, role, invited_by)
+    VALUES (_invite.camp_id, auth.uid(), _invite.role, _invite.invited_by)
+    ON CONFLICT (camp_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  UPDATE public.camp_invites
+  SET
+    status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = now()
+  WHERE id = _invite_id
+  RETURNING * INTO _invite;
+
+  RETURN _invite;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.respond_to_camp_invite(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_to_camp_invite(UUID, BOOLEAN) TO authenticated;
+
+-- Owners and managers withdraw a pending invite here rather than through an
+-- UPDATE policy, which could not stop them changing its email, role or camp too
+CREATE OR REPLACE FUNCTION public.revoke_camp_invite(_invite_id UUID)
+RETURNS public.camp_invites
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _invite public.camp_invites;
+BEGIN
+  SELECT * INTO _invite FROM public.camp_invites WHERE id = _invite_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_camp_role(_invite.camp_id, ARRAY['owner', 'manager']) THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invite is no longer valid' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.camp_invites
+  SET status = 'revoked'
+  WHERE id = _invite_id
+  RETURNING * INTO _invite;
+
+  RETURN _invite;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_camp_invite(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_camp_invite(UUID) TO authenticated;
+
+-- Owners change a member's role here rather than through an UPDATE policy,
+-- which could not stop them rewriting the member or camp to add anyone to a
+-- team without an invite. guard_last_camp_owner still stops the last owner
+-- stepping down.
+CREATE OR REPLACE FUNCTION public.set_camp_member_role(_camp_id UUID, _user_id UUID, _role TEXT)
+RETURNS public.camp_members
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _member public.camp_members;
+BEGIN
+  IF NOT public.has_camp_role(_camp_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only camp owners can change member roles' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.camp_members
+  SET role = _role
+  WHERE camp_id = _camp_id AND user_id = _user_id
+  RETURNING * INTO _member;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN _member;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_camp_member_role(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_camp_member_role(UUID, UUID, TEXT) TO authenticated;
+
+-- Camps: any member can see their camp, owners and managers edit it
+DROP POLICY "Camp admins can view own camps" ON public.camps;
+
+CREATE POLICY "Camp members can view their camps"
+  ON public.camps FOR SELECT
+  USING (public.has_camp_role(id));
+
+DROP POLICY "Camp admins can update own camps" ON public.camps;
+
+CREATE POLICY "Camp owners and managers can update camps"
+  ON public.camps FOR UPDATE
+  USING (public.has_camp_role(id, ARRAY['owner', 'manager']));
+
+-- Needs: everyone on the team can read them, storekeepers maintain them
+DROP POLICY "Anyone can view needs of verified camps" ON public.camp_needs;
+
+CREATE POLICY "Anyone can view needs of verified camps"
+  ON public.camp_needs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.camps
+      WHERE camps.id = camp_id
+        AND (camps.verification_status = 'verified' OR public.has_camp_role(camps.id) OR public.is_admin())
+    )
+  );
+
+DROP POLICY "Camp admins can manage needs" ON public.camp_needs;
+
+CREATE POLICY "Camp staff can manage needs"
+  ON public.camp_needs FOR ALL
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'storekeeper']));
+
+-- Evacuees and reunification are handled by registrars
+DROP POLICY "Camp admins can manage own evacuees" ON public.evacuees;
+
+CREATE POLICY "Camp registrars can manage evacuees"
+  ON public.evacuees FOR ALL
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'registrar']));
+
+DROP POLICY "Camp admins can view reports matched to their camps" ON public.missing_person_reports;
+
+CREATE POLICY "Camp registrars can view reports matched to their camps"
+  ON public.missing_person_reports FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.reunification_matches
+      WHERE reunification_matches.report_id = missing_person_reports.id
+        AND public.has_camp_role(reunification_matches.camp_id, ARRAY['owner', 'manager', 'registrar'])
+    )
+  );
+
+DROP POLICY "Camp admins can view matches for own camps" ON public.reunification_matches;
+
+CREATE POLICY "Camp registrars can view matches"
+  ON public.reunification_matches FOR SELECT
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'registrar']));
+
+DROP POLICY "Camp admins can review matches for own camps" ON public.reunification_matches;
+
+CREATE POLICY "Camp registrars can review matches"
+  ON public.reunification_matches FOR UPDATE
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'registrar']));
+
+-- Deliveries are received by storekeepers
+CREATE OR REPLACE FUNCTION public.guard_assistance_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.need_id IS NULL AND to_jsonb(NEW) - 'need_id' = to_jsonb(OLD) - 'need_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.delivery_status = 'delivered' THEN
+    RAISE EXCEPTION 'Delivered assistance can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF (NEW.delivery_status = 'delivered' OR NEW.quantity_received IS DISTINCT FROM OLD.quantity_received)
+    AND NOT public.has_camp_role(NEW.camp_id, ARRAY['owner', 'manager', 'storekeeper']) THEN
+    RAISE EXCEPTION 'Only the receiving camp can confirm delivery' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.delivery_status = 'in_transit' AND OLD.delivery_status = 'pledged' THEN
+    NEW.dispatched_at = COALESCE(NEW.dispatched_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.confirm_delivery_receipt(
+  _assistance_id UUID,
+  _quantity_received INTEGER,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _assistance public.ngo_assistance;
+BEGIN
+  SELECT * INTO _assistance FROM public.ngo_assistance WHERE id = _assistance_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assistance not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_camp_role(_assistance.camp_id, ARRAY['owner', 'manager', 'storekeeper']) THEN
+    RAISE EXCEPTION 'Only the receiving camp can confirm delivery' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity_received IS NULL OR _quantity_received < 0 THEN
+    RAISE EXCEPTION 'Received quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF _assistance.need_id IS NOT NULL THEN
+    PERFORM 1 FROM public.camp_needs WHERE id = _assistance.need_id FOR UPDATE;
+  END IF;
+
+  UPDATE public.ngo_assistance
+  SET
+    delivery_status = 'delivered',
+    quantity_received = _quantity_received,
+    received_at = now(),
+    received_by = auth.uid(),
+    receipt_notes = _notes
+  WHERE id = _assistance_id
+  RETURNING * INTO _assistance;
+
+  RETURN _assistance;
+END;
+$$;
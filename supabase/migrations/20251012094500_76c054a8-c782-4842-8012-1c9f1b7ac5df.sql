@@ -0,0 +1,360 @@
+-- Camp inventory. Stock is held in batches (so expiry can be tracked) and
+-- every change is written to an append-only movement ledger. Batches and
+-- movements are only written through apply_stock_movement().
+CREATE TABLE public.inventory_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL DEFAULT 'units',
+  low_stock_threshold INTEGER CHECK (low_stock_threshold >= 0),
+  reorder_quantity INTEGER CHECK (reorder_quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX inventory_items_camp_id_name_idx ON public.inventory_items (camp_id, lower(name));
+
+CREATE TABLE public.inventory_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  batch_number TEXT,
+  expiry_date DATE,
+  quantity_on_hand INTEGER NOT NULL DEFAULT 0 CHECK (quantity_on_hand >= 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX inventory_batches_item_id_idx ON public.inventory_batches (item_id);
+
+CREATE TABLE public.inventory_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  camp_id UUID NOT NULL REFERENCES public.camps(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  batch_id UUID REFERENCES public.inventory_batches(id) ON DELETE SET NULL,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('delivery', 'stock_in', 'distribution', 'stock_out')),
+  -- Signed: positive for stock coming in, negative for stock going out
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  balance_after INTEGER NOT NULL,
+  assistance_id UUID REFERENCES public.ngo_assistance(id) ON DELETE SET NULL,
+  evacuee_id UUID REFERENCES public.evacuees(id) ON DELETE SET NULL,
+  notes TEXT,
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX inventory_movements_item_id_idx ON public.inventory_movements (item_id, created_at);
+
+-- Needs raised automatically when an item runs low
+ALTER TABLE public.camp_needs
+  ADD COLUMN inventory_item_id UUID REFERENCES public.inventory_items(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Camp members can view inventory"
+  ON public.inventory_items FOR SELECT
+  USING (public.has_camp_role(camp_id));
+
+CREATE POLICY "Camp storekeepers can add inventory items"
+  ON public.inventory_items FOR INSERT
+  WITH CHECK (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'storekeeper']));
+
+CREATE POLICY "Camp storekeepers can update inventory items"
+  ON public.inventory_items FOR UPDATE
+  USING (public.has_camp_role(camp_id, ARRAY['owner', 'manager', 'storekeeper']));
+
+CREATE POLICY "Camp members can view inventory batches"
+  ON public.inventory_batches FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.inventory_items
+      WHERE inventory_items.id = item_id AND public.has_camp_role(inventory_items.camp_id)
+    )
+  );
+
+CREATE POLICY "Camp members can view inventory movements"
+  ON public.inventory_movements FOR SELECT
+  USING (public.has_camp_role(camp_id));
+
+-- Storekeepers hand out stock to evacuees, so they need to look them up
+CREATE POLICY "Camp storekeepers can view evacuees"
+  ON public.evacuees FOR SELECT
+  USING (public.has_camp_role(camp_id, ARRAY['storekeeper']));
+
+-- Raise a need when an item drops to its threshold, unless one is already open
+CREATE OR REPLACE FUNCTION public.raise_low_stock_need(_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand INTEGER;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+
+  IF NOT FOUND OR _item.low_stock_threshold IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_on_hand), 0) INTO _on_hand
+  FROM public.inventory_batches
+  WHERE item_id = _item_id;
+
+  IF _on_hand > _item.low_stock_threshold THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.camp_needs
+    WHERE camp_id = _item.camp_id
+      AND status <> 'fulfilled'
+      AND (inventory_item_id = _item.id OR lower(item_name) = lower(_item.name))
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.camp_needs (camp_id, item_name, quantity_needed, urgency, inventory_item_id)
+  VALUES (
+    _item.camp_id,
+    _item.name,
+    GREATEST(COALESCE(_item.reorder_quantity, _item.low_stock_threshold * 2) - _on_hand, 1),
+    CASE WHEN _on_hand = 0 THEN 'critical' ELSE 'high' END,
+    _item.id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.raise_low_stock_need(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_inventory_level_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'inventory_items' THEN
+    PERFORM public.raise_low_stock_need(NEW.id);
+  ELSE
+    PERFORM public.raise_low_stock_need(NEW.item_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER check_low_stock_on_batch_change
+  AFTER INSERT OR UPDATE OF quantity_on_hand ON public.inventory_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_inventory_level_change();
+
+CREATE TRIGGER check_low_stock_on_threshold_change
+  AFTER UPDATE OF low_stock_threshold ON public.inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_inventory_level_change();
+
+-- Core ledger write. Incoming stock goes into the matching batch; outgoing
+-- stock comes from the given batch, or earliest-expiring batches first.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+  _item_id UUID,
+  _movement_type TEXT,
+  _quantity INTEGER,
+  _batch_id UUID DEFAULT NULL,
+  _batch_number TEXT DEFAULT NULL,
+  _expiry_date DATE DEFAULT NULL,
+  _assistance_id UUID DEFAULT NULL,
+  _evacuee_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items;
+  _batch public.inventory_batches;
+  _on_hand INTEGER;
+  _remaining INTEGER;
+  _take INTEGER;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_on_hand), 0) INTO _on_hand
+  FROM public.inventory_batches
+  WHERE item_id = _item_id;
+
+  IF _movement_type IN ('delivery', 'stock_in') THEN
+    IF _batch_id IS NOT NULL THEN
+      SELECT * INTO _batch FROM public.inventory_batches WHERE id = _batch_id AND item_id = _item_id;
+    ELSE
+      SELECT * INTO _batch FROM public.inventory_batches
+      WHERE item_id = _item_id
+        AND batch_number IS NOT DISTINCT FROM NULLIF(_batch_number, '')
+        AND expiry_date IS NOT DISTINCT FROM _expiry_date
+      LIMIT 1;
+    END IF;
+
+    IF _batch.id IS NULL THEN
+      INSERT INTO public.inventory_batches (item_id, batch_number, expiry_date)
+      VALUES (_item_id, NULLIF(_batch_number, ''), _expiry_date)
+      RETURNING * INTO _batch;
+    END IF;
+
+    UPDATE public.inventory_batches
+    SET quantity_on_hand = quantity_on_hand + _quantity
+    WHERE id = _batch.id;
+
+    INSERT INTO public.inventory_movements (
+      camp_id, item_id, batch_id, movement_type, quantity, balance_after,
+      assistance_id, evacuee_id, notes, recorded_by
+    )
+    VALUES (
+      _item.camp_id, _item_id, _batch.id, _movement_type, _quantity, _on_hand + _quantity,
+      _assistance_id, _evacuee_id, _notes, auth.uid()
+    );
+  ELSIF _movement_type IN ('distribution', 'stock_out') THEN
+    IF _quantity > _on_hand THEN
+      RAISE EXCEPTION 'Only % % of % in stock', _on_hand, _item.unit, _item.name USING ERRCODE = '22023';
+    END IF;
+
+    _remaining := _quantity;
+
+    FOR _batch IN
+      SELECT * FROM public.inventory_batches
+      WHERE item_id = _item_id
+        AND quantity_on_hand > 0
+        AND (_batch_id IS NULL OR id = _batch_id)
+      ORDER BY expiry_date NULLS LAST, created_at
+      FOR UPDATE
+    LOOP
+      _take := LEAST(_batch.quantity_on_hand, _remaining);
+      _remaining := _remaining - _take;
+      _on_hand := _on_hand - _take;
+
+      UPDATE public.inventory_batches
+      SET quantity_on_hand = quantity_on_hand - _take
+      WHERE id = _batch.id;
+
+      INSERT INTO public.inventory_movements (
+        camp_id, item_id, batch_id, movement_type, quantity, balance_after,
+        assistance_id, evacuee_id, notes, recorded_by
+      )
+      VALUES (
+        _item.camp_id, _item_id, _batch.id, _movement_type, -_take, _on_hand,
+        _assistance_id, _evacuee_id, _notes, auth.uid()
+      );
+
+      EXIT WHEN _remaining = 0;
+    END LOOP;
+
+    IF _remaining > 0 THEN
+      RAISE EXCEPTION 'Not enough stock in the selected batch' USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown movement type %', _movement_type USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(UUID, TEXT, INTEGER, UUID, TEXT, DATE, UUID, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Manual stock-in, stock-out and distributions from the camp dashboard.
+-- Deliveries are only recorded by the trigger below.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  _item_id UUID,
+  _movement_type TEXT,
+  _quantity INTEGER,
+  _batch_id UUID DEFAULT NULL,
+  _batch_number TEXT DEFAULT NULL,
+  _expiry_date DATE DEFAULT NULL,
+  _evacuee_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _camp_id UUID;
+BEGIN
+  SELECT camp_id INTO _camp_id FROM public.inventory_items WHERE id = _item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.has_camp_role(_camp_id, ARRAY['owner', 'manager', 'storekeeper']) THEN
+    RAISE EXCEPTION 'Only camp storekeepers can update inventory' USING ERRCODE = '42501';
+  END IF;
+
+  IF _movement_type NOT IN ('stock_in', 'distribution', 'stock_out') THEN
+    RAISE EXCEPTION 'Unknown movement type %', _movement_type USING ERRCODE = '22023';
+  END IF;
+
+  IF _movement_type = 'distribution' AND NOT EXISTS (
+    SELECT 1 FROM public.evacuees WHERE id = _evacuee_id AND camp_id = _camp_id
+  ) THEN
+    RAISE EXCEPTION 'Distributions must be made to an evacuee registered in this camp' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM public.apply_stock_movement(
+    _item_id, _movement_type, _quantity, _batch_id, _batch_number, _expiry_date,
+    NULL, CASE WHEN _movement_type = 'distribution' THEN _evacuee_id END, _notes
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_stock_movement(UUID, TEXT, INTEGER, UUID, TEXT, DATE, UUID, TEXT)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(UUID, TEXT, INTEGER, UUID, TEXT, DATE, UUID, TEXT)
+  TO authenticated;
+
+-- Confirmed deliveries are booked into stock, matched to the need's item or by name
+CREATE OR REPLACE FUNCTION public.handle_assistance_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item_id UUID;
+BEGIN
+  IF NEW.delivery_status <> 'delivered'
+    OR OLD.delivery_status IS NOT DISTINCT FROM 'delivered'
+    OR COALESCE(NEW.quantity_received, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT inventory_item_id INTO _item_id FROM public.camp_needs WHERE id = NEW.need_id;
+
+  IF _item_id IS NULL THEN
+    SELECT id INTO _item_id FROM public.inventory_items
+    WHERE camp_id = NEW.camp_id AND lower(name) = lower(NEW.items_provided);
+  END IF;
+
+  IF _item_id IS NULL THEN
+    INSERT INTO public.inventory_items (camp_id, name)
+    VALUES (NEW.camp_id, NEW.items_provided)
+    RETURNING id INTO _item_id;
+  END IF;
+
+  PERFORM public.apply_stock_movement(
+    _item_id, 'delivery', NEW.quantity_received,
+    _assistance_id => NEW.id,
+    _notes => NEW.receipt_notes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_received_assistance
+  AFTER UPDATE ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_assistance_received();
@@ -0,0 +1,304 @@
+-- Standard relief item catalogue so needs, pledges and stock refer to the
+-- same item regardless of how it was typed
+CREATE TABLE public.catalogue_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category TEXT NOT NULL CHECK (category IN (
+    'food', 'water', 'hygiene', 'medical', 'clothing', 'bedding', 'baby_care', 'household'
+  )),
+  name TEXT NOT NULL,
+  name_ml TEXT,
+  unit TEXT NOT NULL,
+  pack_size NUMERIC CHECK (pack_size > 0),
+  -- Lower-case alternative spellings used to map free text onto the catalogue
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX catalogue_items_name_idx ON public.catalogue_items (lower(name));
+
+ALTER TABLE public.catalogue_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the item catalogue"
+  ON public.catalogue_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage the item catalogue"
+  ON public.catalogue_items FOR ALL
+  USING (public.is_admin());
+
+INSERT INTO public.catalogue_items (category, name, name_ml, unit, pack_size, aliases) VALUES
+  ('food', 'Rice', 'അരി', 'kg', 5, '{ari,matta rice,boiled rice,rice bag}'),
+  ('food', 'Wheat flour', 'ഗോതമ്പ് പൊടി', 'kg', 5, '{atta,wheat,gothambu}'),
+  ('food', 'Rava', 'റവ', 'kg', 1, '{semolina,sooji,suji}'),
+  ('food', 'Sugar', 'പഞ്ചസാര', 'kg', 1, '{panchasara}'),
+  ('food', 'Salt', 'ഉപ്പ്', 'kg', 1, '{uppu}'),
+  ('food', 'Tea powder', 'ചായപ്പൊടി', 'kg', 0.25, '{tea,chaya podi}'),
+  ('food', 'Cooking oil', 'പാചക എണ്ണ', 'litre', 1, '{oil,sunflower oil,ennai}'),
+  ('food', 'Coconut oil', 'വെളിച്ചെണ്ണ', 'litre', 1, '{velichenna}'),
+  ('food', 'Toor dal', 'തുവരപ്പരിപ്പ്', 'kg', 1, '{dal,dhal,parippu,lentils}'),
+  ('food', 'Green gram', 'ചെറുപയർ', 'kg', 1, '{cherupayar,moong}'),
+  ('food', 'Biscuits', 'ബിസ്കറ്റ്', 'packet', NULL, '{biscuit}'),
+  ('food', 'Bread', 'ബ്രെഡ്', 'packet', NULL, '{}'),
+  ('food', 'Milk powder', 'പാൽപ്പൊടി', 'packet', NULL, '{milk}'),
+  ('water', 'Drinking water', 'കുടിവെള്ളം', 'litre', 1, '{water,water bottle,mineral water,kudivellam}'),
+  ('hygiene', 'Bath soap', 'കുളിസോപ്പ്', 'piece', NULL, '{soap}'),
+  ('hygiene', 'Detergent', 'സോപ്പുപൊടി', 'kg', 1, '{washing powder,detergent powder}'),
+  ('hygiene', 'Toothpaste', 'ടൂത്ത്പേസ്റ്റ്', 'tube', NULL, '{paste}'),
+  ('hygiene', 'Toothbrush', 'ടൂത്ത്ബ്രഷ്', 'piece', NULL, '{brush}'),
+  ('hygiene', 'Sanitary napkins', 'സാനിറ്ററി നാപ്കിൻ', 'packet', NULL, '{sanitary pads,pads,napkins}'),
+  ('hygiene', 'Bleaching powder', 'ബ്ലീച്ചിംഗ് പൗഡർ', 'kg', 1, '{bleach}'),
+  ('hygiene', 'Hand sanitiser', 'സാനിറ്റൈസർ', 'bottle', NULL, '{sanitizer,hand sanitizer}'),
+  ('medical', 'ORS', 'ഒ.ആർ.എസ്', 'packet', NULL, '{ors packets,oral rehydration salts}'),
+  ('medical', 'Paracetamol', 'പാരസെറ്റമോൾ', 'strip', NULL, '{dolo,crocin,fever tablets}'),
+  ('medical', 'First aid kit', 'പ്രഥമശുശ്രൂഷ കിറ്റ്', 'kit', NULL, '{first aid}'),
+  ('medical', 'Face masks', 'മാസ്ക്', 'piece', NULL, '{mask,masks}'),
+  ('clothing', 'Mundu', 'മുണ്ട്', 'piece', NULL, '{lungi,dhoti}'),
+  ('clothing', 'Nightie', 'നൈറ്റി', 'piece', NULL, '{nighty,nighties}'),
+  ('clothing', 'Towel', 'തോർത്ത്', 'piece', NULL, '{thorthu,towels}'),
+  ('clothing', 'Innerwear', 'അടിവസ്ത്രം', 'piece', NULL, '{undergarments,inner wear}'),
+  ('clothing', 'Children''s clothes', 'കുട്ടികളുടെ വസ്ത്രം', 'set', NULL, '{kids clothes,children clothes}'),
+  ('bedding', 'Bedsheet', 'ബെഡ്ഷീറ്റ്', 'piece', NULL, '{bed sheet,bedsheets}'),
+  ('bedding', 'Blanket', 'പുതപ്പ്', 'piece', NULL, '{blankets,puthappu}'),
+  ('bedding', 'Sleeping mat', 'പായ', 'piece', NULL, '{mat,mats,paya}'),
+  ('bedding', 'Pillow', 'തലയണ', 'piece', NULL, '{pillows}'),
+  ('bedding', 'Mosquito net', 'കൊതുകുവല', 'piece', NULL, '{net}'),
+  ('baby_care', 'Baby diapers', 'ഡയപ്പർ', 'packet', NULL, '{diapers,diaper,nappies}'),
+  ('baby_care', 'Baby food', 'കുഞ്ഞുങ്ങൾക്കുള്ള ഭക്ഷണം', 'packet', NULL, '{cerelac,infant food}'),
+  ('household', 'Tarpaulin', 'ടാർപോളിൻ', 'piece', NULL, '{tarp,plastic sheet}'),
+  ('household', 'Bucket', 'ബക്കറ്റ്', 'piece', NULL, '{buckets}'),
+  ('household', 'Torch', 'ടോർച്ച്', 'piece', NULL, '{flashlight,torchlight}'),
+  ('household', 'Candles', 'മെഴുകുതിരി', 'packet', NULL, '{candle}');
+
+ALTER TABLE public.camp_needs
+  ADD COLUMN catalogue_item_id UUID REFERENCES public.catalogue_items(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ngo_assistance
+  ADD COLUMN catalogue_item_id UUID REFERENCES public.catalogue_items(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_items
+  ADD COLUMN catalogue_item_id UUID REFERENCES public.catalogue_items(id) ON DELETE SET NULL;
+
+-- Best catalogue match for free text such as "rice 5kg" or "അരി".
+-- Quantities and units are stripped before comparing.
+CREATE OR REPLACE FUNCTION public.match_catalogue_item(_text TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH normalized AS (
+    SELECT btrim(regexp_replace(
+      regexp_replace(
+        lower(_text),
+        '\d+(\.\d+)?\s*(kg|kgs|g|gm|gms|l|ltr|ltrs|litres?|liters?|ml|pcs|nos|packets?|packs?|bags?|bottles?)?\M',
+        ' ',
+        'g'
+      ),
+      '[\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e\s]+',
+      ' ',
+      'g'
+    )) AS q
+  )
+  SELECT c.id
+  FROM public.catalogue_items c, normalized n
+  WHERE n.q <> ''
+    AND (
+      lower(c.name) = n.q
+      OR c.name_ml = n.q
+      OR n.q = ANY(c.aliases)
+      OR similarity(lower(c.name), n.q) >= 0.5
+      OR EXISTS (SELECT 1 FROM unnest(c.aliases) a WHERE similarity(a, n.q) >= 0.5)
+    )
+  ORDER BY
+    (lower(c.name) = n.q OR c.name_ml = n.q OR n.q = ANY(c.aliases)) DESC,
+    GREATEST(
+      similarity(lower(c.name), n.q),
+      COALESCE((SELECT MAX(similarity(a, n.q)) FROM unnest(c.aliases) a), 0)
+    ) DESC
+  LIMIT 1;
+$$;
+
+-- Fill in catalogue links for rows that were entered as free text
+CREATE OR REPLACE FUNCTION public.assign_catalogue_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.catalogue_item_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'camp_needs' THEN
+    IF NEW.inventory_item_id IS NOT NULL THEN
+      SELECT catalogue_item_id INTO NEW.catalogue_item_id
+      FROM public.inventory_items WHERE id = NEW.inventory_item_id;
+    END IF;
+    NEW.catalogue_item_id := COALESCE(NEW.catalogue_item_id, public.match_catalogue_item(NEW.item_name));
+  ELSIF TG_TABLE_NAME = 'ngo_assistance' THEN
+    IF NEW.need_id IS NOT NULL THEN
+      SELECT catalogue_item_id INTO NEW.catalogue_item_id
+      FROM public.camp_needs WHERE id = NEW.need_id;
+    END IF;
+    NEW.catalogue_item_id := COALESCE(NEW.catalogue_item_id, public.match_catalogue_item(NEW.items_provided));
+  ELSE
+    NEW.catalogue_item_id := public.match_catalogue_item(NEW.name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_need_catalogue_item
+  BEFORE INSERT ON public.camp_needs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_catalogue_item();
+
+CREATE TRIGGER assign_assistance_catalogue_item
+  BEFORE INSERT ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_catalogue_item();
+
+CREATE TRIGGER assign_inventory_catalogue_item
+  BEFORE INSERT ON public.inventory_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_catalogue_item();
+
+-- Map existing free-text rows. Unmatched rows keep their text and a null link.
+UPDATE public.camp_needs
+SET catalogue_item_id = public.match_catalogue_item(item_name)
+WHERE catalogue_item_id IS NULL;
+
+UPDATE public.ngo_assistance a
+SET catalogue_item_id = COALESCE(
+  (SELECT n.catalogue_item_id FROM public.camp_needs n WHERE n.id = a.need_id),
+  public.match_catalogue_item(a.items_provided)
+)
+WHERE catalogue_item_id IS NULL;
+
+UPDATE public.inventory_items
+SET catalogue_item_id = public.match_catalogue_item(name)
+WHERE catalogue_item_id IS NULL;
+
+-- NGOs may pledge a substitute from the same category as the requested item
+DROP FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.pledge_assistance(
+  _need_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL,
+  _catalogue_item_id UUID DEFAULT NULL
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _item public.catalogue_items;
+  _pledge public.ngo_assistance;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo') THEN
+    RAISE EXCEPTION 'Only NGO accounts can pledge assistance' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND verification_status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Your organisation must be verified before pledging' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _catalogue_item_id := COALESCE(_catalogue_item_id, _need.catalogue_item_id);
+
+  IF _catalogue_item_id IS NOT NULL THEN
+    SELECT * INTO _item FROM public.catalogue_items WHERE id = _catalogue_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Catalogue item not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _need.catalogue_item_id IS NOT NULL AND _item.category <> (
+      SELECT category FROM public.catalogue_items WHERE id = _need.catalogue_item_id
+    ) THEN
+      RAISE EXCEPTION 'Substitutes must be from the same category as the requested item' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.ngo_assistance (ngo_id, camp_id, need_id, items_provided, quantity, notes, catalogue_item_id)
+  VALUES (
+    auth.uid(),
+    _need.camp_id,
+    _need.id,
+    CASE WHEN _catalogue_item_id IS DISTINCT FROM _need.catalogue_item_id THEN _item.name ELSE _need.item_name END,
+    _quantity,
+    _notes,
+    _catalogue_item_id
+  )
+  RETURNING * INTO _pledge;
+
+  RETURN _pledge;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT, UUID) TO authenticated;
+
+-- Deliveries are booked against the stock item for the same catalogue entry
+CREATE OR REPLACE FUNCTION public.handle_assistance_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item_id UUID;
+BEGIN
+  IF NEW.delivery_status <> 'delivered'
+    OR OLD.delivery_status IS NOT DISTINCT FROM 'delivered'
+    OR COALESCE(NEW.quantity_received, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.catalogue_item_id IS NOT NULL THEN
+    SELECT id INTO _item_id FROM public.inventory_items
+    WHERE camp_id = NEW.camp_id AND catalogue_item_id = NEW.catalogue_item_id
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF _item_id IS NULL THEN
+    SELECT inventory_item_id INTO _item_id FROM public.camp_needs WHERE id = NEW.need_id;
+  END IF;
+
+  IF _item_id IS NULL THEN
+    SELECT id INTO _item_id FROM public.inventory_items
+    WHERE camp_id = NEW.camp_id AND lower(name) = lower(NEW.items_provided);
+  END IF;
+
+  IF _item_id IS NULL THEN
+    INSERT INTO public.inventory_items (camp_id, name, unit, catalogue_item_id)
+    SELECT NEW.camp_id, COALESCE(c.name, NEW.items_provided), COALESCE(c.unit, 'units'), NEW.catalogue_item_id
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.catalogue_items c ON c.id = NEW.catalogue_item_id
+    ON CONFLICT (camp_id, lower(name)) DO UPDATE SET catalogue_item_id = EXCLUDED.catalogue_item_id
+    RETURNING id INTO _item_id;
+  END IF;
+
+  PERFORM public.apply_stock_movement(
+    _item_id, 'delivery', NEW.quantity_received,
+    _assistance_id => NEW.id,
+    _notes => NEW.receipt_notes
+  );
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Interface language chosen by the user. NULL until they pick one, so the
+-- language selected before signing in is kept on first login.
+ALTER TABLE public.profiles
+  ADD COLUMN preferred_language TEXT
+    CHECK (preferred_language IN ('en', 'ml', 'ta', 'hi'));
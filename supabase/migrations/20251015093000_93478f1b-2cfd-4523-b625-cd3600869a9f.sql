@@ -0,0 +1,3 @@
+-- Stream changes to dashboards so needs, pledges and occupancy update live.
+-- Subscribers only receive rows their RLS policies let them select.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.camps, public.camp_needs, public.ngo_assistance;
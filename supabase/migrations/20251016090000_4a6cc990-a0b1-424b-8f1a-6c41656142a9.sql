@@ -0,0 +1,61 @@
+-- Phone OTP sign-in. Accounts created with a one-time code carry their number
+-- on auth.users rather than in signup metadata, and a number added to an
+-- existing account is copied onto its profile once it has been confirmed.
+
+-- GoTrue stores numbers without the leading "+". Anything else is read the way
+-- normalizePhone() reads typed input: a bare ten-digit mobile is Indian, and
+-- something that is not a phone number at all comes back NULL.
+CREATE OR REPLACE FUNCTION public.format_auth_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN btrim(_phone) LIKE '+%' THEN
+      CASE WHEN digits ~ '^[0-9]{8,15}$' THEN '+' || digits END
+    WHEN ltrim(digits, '0') ~ '^[6-9][0-9]{9}$' THEN '+91' || ltrim(digits, '0')
+    WHEN digits ~ '^[0-9]{8,15}$' THEN '+' || digits
+  END
+  FROM (SELECT regexp_replace(_phone, '[^0-9]', '', 'g') AS digits) AS parsed;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, role, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(NEW.raw_user_meta_data->>'full_name', ''), 'User'),
+    CASE
+      WHEN NEW.raw_user_meta_data->>'role' IN ('user', 'camp', 'ngo')
+        THEN (NEW.raw_user_meta_data->>'role')::app_role
+      ELSE 'user'
+    END,
+    COALESCE(public.format_auth_phone(NEW.phone), NEW.raw_user_meta_data->>'phone')
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- A confirmed number replaces whatever was typed into the signup form
+CREATE OR REPLACE FUNCTION public.sync_profile_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET phone = public.format_auth_phone(NEW.phone)
+  WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_phone_confirmed
+  AFTER UPDATE OF phone, phone_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.phone_confirmed_at IS NOT NULL AND NULLIF(NEW.phone, '') IS NOT NULL)
+  EXECUTE FUNCTION public.sync_profile_phone();
@@ -0,0 +1,240 @@
+-- Roles are no longer taken from signup metadata. Every account starts as a
+-- citizen ('user'); camp and NGO access is requested and then approved by an
+-- administrator or by an organisation that is itself verified:
+--   camp requests: admins, or owners of a verified camp
+--   ngo requests:  admins, or verified NGOs
+-- Existing camp and NGO accounts keep their role.
+
+CREATE TABLE public.role_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  requested_role app_role NOT NULL CHECK (requested_role IN ('camp', 'ngo')),
+  organization_name TEXT,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open request at a time
+CREATE UNIQUE INDEX role_requests_one_pending_idx
+  ON public.role_requests (user_id)
+  WHERE status = 'pending';
+
+CREATE INDEX role_requests_status_idx ON public.role_requests (status, created_at);
+
+ALTER TABLE public.role_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.can_review_role(_role app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.is_admin()
+    OR (_role = 'camp' AND EXISTS (
+      SELECT 1
+      FROM public.camp_members m
+      JOIN public.camps c ON c.id = m.camp_id
+      WHERE m.user_id = auth.uid() AND m.role = 'owner' AND c.verification_status = 'verified'
+    ))
+    OR (_role = 'ngo' AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'ngo' AND verification_status = 'verified'
+    ));
+$$;
+
+CREATE POLICY "Users can view own role requests"
+  ON public.role_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Reviewers can view role requests"
+  ON public.role_requests FOR SELECT
+  USING (public.can_review_role(requested_role));
+
+-- Only a request in its initial state; decisions go through review_role_request()
+CREATE POLICY "Citizens can request a role"
+  ON public.role_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND review_notes IS NULL
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'user')
+  );
+
+-- A role may only change through an approval recorded in this same transaction,
+-- by an admin, or outside any user session (SQL console, migrations)
+CREATE OR REPLACE FUNCTION public.guard_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.role IS NOT DISTINCT FROM OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.role = 'user' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.role_requests
+    WHERE user_id = NEW.id
+      AND requested_role = NEW.role
+      AND status = 'approved'
+      AND reviewed_at = now()
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Roles are granted through an approved role request' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER guard_profile_role
+  BEFORE INSERT OR UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_role();
+
+DROP POLICY "Users can insert own profile" ON public.profiles;
+
+CREATE POLICY "Users can insert own citizen profile"
+  ON public.profiles FOR INSERT
+  WITH CHECK (auth.uid() = id AND role = 'user');
+
+-- Signup still lets people say what they're here for, but it only files a request
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, role, phone)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(NEW.raw_user_meta_data->>'full_name', ''), 'User'),
+    'user',
+    COALESCE(public.format_auth_phone(NEW.phone), NEW.raw_user_meta_data->>'phone')
+  );
+
+  IF NEW.raw_user_meta_data->>'role' IN ('camp', 'ngo') THEN
+    INSERT INTO public.role_requests (user_id, requested_role, organization_name)
+    VALUES (
+      NEW.id,
+      (NEW.raw_user_meta_data->>'role')::app_role,
+      NULLIF(NEW.raw_user_meta_data->>'organization_name', '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_role_request(
+  _request_id UUID,
+  _approve BOOLEAN,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.role_requests
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _request public.role_requests;
+BEGIN
+  SELECT * INTO _request FROM public.role_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_review_role(_request.requested_role) THEN
+    RAISE EXCEPTION 'Role request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _request.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own request' USING ERRCODE = '42501';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been reviewed' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.role_requests
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    review_notes = NULLIF(_notes, ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = _request_id
+  RETURNING * INTO _request;
+
+  -- New NGOs still submit their registration documents for verification
+  IF _approve THEN
+    UPDATE public.profiles
+    SET
+      role = _request.requested_role,
+      organization_name = COALESCE(organization_name, _request.organization_name)
+    WHERE id = _request.user_id;
+  END IF;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_role_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- An invite from a verified camp counts as approval for camp access
+CREATE OR REPLACE FUNCTION public.respond_to_camp_invite(_invite_id UUID, _accept BOOLEAN)
+RETURNS public.camp_invites
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _invite public.camp_invites;
+BEGIN
+  SELECT * INTO _invite FROM public.camp_invites WHERE id = _invite_id FOR UPDATE;
+
+  IF NOT FOUND OR _invite.email <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invite is no longer valid' USING ERRCODE = '22023';
+  END IF;
+
+  IF _accept THEN
+    INSERT INTO public.camp_members (camp_id, user_id, role, invited_by)
+    VALUES (_invite.camp_id, auth.uid(), _invite.role, _invite.invited_by)
+    ON CONFLICT (camp_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'user')
+      AND EXISTS (SELECT 1 FROM public.camps WHERE id = _invite.camp_id AND verification_status = 'verified') THEN
+      -- Any request they had open is superseded by the invite
+      UPDATE public.role_requests
+      SET status = 'rejected', review_notes = 'Superseded by a camp invitation', reviewed_at = now()
+      WHERE user_id = auth.uid() AND status = 'pending';
+
+      INSERT INTO public.role_requests (user_id, requested_role, status, review_notes, reviewed_by, reviewed_at)
+      VALUES (auth.uid(), 'camp', 'approved', 'Accepted a camp invitation', _invite.invited_by, now());
+
+      UPDATE public.profiles SET role = 'camp' WHERE id = auth.uid();
+    END IF;
+  END IF;
+
+  UPDATE public.camp_invites
+  SET
+    status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END,
+    responded_at = now()
+  WHERE id = _invite_id
+  RETURNING * INTO _invite;
+
+  RETURN _invite;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- "Users can update own profile" covers the role column too, so without
+-- guard_profile_role anyone could make themselves an admin. Attach it again
+-- here so every database has it, whichever earlier version of the role
+-- migrations it ran.
+DROP TRIGGER IF EXISTS guard_profile_role ON public.profiles;
+
+CREATE TRIGGER guard_profile_role
+  BEFORE INSERT OR UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_profile_role();
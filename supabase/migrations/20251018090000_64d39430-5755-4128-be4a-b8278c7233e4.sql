@@ -0,0 +1,90 @@
+-- Camp lifecycle:
+--   active    taking evacuees
+--   full      no seats left; follows occupancy, or set by hand while seats are still free
+--   inactive  suspended for a while, with a reason
+--   closed    shut down for good, with a reason, once every evacuee has left
+-- Occupancy flips active camps to full when the last seat is taken and back
+-- to active when seats free up. Suspended and closed camps are left alone.
+ALTER TABLE public.camps DROP CONSTRAINT camps_status_check;
+
+ALTER TABLE public.camps
+  ADD CONSTRAINT camps_status_check CHECK (status IN ('active', 'inactive', 'full', 'closed')),
+  ADD COLUMN status_reason TEXT,
+  ADD COLUMN status_changed_at TIMESTAMPTZ,
+  ADD COLUMN closed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.apply_camp_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('active', 'full') THEN
+    IF NEW.occupied_seats >= NEW.total_capacity THEN
+      NEW.status = 'full';
+    -- A camp marked full by hand stays full until someone leaves or capacity grows
+    ELSIF TG_OP = 'INSERT'
+      OR NEW.occupied_seats < OLD.occupied_seats
+      OR NEW.total_capacity > OLD.total_capacity THEN
+      NEW.status = 'active';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'closed' AND NOT public.is_admin() THEN
+      RAISE EXCEPTION 'Only administrators can reopen a closed camp' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.status IN ('inactive', 'closed') AND COALESCE(btrim(NEW.status_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to suspend or close a camp' USING ERRCODE = '23514';
+    END IF;
+
+    IF NEW.status = 'closed' AND EXISTS (
+      SELECT 1 FROM public.evacuees WHERE camp_id = NEW.id AND status = 'checked_in'
+    ) THEN
+      RAISE EXCEPTION 'Check out or transfer every evacuee before closing the camp' USING ERRCODE = '23514';
+    END IF;
+
+    -- Automatic flips between active and full carry no reason of their own
+    IF NEW.status IN ('active', 'full') AND (TG_OP = 'INSERT' OR OLD.status IN ('inactive', 'closed')) THEN
+      NEW.status_reason = NULL;
+    END IF;
+
+    NEW.status_changed_at = now();
+    NEW.closed_at = CASE WHEN NEW.status = 'closed' THEN now() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_camp_status
+  BEFORE INSERT OR UPDATE ON public.camps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_camp_status();
+
+-- Evacuees can no longer be checked in to a camp that has closed
+CREATE OR REPLACE FUNCTION public.guard_closed_camp_check_in()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'checked_in'
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'checked_in' OR NEW.camp_id <> OLD.camp_id)
+    AND EXISTS (SELECT 1 FROM public.camps WHERE id = NEW.camp_id AND status = 'closed') THEN
+    RAISE EXCEPTION 'This camp is closed' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_closed_camp_check_in
+  BEFORE INSERT OR UPDATE ON public.evacuees
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_closed_camp_check_in();
+
+-- Bring existing camps in line with their occupancy
+UPDATE public.camps
+SET status = 'full'
+WHERE status = 'active' AND occupied_seats >= total_capacity;
@@ -0,0 +1,58 @@
+-- Who can see which camps:
+--   camp staff  their own camps in every state; the account that registered a
+--               camp always keeps sight of it
+--   NGOs        verified camps that are active or full (a full camp still has
+--               needs), plus any camp they have pledged to so their delivery
+--               history keeps its camp names after a camp closes
+--   citizens    verified active camps
+--   admins      every camp
+-- Needs follow their camp: whoever can see a camp can see its needs.
+
+CREATE OR REPLACE FUNCTION public.is_ngo()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo');
+$$;
+
+-- SECURITY DEFINER so the camps policy can look at pledges without their own policies
+CREATE OR REPLACE FUNCTION public.has_assisted_camp(_camp_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.ngo_assistance
+    WHERE camp_id = _camp_id AND ngo_id = auth.uid()
+  );
+$$;
+
+DROP POLICY "Camp members can view their camps" ON public.camps;
+
+CREATE POLICY "Camp staff can view their camps"
+  ON public.camps FOR SELECT
+  USING (auth.uid() = camp_admin_id OR public.has_camp_role(id));
+
+CREATE POLICY "NGOs can view active and full verified camps"
+  ON public.camps FOR SELECT
+  USING (
+    status IN ('active', 'full')
+    AND verification_status = 'verified'
+    AND public.is_ngo()
+  );
+
+CREATE POLICY "NGOs can view camps they assisted"
+  ON public.camps FOR SELECT
+  USING (public.has_assisted_camp(id));
+
+-- "Anyone can view active verified camps" and "Admins can view all camps" stay as they are
+
+DROP POLICY "Anyone can view needs of verified camps" ON public.camp_needs;
+
+-- The subquery runs under the caller's camps policies above
+CREATE POLICY "Anyone can view needs of visible camps"
+  ON public.camp_needs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.camps WHERE camps.id = camp_id));
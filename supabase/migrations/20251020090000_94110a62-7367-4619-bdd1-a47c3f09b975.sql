@@ -0,0 +1,104 @@
+-- Urgency as an ordered enum, so sorting puts critical needs first instead of
+-- comparing the labels alphabetically
+CREATE TYPE public.need_urgency AS ENUM ('low', 'medium', 'high', 'critical');
+
+ALTER TABLE public.camp_needs DROP CONSTRAINT camp_needs_urgency_check;
+
+UPDATE public.camp_needs SET urgency = 'medium' WHERE urgency IS NULL;
+
+ALTER TABLE public.camp_needs
+  ALTER COLUMN urgency DROP DEFAULT,
+  ALTER COLUMN urgency TYPE public.need_urgency USING urgency::public.need_urgency,
+  ALTER COLUMN urgency SET DEFAULT 'medium',
+  ALTER COLUMN urgency SET NOT NULL;
+
+-- Same as before, with the urgency typed for the new column
+CREATE OR REPLACE FUNCTION public.raise_low_stock_need(_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand INTEGER;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+
+  IF NOT FOUND OR _item.low_stock_threshold IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_on_hand), 0) INTO _on_hand
+  FROM public.inventory_batches
+  WHERE item_id = _item_id;
+
+  IF _on_hand > _item.low_stock_threshold THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.camp_needs
+    WHERE camp_id = _item.camp_id
+      AND status <> 'fulfilled'
+      AND (inventory_item_id = _item.id OR lower(item_name) = lower(_item.name))
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.camp_needs (camp_id, item_name, quantity_needed, urgency, inventory_item_id)
+  VALUES (
+    _item.camp_id,
+    _item.name,
+    GREATEST(COALESCE(_item.reorder_quantity, _item.low_stock_threshold * 2) - _on_hand, 1),
+    CASE WHEN _on_hand = 0 THEN 'critical'::public.need_urgency ELSE 'high'::public.need_urgency END,
+    _item.id
+  );
+END;
+$$;
+
+-- Priority on a 0-100 scale. Weights:
+--   urgency     40  low 0, medium 1/3, high 2/3, critical 1
+--   unmet       30  share of the quantity still not received
+--   age         15  grows over the first three days the need stays open
+--   occupancy   15  how full the camp is, since more people draw on it faster
+-- Fulfilled needs score 0.
+CREATE OR REPLACE FUNCTION public.need_priority_score(
+  _urgency public.need_urgency,
+  _created_at TIMESTAMPTZ,
+  _quantity_needed INTEGER,
+  _quantity_fulfilled INTEGER,
+  _occupied_seats INTEGER,
+  _total_capacity INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _quantity_needed <= 0 OR COALESCE(_quantity_fulfilled, 0) >= _quantity_needed THEN 0
+    ELSE round(
+      40 * (array_position(enum_range(NULL::public.need_urgency), _urgency) - 1) / 3.0
+      + 30 * (_quantity_needed - COALESCE(_quantity_fulfilled, 0))::NUMERIC / _quantity_needed
+      + 15 * LEAST(EXTRACT(EPOCH FROM now() - COALESCE(_created_at, now())) / (72 * 3600), 1)
+      + 15 * CASE WHEN _total_capacity > 0
+                  THEN LEAST(_occupied_seats::NUMERIC / _total_capacity, 1)
+                  ELSE 0 END,
+      1
+    )
+  END;
+$$;
+
+-- Needs with their priority. security_invoker keeps the camp_needs and camps
+-- policies of whoever is reading.
+CREATE VIEW public.camp_needs_prioritized
+WITH (security_invoker = true)
+AS
+SELECT
+  n.*,
+  public.need_priority_score(
+    n.urgency, n.created_at, n.quantity_needed, n.quantity_fulfilled, c.occupied_seats, c.total_capacity
+  ) AS priority_score
+FROM public.camp_needs n
+JOIN public.camps c ON c.id = n.camp_id;
+
+GRANT SELECT ON public.camp_needs_prioritized TO anon, authenticated;
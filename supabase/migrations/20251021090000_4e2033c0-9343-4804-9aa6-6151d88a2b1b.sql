@@ -0,0 +1,286 @@
+-- Needs no longer sit open forever:
+--   * an open need nobody has pledged to is "unanswered" from the moment it was
+--     raised or its last outstanding pledge went away
+--   * unanswered needs escalate one urgency level after the interval set for
+--     their current level in need_escalation_rules
+--   * a need can carry an expiry time, after which it is marked expired
+--   * closing a camp closes its open needs
+--   * NGOs can cancel a pledge that has not been delivered; the need takes the
+--     quantity back and becomes unanswered again if nothing else is pledged
+ALTER TABLE public.camp_needs DROP CONSTRAINT camp_needs_status_check;
+
+ALTER TABLE public.camp_needs
+  ADD CONSTRAINT camp_needs_status_check
+    CHECK (status IN ('pending', 'partial', 'fulfilled', 'expired', 'closed')),
+  ADD COLUMN expires_at TIMESTAMPTZ,
+  ADD COLUMN closed_at TIMESTAMPTZ,
+  ADD COLUMN closed_reason TEXT,
+  ADD COLUMN unanswered_since TIMESTAMPTZ DEFAULT now(),
+  ADD COLUMN urgency_changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN escalated_at TIMESTAMPTZ;
+
+UPDATE public.camp_needs
+SET
+  unanswered_since = CASE
+    WHEN status IN ('pending', 'partial') AND quantity_pledged = 0 THEN COALESCE(created_at, now())
+  END,
+  urgency_changed_at = COALESCE(created_at, now());
+
+CREATE INDEX camp_needs_open_unanswered_idx
+  ON public.camp_needs (urgency, unanswered_since)
+  WHERE status IN ('pending', 'partial');
+
+ALTER TABLE public.ngo_assistance DROP CONSTRAINT ngo_assistance_delivery_status_check;
+
+ALTER TABLE public.ngo_assistance
+  ADD CONSTRAINT ngo_assistance_delivery_status_check
+    CHECK (delivery_status IN ('pledged', 'in_transit', 'delivered', 'cancelled')),
+  ADD COLUMN cancelled_at TIMESTAMPTZ,
+  ADD COLUMN cancellation_reason TEXT;
+
+-- How long a need may stay unanswered at each urgency before it moves up a
+-- level. Levels without a row never escalate; critical is the top.
+CREATE TABLE public.need_escalation_rules (
+  urgency public.need_urgency PRIMARY KEY CHECK (urgency <> 'critical'),
+  escalate_after_hours INTEGER NOT NULL CHECK (escalate_after_hours > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.need_escalation_rules (urgency, escalate_after_hours) VALUES
+  ('medium', 12),
+  ('high', 6);
+
+ALTER TABLE public.need_escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view escalation rules"
+  ON public.need_escalation_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage escalation rules"
+  ON public.need_escalation_rules FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE TRIGGER update_need_escalation_rules_updated_at
+  BEFORE UPDATE ON public.need_escalation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A change of urgency restarts the escalation clock; only escalate_stale_needs()
+-- marks a need as escalated
+CREATE OR REPLACE FUNCTION public.track_need_urgency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.urgency IS DISTINCT FROM OLD.urgency THEN
+    NEW.urgency_changed_at = now();
+    IF NEW.escalated_at IS NOT DISTINCT FROM OLD.escalated_at THEN
+      NEW.escalated_at = NULL;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('expired', 'closed') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    NEW.closed_at = COALESCE(NEW.closed_at, now());
+    NEW.unanswered_since = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_need_urgency
+  BEFORE UPDATE ON public.camp_needs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_need_urgency();
+
+-- Expired and closed needs keep their status while late deliveries are still counted
+CREATE OR REPLACE FUNCTION public.recalculate_need_fulfilment(_need_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _pledged INTEGER;
+  _received INTEGER;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(quantity) FILTER (WHERE delivery_status IN ('pledged', 'in_transit')), 0),
+    COALESCE(SUM(quantity_received) FILTER (WHERE delivery_status = 'delivered'), 0)
+  INTO _pledged, _received
+  FROM public.ngo_assistance
+  WHERE need_id = _need_id;
+
+  _status := CASE
+    WHEN _need.status IN ('expired', 'closed') THEN _need.status
+    WHEN _received >= _need.quantity_needed THEN 'fulfilled'
+    WHEN _received > 0 THEN 'partial'
+    ELSE 'pending'
+  END;
+
+  UPDATE public.camp_needs
+  SET
+    quantity_pledged = _pledged,
+    quantity_fulfilled = _received,
+    status = _status,
+    unanswered_since = CASE
+      WHEN _pledged > 0 OR _status NOT IN ('pending', 'partial') THEN NULL
+      ELSE COALESCE(_need.unanswered_since, now())
+    END
+  WHERE id = _need_id;
+END;
+$$;
+
+-- Pledges only go to needs that are still open
+CREATE OR REPLACE FUNCTION public.guard_assistance_need()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.need_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.camp_needs WHERE id = NEW.need_id AND status IN ('expired', 'closed')
+  ) THEN
+    RAISE EXCEPTION 'This need is no longer open' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assistance_need
+  BEFORE INSERT ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_assistance_need();
+
+-- Cancelled assistance is final, and only undelivered pledges can be cancelled
+CREATE OR REPLACE FUNCTION public.guard_assistance_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the need a pledge was for unlinks it, cancelled or not
+  IF NEW.need_id IS NULL AND to_jsonb(NEW) - 'need_id' = to_jsonb(OLD) - 'need_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.delivery_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled assistance can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.delivery_status = 'cancelled' THEN
+    NEW.cancelled_at = COALESCE(NEW.cancelled_at, now());
+  ELSIF NEW.cancelled_at IS NOT NULL OR NEW.cancellation_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Only cancelled assistance has a cancellation' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assistance_cancellation
+  BEFORE UPDATE ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_assistance_cancellation();
+
+-- Moves each stale unanswered need up one level; returns how many escalated
+CREATE OR REPLACE FUNCTION public.escalate_stale_needs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.camp_needs n
+  SET
+    urgency = (enum_range(n.urgency, NULL))[2],
+    escalated_at = now()
+  FROM public.need_escalation_rules r
+  WHERE r.urgency = n.urgency
+    AND n.status IN ('pending', 'partial')
+    AND n.unanswered_since IS NOT NULL
+    AND now() - GREATEST(n.unanswered_since, n.urgency_changed_at) >= make_interval(hours => r.escalate_after_hours);
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_needs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  UPDATE public.camp_needs
+  SET status = 'expired'
+  WHERE status IN ('pending', 'partial') AND expires_at <= now();
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_stale_needs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_needs() FROM PUBLIC, anon, authenticated;
+
+-- A camp's open needs close with it
+CREATE OR REPLACE FUNCTION public.close_camp_needs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.camp_needs
+  SET status = 'closed', closed_reason = 'Camp closed'
+  WHERE camp_id = NEW.id AND status IN ('pending', 'partial');
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER close_camp_needs
+  AFTER UPDATE OF status ON public.camps
+  FOR EACH ROW
+  WHEN (NEW.status = 'closed' AND OLD.status IS DISTINCT FROM 'closed')
+  EXECUTE FUNCTION public.close_camp_needs();
+
+-- Escalation and expiry run every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'need-maintenance',
+  '*/5 * * * *',
+  $$SELECT public.expire_needs(); SELECT public.escalate_stale_needs();$$
+);
+
+-- n.* was expanded when the view was created, so it is rebuilt to pick up the
+-- new columns. Needs that are no longer open score 0.
+DROP VIEW public.camp_needs_prioritized;
+
+CREATE VIEW public.camp_needs_prioritized
+WITH (security_invoker = true)
+AS
+SELECT
+  n.*,
+  CASE
+    WHEN n.status IN ('pending', 'partial') THEN public.need_priority_score(
+      n.urgency, n.created_at, n.quantity_needed, n.quantity_fulfilled, c.occupied_seats, c.total_capacity
+    )
+    ELSE 0
+  END AS priority_score
+FROM public.camp_needs n
+JOIN public.camps c ON c.id = n.camp_id;
+
+GRANT SELECT ON public.camp_needs_prioritized TO anon, authenticated;
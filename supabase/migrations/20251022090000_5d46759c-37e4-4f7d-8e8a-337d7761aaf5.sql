@@ -0,0 +1,293 @@
+-- Camp staff can now correct a need's quantity or urgency, cancel it with a
+-- reason, or split it into tranches that fall due one after another.
+--   * a cancelled need keeps its reason in closed_reason; NGOs with pledges
+--     still outstanding see it against those pledges
+--   * a tranche points back at the need it was split from and only starts
+--     counting as unanswered once it is due (needed_from)
+ALTER TABLE public.camp_needs DROP CONSTRAINT camp_needs_status_check;
+
+ALTER TABLE public.camp_needs
+  ADD CONSTRAINT camp_needs_status_check
+    CHECK (status IN ('pending', 'partial', 'fulfilled', 'expired', 'closed', 'cancelled')),
+  ADD COLUMN parent_need_id UUID REFERENCES public.camp_needs(id) ON DELETE SET NULL,
+  ADD COLUMN needed_from TIMESTAMPTZ;
+
+-- Needs that are no longer open can't be edited, a need can't be cut below
+-- what has already been received or pledged, and a cancellation needs a reason
+CREATE OR REPLACE FUNCTION public.guard_need_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.quantity_needed <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only checked when the quantity itself changes, since accepted surplus can
+  -- leave a need committed past what it asked for
+  IF NEW.quantity_needed IS DISTINCT FROM OLD.quantity_needed
+    AND NEW.quantity_needed < COALESCE(NEW.quantity_fulfilled, 0) + NEW.quantity_pledged
+  THEN
+    RAISE EXCEPTION 'Quantity cannot be less than what has already been received or pledged'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF OLD.status IN ('expired', 'closed', 'cancelled')
+    AND (NEW.quantity_needed <> OLD.quantity_needed OR NEW.urgency <> OLD.urgency OR NEW.status <> OLD.status)
+  THEN
+    RAISE EXCEPTION 'This need is no longer open' USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND COALESCE(trim(NEW.closed_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel a need' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_need_changes
+  BEFORE UPDATE ON public.camp_needs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_need_changes();
+
+-- Same as before, with cancelled needs closed like expired ones
+CREATE OR REPLACE FUNCTION public.track_need_urgency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.urgency IS DISTINCT FROM OLD.urgency THEN
+    NEW.urgency_changed_at = now();
+    IF NEW.escalated_at IS NOT DISTINCT FROM OLD.escalated_at THEN
+      NEW.escalated_at = NULL;
+    END IF;
+  END IF;
+
+  IF NEW.status IN ('expired', 'closed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    NEW.closed_at = COALESCE(NEW.closed_at, now());
+    NEW.unanswered_since = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, keeping cancelled needs cancelled
+CREATE OR REPLACE FUNCTION public.recalculate_need_fulfilment(_need_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _pledged INTEGER;
+  _received INTEGER;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(quantity) FILTER (WHERE delivery_status IN ('pledged', 'in_transit')), 0),
+    COALESCE(SUM(quantity_received) FILTER (WHERE delivery_status = 'delivered'), 0)
+  INTO _pledged, _received
+  FROM public.ngo_assistance
+  WHERE need_id = _need_id;
+
+  _status := CASE
+    WHEN _need.status IN ('expired', 'closed', 'cancelled') THEN _need.status
+    WHEN _received >= _need.quantity_needed THEN 'fulfilled'
+    WHEN _received > 0 THEN 'partial'
+    ELSE 'pending'
+  END;
+
+  UPDATE public.camp_needs
+  SET
+    quantity_pledged = _pledged,
+    quantity_fulfilled = _received,
+    status = _status,
+    unanswered_since = CASE
+      WHEN _pledged > 0 OR _status NOT IN ('pending', 'partial') THEN NULL
+      ELSE COALESCE(_need.unanswered_since, now())
+    END
+  WHERE id = _need_id;
+END;
+$$;
+
+-- A new quantity can make a need fulfilled, or open it again
+CREATE OR REPLACE FUNCTION public.refresh_need_fulfilment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.recalculate_need_fulfilment(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_need_fulfilment
+  AFTER UPDATE OF quantity_needed ON public.camp_needs
+  FOR EACH ROW
+  WHEN (NEW.quantity_needed IS DISTINCT FROM OLD.quantity_needed)
+  EXECUTE FUNCTION public.refresh_need_fulfilment();
+
+CREATE OR REPLACE FUNCTION public.guard_assistance_need()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.need_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.camp_needs WHERE id = NEW.need_id AND status IN ('expired', 'closed', 'cancelled')
+  ) THEN
+    RAISE EXCEPTION 'This need is no longer open' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, except that only an open need stops a new one being raised;
+-- an expired or cancelled need for the item no longer blocks it
+CREATE OR REPLACE FUNCTION public.raise_low_stock_need(_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _item public.inventory_items;
+  _on_hand INTEGER;
+BEGIN
+  SELECT * INTO _item FROM public.inventory_items WHERE id = _item_id;
+
+  IF NOT FOUND OR _item.low_stock_threshold IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_on_hand), 0) INTO _on_hand
+  FROM public.inventory_batches
+  WHERE item_id = _item_id;
+
+  IF _on_hand > _item.low_stock_threshold THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.camp_needs
+    WHERE camp_id = _item.camp_id
+      AND status IN ('pending', 'partial')
+      AND (inventory_item_id = _item.id OR lower(item_name) = lower(_item.name))
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.camp_needs (camp_id, item_name, quantity_needed, urgency, inventory_item_id)
+  VALUES (
+    _item.camp_id,
+    _item.name,
+    GREATEST(COALESCE(_item.reorder_quantity, _item.low_stock_threshold * 2) - _on_hand, 1),
+    CASE WHEN _on_hand = 0 THEN 'critical'::public.need_urgency ELSE 'high'::public.need_urgency END,
+    _item.id
+  );
+END;
+$$;
+
+-- Splits what is still unpledged of a need into _tranches parts, _interval_hours
+-- apart. The need itself becomes the first tranche and keeps its pledges and
+-- deliveries; the rest are new needs due one interval after another. Returns
+-- every tranche in order.
+CREATE OR REPLACE FUNCTION public.split_need(
+  _need_id UUID,
+  _tranches INTEGER,
+  _interval_hours INTEGER
+)
+RETURNS SETOF public.camp_needs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _committed INTEGER;
+  _open INTEGER;
+  _share INTEGER;
+  _starts_at TIMESTAMPTZ;
+  _due_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_camp_role(_need.camp_id, ARRAY['owner', 'manager', 'storekeeper']) THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _need.status NOT IN ('pending', 'partial') THEN
+    RAISE EXCEPTION 'This need is no longer open' USING ERRCODE = '23514';
+  END IF;
+
+  IF _tranches IS NULL OR _tranches < 2 THEN
+    RAISE EXCEPTION 'A need is split into at least two tranches' USING ERRCODE = '22023';
+  END IF;
+
+  IF _interval_hours IS NULL OR _interval_hours <= 0 THEN
+    RAISE EXCEPTION 'The interval must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  _committed := COALESCE(_need.quantity_fulfilled, 0) + _need.quantity_pledged;
+  _open := _need.quantity_needed - _committed;
+
+  IF _open < _tranches THEN
+    RAISE EXCEPTION 'Not enough unpledged quantity to split into % tranches', _tranches USING ERRCODE = '22023';
+  END IF;
+
+  -- Earlier tranches take the remainder so the totals still add up
+  _starts_at := GREATEST(COALESCE(_need.needed_from, now()), now());
+
+  UPDATE public.camp_needs
+  SET quantity_needed = _committed + _open / _tranches + CASE WHEN _open % _tranches > 0 THEN 1 ELSE 0 END
+  WHERE id = _need.id;
+
+  FOR _i IN 1.._tranches - 1 LOOP
+    _share := _open / _tranches + CASE WHEN _open % _tranches > _i THEN 1 ELSE 0 END;
+    _due_at := _starts_at + make_interval(hours => _interval_hours * _i);
+
+    INSERT INTO public.camp_needs (
+      camp_id, item_name, catalogue_item_id, inventory_item_id, quantity_needed, urgency,
+      expires_at, parent_need_id, needed_from, unanswered_since
+    )
+    VALUES (
+      _need.camp_id, _need.item_name, _need.catalogue_item_id, _need.inventory_item_id, _share, _need.urgency,
+      -- An expiry moves along with the tranche, so each gets the same window
+      _need.expires_at + (_due_at - _starts_at), _need.id, _due_at, _due_at
+    );
+  END LOOP;
+
+  RETURN QUERY
+    SELECT * FROM public.camp_needs
+    WHERE id = _need.id OR parent_need_id = _need.id
+    ORDER BY needed_from NULLS FIRST, created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.split_need(UUID, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.split_need(UUID, INTEGER, INTEGER) TO authenticated;
+
+-- n.* was expanded when the view was created, so it is rebuilt to pick up the new columns
+DROP VIEW public.camp_needs_prioritized;
+
+CREATE VIEW public.camp_needs_prioritized
+WITH (security_invoker = true)
+AS
+SELECT
+  n.*,
+  CASE
+    WHEN n.status IN ('pending', 'partial') THEN public.need_priority_score(
+      n.urgency, n.created_at, n.quantity_needed, n.quantity_fulfilled, c.occupied_seats, c.total_capacity
+    )
+    ELSE 0
+  END AS priority_score
+FROM public.camp_needs n
+JOIN public.camps c ON c.id = n.camp_id;
+
+GRANT SELECT ON public.camp_needs_prioritized TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- Tracking notes NGOs add to a pledge while it is on its way ("loaded at the
+-- Aluva warehouse", "held up at the Kalamassery bridge"). The receiving camp
+-- reads them alongside the delivery.
+CREATE TABLE public.assistance_tracking_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assistance_id UUID NOT NULL REFERENCES public.ngo_assistance(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+  note TEXT NOT NULL CHECK (length(trim(note)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX assistance_tracking_notes_assistance_id_idx
+  ON public.assistance_tracking_notes (assistance_id, created_at);
+
+ALTER TABLE public.assistance_tracking_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "NGOs and receiving camps can view tracking notes"
+  ON public.assistance_tracking_notes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ngo_assistance a
+      WHERE a.id = assistance_id
+        AND (a.ngo_id = auth.uid() OR public.has_camp_role(a.camp_id) OR public.is_admin())
+    )
+  );
+
+-- Notes only go on the NGO's own pledges that are still outstanding
+CREATE POLICY "NGOs can add tracking notes to outstanding pledges"
+  ON public.assistance_tracking_notes FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.ngo_assistance a
+      WHERE a.id = assistance_id
+        AND a.ngo_id = auth.uid()
+        AND a.delivery_status IN ('pledged', 'in_transit')
+    )
+  );
+
+-- Only outstanding pledges can be cancelled, and the receiving camp is told why
+CREATE OR REPLACE FUNCTION public.guard_assistance_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the need a pledge was for unlinks it, cancelled or not
+  IF NEW.need_id IS NULL AND to_jsonb(NEW) - 'need_id' = to_jsonb(OLD) - 'need_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.delivery_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled assistance can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.delivery_status = 'cancelled' THEN
+    IF OLD.delivery_status NOT IN ('pledged', 'in_transit') THEN
+      RAISE EXCEPTION 'Only pledges that have not been delivered can be cancelled' USING ERRCODE = '23514';
+    END IF;
+    IF COALESCE(trim(NEW.cancellation_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to cancel a pledge' USING ERRCODE = '23514';
+    END IF;
+    NEW.cancelled_at = COALESCE(NEW.cancelled_at, now());
+  ELSIF NEW.cancelled_at IS NOT NULL OR NEW.cancellation_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Only cancelled assistance has a cancellation' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Camps see new notes without a reload
+ALTER PUBLICATION supabase_realtime ADD TABLE public.assistance_tracking_notes;
@@ -0,0 +1,242 @@
+-- Pledges are capped at what a need still has open (needed, less what has been
+-- received and what is already on its way). An NGO that wants to send more marks
+-- the extra as surplus, which the receiving camp accepts or declines:
+--   * accepted  the full pledge stands
+--   * declined  the pledge drops back to the capped quantity, or is cancelled
+--               if it was all surplus; surplus_quantity keeps what was offered
+-- The cap is checked on insert so direct inserts can't get round the RPC.
+
+-- Older rows predate the RPC's own check, so only new rows are held to it
+ALTER TABLE public.ngo_assistance
+  ADD CONSTRAINT ngo_assistance_quantity_positive CHECK (quantity > 0) NOT VALID;
+
+ALTER TABLE public.ngo_assistance
+  ADD COLUMN surplus_quantity INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN surplus_status TEXT,
+  ADD COLUMN surplus_decided_at TIMESTAMPTZ,
+  ADD COLUMN surplus_decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD CONSTRAINT ngo_assistance_surplus_quantity_check CHECK (surplus_quantity >= 0),
+  ADD CONSTRAINT ngo_assistance_surplus_status_check
+    CHECK (
+      (surplus_quantity = 0 AND surplus_status IS NULL)
+      OR (surplus_quantity > 0 AND surplus_status IN ('pending', 'accepted', 'declined'))
+    );
+
+-- Pledges only go to needs that are still open, and only up to what they still need
+CREATE OR REPLACE FUNCTION public.guard_assistance_need()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _remaining INTEGER;
+BEGIN
+  IF NEW.surplus_quantity > NEW.quantity THEN
+    RAISE EXCEPTION 'Surplus can''t be more than the pledged quantity' USING ERRCODE = '22023';
+  END IF;
+
+  NEW.surplus_status = CASE WHEN NEW.surplus_quantity > 0 THEN 'pending' END;
+  NEW.surplus_decided_at = NULL;
+  NEW.surplus_decided_by = NULL;
+
+  IF NEW.need_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locked so two NGOs pledging at once can't both take the last units
+  SELECT * INTO _need FROM public.camp_needs WHERE id = NEW.need_id FOR UPDATE;
+
+  IF _need.status IN ('expired', 'closed', 'cancelled') THEN
+    RAISE EXCEPTION 'This need is no longer open' USING ERRCODE = '23514';
+  END IF;
+
+  _remaining := GREATEST(_need.quantity_needed - COALESCE(_need.quantity_fulfilled, 0) - _need.quantity_pledged, 0);
+
+  IF NEW.quantity - NEW.surplus_quantity > _remaining THEN
+    RAISE EXCEPTION 'Only % still needed; pledge the rest as surplus', _remaining USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A pledge stays with the need, camp and item it was made for, and only the
+-- receiving camp changes its quantity or surplus, through decide_pledge_surplus()
+CREATE OR REPLACE FUNCTION public.guard_assistance_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the need a pledge was for unlinks it (ON DELETE SET NULL)
+  IF NEW.need_id IS NULL AND to_jsonb(NEW) - 'need_id' = to_jsonb(OLD) - 'need_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.need_id IS DISTINCT FROM OLD.need_id
+    OR NEW.camp_id IS DISTINCT FROM OLD.camp_id
+    OR NEW.items_provided IS DISTINCT FROM OLD.items_provided
+  THEN
+    RAISE EXCEPTION 'A pledge cannot be moved to another need, camp or item' USING ERRCODE = '42501';
+  END IF;
+
+  IF (NEW.quantity IS DISTINCT FROM OLD.quantity
+      OR NEW.surplus_quantity IS DISTINCT FROM OLD.surplus_quantity
+      OR NEW.surplus_status IS DISTINCT FROM OLD.surplus_status)
+    AND NOT public.has_camp_role(NEW.camp_id, ARRAY['owner', 'manager', 'storekeeper'])
+  THEN
+    RAISE EXCEPTION 'Only the receiving camp can change a pledged quantity' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assistance_quantity
+  BEFORE UPDATE ON public.ngo_assistance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_assistance_quantity();
+
+DROP FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT, UUID);
+
+-- Same as before, with anything over what the need still has open recorded as
+-- surplus when _allow_surplus is set
+CREATE OR REPLACE FUNCTION public.pledge_assistance(
+  _need_id UUID,
+  _quantity INTEGER,
+  _notes TEXT DEFAULT NULL,
+  _catalogue_item_id UUID DEFAULT NULL,
+  _allow_surplus BOOLEAN DEFAULT false
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _need public.camp_needs;
+  _item public.catalogue_items;
+  _pledge public.ngo_assistance;
+  _remaining INTEGER;
+  _surplus INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'ngo') THEN
+    RAISE EXCEPTION 'Only NGO accounts can pledge assistance' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND verification_status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Your organisation must be verified before pledging' USING ERRCODE = '42501';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _need FROM public.camp_needs WHERE id = _need_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Need not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _remaining := GREATEST(_need.quantity_needed - COALESCE(_need.quantity_fulfilled, 0) - _need.quantity_pledged, 0);
+  _surplus := GREATEST(_quantity - _remaining, 0);
+
+  IF _surplus > 0 AND NOT COALESCE(_allow_surplus, false) THEN
+    RAISE EXCEPTION 'Only % still needed; pledge the rest as surplus', _remaining USING ERRCODE = '23514';
+  END IF;
+
+  _catalogue_item_id := COALESCE(_catalogue_item_id, _need.catalogue_item_id);
+
+  IF _catalogue_item_id IS NOT NULL THEN
+    SELECT * INTO _item FROM public.catalogue_items WHERE id = _catalogue_item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Catalogue item not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _need.catalogue_item_id IS NOT NULL AND _item.category <> (
+      SELECT category FROM public.catalogue_items WHERE id = _need.catalogue_item_id
+    ) THEN
+      RAISE EXCEPTION 'Substitutes must be from the same category as the requested item' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.ngo_assistance (
+    ngo_id, camp_id, need_id, items_provided, quantity, notes, catalogue_item_id, surplus_quantity
+  )
+  VALUES (
+    auth.uid(),
+    _need.camp_id,
+    _need.id,
+    CASE WHEN _catalogue_item_id IS DISTINCT FROM _need.catalogue_item_id THEN _item.name ELSE _need.item_name END,
+    _quantity,
+    _notes,
+    _catalogue_item_id,
+    _surplus
+  )
+  RETURNING * INTO _pledge;
+
+  RETURN _pledge;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pledge_assistance(UUID, INTEGER, TEXT, UUID, BOOLEAN) TO authenticated;
+
+-- The receiving camp accepts or declines the surplus on an outstanding pledge
+CREATE OR REPLACE FUNCTION public.decide_pledge_surplus(
+  _assistance_id UUID,
+  _accept BOOLEAN
+)
+RETURNS public.ngo_assistance
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _pledge public.ngo_assistance;
+BEGIN
+  SELECT * INTO _pledge FROM public.ngo_assistance WHERE id = _assistance_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_camp_role(_pledge.camp_id, ARRAY['owner', 'manager', 'storekeeper']) THEN
+    RAISE EXCEPTION 'Pledge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _pledge.surplus_status IS DISTINCT FROM 'pending'
+    OR _pledge.delivery_status NOT IN ('pledged', 'in_transit') THEN
+    RAISE EXCEPTION 'This pledge has no surplus waiting for a decision' USING ERRCODE = '23514';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.ngo_assistance
+    SET surplus_status = 'accepted', surplus_decided_at = now(), surplus_decided_by = auth.uid()
+    WHERE id = _assistance_id
+    RETURNING * INTO _pledge;
+  ELSIF _pledge.quantity = _pledge.surplus_quantity THEN
+    UPDATE public.ngo_assistance
+    SET
+      surplus_status = 'declined',
+      surplus_decided_at = now(),
+      surplus_decided_by = auth.uid(),
+      delivery_status = 'cancelled',
+      cancellation_reason = 'The camp declined the surplus'
+    WHERE id = _assistance_id
+    RETURNING * INTO _pledge;
+  ELSE
+    UPDATE public.ngo_assistance
+    SET
+      quantity = quantity - surplus_quantity,
+      surplus_status = 'declined',
+      surplus_decided_at = now(),
+      surplus_decided_by = auth.uid()
+    WHERE id = _assistance_id
+    RETURNING * INTO _pledge;
+  END IF;
+
+  RETURN _pledge;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.decide_pledge_surplus(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.decide_pledge_surplus(UUID, BOOLEAN) TO authenticated;
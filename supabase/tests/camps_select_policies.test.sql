@@ -0,0 +1,125 @@
+-- Which camps each kind of account can see. Run with `npm run test:db`.
+--   A  active, verified          everyone
+--   B  full, verified            NGOs
+--   C  suspended, verified       its staff
+--   D  closed, verified          the NGO that pledged to it
+--   E  active, pending review    the coordinator who registered it
+-- Admins see all five.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+-- Seeded as the test runner, which bypasses row-level security. New accounts
+-- start as citizens; roles outside any user session pass guard_profile_role.
+insert into auth.users (id, email, raw_user_meta_data) values
+  ('00000000-0000-4000-8000-000000000001', 'admin@test.local', '{"full_name": "Admin"}'),
+  ('00000000-0000-4000-8000-000000000002', 'citizen@test.local', '{"full_name": "Citizen"}'),
+  ('00000000-0000-4000-8000-000000000003', 'ngo@test.local', '{"full_name": "Pledging NGO"}'),
+  ('00000000-0000-4000-8000-000000000004', 'other-ngo@test.local', '{"full_name": "Other NGO"}'),
+  ('00000000-0000-4000-8000-000000000005', 'coordinator@test.local', '{"full_name": "Coordinator"}'),
+  ('00000000-0000-4000-8000-000000000006', 'registrar@test.local', '{"full_name": "Registrar"}');
+
+update public.profiles set role = 'admin' where id = '00000000-0000-4000-8000-000000000001';
+update public.profiles set role = 'ngo'
+  where id in ('00000000-0000-4000-8000-000000000003', '00000000-0000-4000-8000-000000000004');
+update public.profiles set role = 'camp'
+  where id in ('00000000-0000-4000-8000-000000000005', '00000000-0000-4000-8000-000000000006');
+
+-- Verified camps have to be created by an admin
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+insert into public.camps
+  (id, camp_admin_id, name, location, contact_phone, total_capacity, status, status_reason, verification_status)
+values
+  ('00000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-000000000005', 'A', 'Aluva', '0000000000', 10, 'active', null, 'verified'),
+  ('00000000-0000-4000-8000-00000000000b', '00000000-0000-4000-8000-000000000001', 'B', 'Chalakudy', '0000000000', 1, 'active', null, 'verified'),
+  ('00000000-0000-4000-8000-00000000000c', '00000000-0000-4000-8000-000000000001', 'C', 'Kuttanad', '0000000000', 10, 'inactive', 'Access road flooded', 'verified'),
+  ('00000000-0000-4000-8000-00000000000d', '00000000-0000-4000-8000-000000000001', 'D', 'Pandanad', '0000000000', 10, 'closed', 'Relief operations over', 'verified'),
+  ('00000000-0000-4000-8000-00000000000e', '00000000-0000-4000-8000-000000000005', 'E', 'Ranni', '0000000000', 10, 'active', null, 'pending');
+
+reset request.jwt.claims;
+
+-- B's only seat is taken by a check-in
+insert into public.evacuees (camp_id, full_name)
+values ('00000000-0000-4000-8000-00000000000b', 'Evacuee');
+
+insert into public.camp_members (camp_id, user_id, role)
+values ('00000000-0000-4000-8000-00000000000c', '00000000-0000-4000-8000-000000000006', 'registrar');
+
+insert into public.ngo_assistance (ngo_id, camp_id, items_provided, quantity)
+values ('00000000-0000-4000-8000-000000000003', '00000000-0000-4000-8000-00000000000d', 'Rice', 50);
+
+select results_eq(
+  $$ select status from public.camps where name = 'B' $$,
+  array['full'],
+  'B fills up once its only seat is taken'
+);
+
+-- Anyone can view active verified camps
+set local role anon;
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A'],
+  'anon sees only active verified camps'
+);
+
+reset role;
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A'],
+  'citizens see only active verified camps'
+);
+
+-- NGOs can view active and full verified camps, plus camps they assisted
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000003", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A', 'B', 'D'],
+  'NGOs see active and full verified camps and closed camps they pledged to'
+);
+
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000004", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A', 'B'],
+  'NGOs do not see camps other NGOs pledged to'
+);
+
+-- Camp staff can view their camps
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000006", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A', 'C'],
+  'camp staff see their suspended camp'
+);
+
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000005", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A', 'E'],
+  'coordinators see the camps they registered before verification'
+);
+
+-- Admins can view all camps
+set local request.jwt.claims = '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}';
+
+select results_eq(
+  $$ select name from public.camps order by name $$,
+  array['A', 'B', 'C', 'D', 'E'],
+  'admins see every camp'
+);
+
+select * from finish();
+
+rollback;
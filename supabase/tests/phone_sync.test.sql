@@ -0,0 +1,53 @@
+-- Phone numbers from GoTrue and the signup form, and how a confirmed number
+-- reaches the profile. Run with `npm run test:db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(12);
+
+select is(public.format_auth_phone('9876543210'), '+919876543210', 'a bare ten-digit mobile is Indian');
+select is(public.format_auth_phone('98765 43210'), '+919876543210', 'spaces in a local number are dropped');
+select is(public.format_auth_phone('09876543210'), '+919876543210', 'a trunk prefix is dropped');
+select is(public.format_auth_phone('919876543210'), '+919876543210', 'GoTrue numbers get their "+" back');
+select is(public.format_auth_phone('+91 98765 43210'), '+919876543210', '+91 numbers keep their country code');
+select is(public.format_auth_phone('not a number'), null, 'text without digits is not a number');
+select is(public.format_auth_phone('12345'), null, 'too few digits is not a number');
+select is(public.format_auth_phone(''), null, 'an empty number is no number');
+select is(public.format_auth_phone(null), null, 'a missing number is no number');
+
+-- Signing up with a one-time code puts the number on auth.users itself
+insert into auth.users (id, phone, phone_confirmed_at)
+values ('00000000-0000-4000-8000-000000000011', '919876543210', now());
+
+select is(
+  (select phone from public.profiles where id = '00000000-0000-4000-8000-000000000011'),
+  '+919876543210',
+  'OTP sign-ups get their number on the profile'
+);
+
+-- An email account that adds a number, which only counts once confirmed
+insert into auth.users (id, email, raw_user_meta_data)
+values ('00000000-0000-4000-8000-000000000012', 'linker@test.local', '{"full_name": "Linker", "phone": "98470 12345"}');
+
+update auth.users set phone = '919447012345'
+where id = '00000000-0000-4000-8000-000000000012';
+
+select is(
+  (select phone from public.profiles where id = '00000000-0000-4000-8000-000000000012'),
+  '98470 12345',
+  'an unconfirmed number leaves the profile alone'
+);
+
+update auth.users set phone_confirmed_at = now()
+where id = '00000000-0000-4000-8000-000000000012';
+
+select is(
+  (select phone from public.profiles where id = '00000000-0000-4000-8000-000000000012'),
+  '+919447012345',
+  'a confirmed number replaces the one typed at signup'
+);
+
+select * from finish();
+
+rollback;